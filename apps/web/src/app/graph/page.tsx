@@ -4,6 +4,7 @@ import dynamic from "next/dynamic";
 import Link from "next/link";
 import { ArrowLeft, Network } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { GraphAnalyticsPanel } from "@/components/graph-analytics-panel";
 
 // Disable SSR for Sigma.js (requires DOM)
 const SocialGraph = dynamic(
@@ -35,9 +36,12 @@ export default function GraphPage() {
         </div>
       </header>
 
-      {/* Graph */}
-      <main className="flex-1 relative">
-        <SocialGraph className="h-full" />
+      {/* Graph, with analytics alongside on wide screens */}
+      <main className="flex-1 flex min-h-0">
+        <div className="flex-1 relative">
+          <SocialGraph className="h-full" />
+        </div>
+        <GraphAnalyticsPanel className="hidden lg:flex w-72 shrink-0 border-l border-zinc-200" />
       </main>
     </div>
   );
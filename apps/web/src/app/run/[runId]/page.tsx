@@ -0,0 +1,68 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { RunPermalink } from "@/components/run-permalink";
+import { fetchRun, type InvestigationRun } from "@/lib/api-client";
+
+interface RunPageProps {
+  params: Promise<{ runId: string }>;
+}
+
+// Runs change until they finish - always read the latest record
+async function loadRun(runId: string): Promise<InvestigationRun | null> {
+  return fetchRun(runId, { cache: "no-store" }).catch(() => null);
+}
+
+function describeRun(run: InvestigationRun): string {
+  if (run.status === "success" && run.result) {
+    const hops = run.result.path.length - 1;
+    if (hops === 0) return `${run.result.path[0]} · same person, no hops needed`;
+    return `${run.result.path.join(" → ")} · ${hops}-hop connection with ${Math.round(run.result.confidence.pathBottleneck)}% confidence`;
+  }
+  return run.message ?? `Investigating ${run.personA} → ${run.personB}`;
+}
+
+export async function generateMetadata({ params }: RunPageProps): Promise<Metadata> {
+  const { runId } = await params;
+  const run = await loadRun(runId);
+  if (!run) {
+    return { title: "Investigation not found - Connected?" };
+  }
+
+  const title = `${run.personA} → ${run.personB} - Connected?`;
+  const description = describeRun(run);
+  // Link previews need fetchable images (inline data URIs from offline fixtures are skipped)
+  const images = (run.result?.edges ?? [])
+    .map((edge) => ({
+      url: edge.bestEvidence.thumbnailUrl || edge.bestEvidence.imageUrl,
+      alt: `${edge.from} with ${edge.to}`,
+    }))
+    .filter((image) => /^https?:\/\//.test(image.url))
+    .slice(0, 4);
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "article",
+      images,
+    },
+    twitter: {
+      card: images.length > 0 ? "summary_large_image" : "summary",
+      title,
+      description,
+      images: images.map((image) => image.url),
+    },
+  };
+}
+
+export default async function RunPage({ params }: RunPageProps) {
+  const { runId } = await params;
+  const run = await loadRun(runId);
+  if (!run) {
+    notFound();
+  }
+
+  return <RunPermalink run={run} />;
+}
@@ -37,6 +37,7 @@ import {
   Globe,
   PlusIcon,
   Search,
+  Square,
 } from "lucide-react"
 import { useRef, useState, useCallback } from "react"
 import { parseQuery } from "@/lib/query-parser"
@@ -52,6 +53,7 @@ import type {
 import { createInitialState, STEP_TITLES } from "@/types/investigation"
 import {
   startInvestigation,
+  cancelInvestigation,
   createWebSocketEventStream,
   createEventStream,
   parseQueryWithAI,
@@ -377,6 +379,7 @@ function mapWorkerEventsToState(
             sourceUrl: edge.contextUrl || "",
             confidence: edge.confidence,
             description: `${edge.from} and ${edge.to}`,
+            fromGraph: edge.fromGraph,
           };
           state.evidence = [...state.evidence, evidenceItem];
 
@@ -450,6 +453,16 @@ function mapWorkerEventsToState(
         );
         break;
 
+      case "cancelled":
+        state.status = "failed";
+        // Stopped by the user - running segments were never finished
+        state.segments = state.segments.map(segment =>
+          segment.status === "running"
+            ? { ...segment, status: "skipped", endTime: timestamp }
+            : segment
+        );
+        break;
+
       case "error":
         state.status = "failed";
         // Mark all running segments as failed on error
@@ -471,6 +484,7 @@ function ChatContent() {
   const [chatMessages, setChatMessages] = useState(initialMessages)
   const chatContainerRef = useRef<HTMLDivElement>(null)
   const stopPollingRef = useRef<(() => void) | null>(null)
+  const activeRunRef = useRef<{ runId: string; cancelToken: string } | null>(null)
 
   /**
    * Start a real investigation using the worker API
@@ -489,7 +503,8 @@ function ChatContent() {
     try {
       // Start the investigation
       const response = await startInvestigation(personA, personB);
-      const { runId } = response;
+      const { runId, cancelToken } = response;
+      activeRunRef.current = { runId, cancelToken };
 
       // Event handler for processing stream events
       const handleEvent = (event: WorkerEvent) => {
@@ -593,6 +608,43 @@ function ChatContent() {
     }
   }, []);
 
+  const handleStop = () => {
+    const activeRun = activeRunRef.current;
+    activeRunRef.current = null;
+    if (stopPollingRef.current) {
+      stopPollingRef.current();
+      stopPollingRef.current = null;
+    }
+    if (!activeRun) return;
+    const { runId, cancelToken } = activeRun;
+
+    // Terminate the workflow server-side (refunds the unspent share of the search)
+    cancelInvestigation(runId, cancelToken).catch(err => console.warn("Failed to cancel investigation:", err));
+
+    // Keep the results so far, but mark the investigation as stopped
+    const cancelledEvent: WorkerEvent = {
+      type: "cancelled",
+      runId,
+      timestamp: new Date().toISOString(),
+      message: "Investigation stopped by user",
+    };
+    setChatMessages(prev => {
+      const lastMsg = prev[prev.length - 1];
+      if (lastMsg.role === "assistant" && lastMsg.investigationState) {
+        const { personA, personB } = lastMsg.investigationState.query;
+        return [
+          ...prev.slice(0, -1),
+          {
+            ...lastMsg,
+            investigationState: mapWorkerEventsToState([cancelledEvent], personA, personB, lastMsg.investigationState)
+          }
+        ];
+      }
+      return prev;
+    });
+    setIsLoading(false);
+  };
+
   const handleSubmit = async () => {
     if (!prompt.trim()) return
 
@@ -742,18 +794,28 @@ function ChatContent() {
                   </PromptInputAction>
                 </div>
                 <div className="flex items-center gap-2">
-                  <Button
-                    size="icon"
-                    disabled={!prompt.trim() || isLoading}
-                    onClick={handleSubmit}
-                    className="size-9 rounded-full"
-                  >
-                    {!isLoading ? (
+                  {isLoading ? (
+                    <PromptInputAction tooltip="Stop">
+                      <Button
+                        size="icon"
+                        variant="destructive"
+                        onClick={handleStop}
+                        className="size-9 rounded-full"
+                        aria-label="Stop investigation"
+                      >
+                        <Square size={14} className="fill-current" />
+                      </Button>
+                    </PromptInputAction>
+                  ) : (
+                    <Button
+                      size="icon"
+                      disabled={!prompt.trim()}
+                      onClick={handleSubmit}
+                      className="size-9 rounded-full"
+                    >
                       <ArrowUp size={18} />
-                    ) : (
-                      <span className="size-3 rounded-xs bg-white" />
-                    )}
-                  </Button>
+                    </Button>
+                  )}
                 </div>
               </PromptInputActions>
             </div>
@@ -0,0 +1,143 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchGraphAnalytics, type CentralityEntry, type GraphAnalytics } from "@/lib/api-client";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw } from "lucide-react";
+
+interface GraphAnalyticsPanelProps {
+  className?: string;
+  /** People listed per ranking (default: 8) */
+  top?: number;
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function Ranking({ title, hint, entries, value }: {
+  title: string;
+  hint: string;
+  entries: CentralityEntry[];
+  value: (entry: CentralityEntry) => string;
+}) {
+  return (
+    <section>
+      <h3 className="text-xs font-semibold text-zinc-900">{title}</h3>
+      <p className="text-[11px] text-zinc-500 mb-2">{hint}</p>
+      {entries.length === 0 ? (
+        <p className="text-xs text-zinc-400">Nobody yet</p>
+      ) : (
+        <ol className="space-y-1">
+          {entries.map((entry, index) => (
+            <li key={entry.id} className="flex items-center gap-2 text-xs">
+              <span className="w-4 text-right text-zinc-400 tabular-nums">{index + 1}</span>
+              {entry.thumbnailUrl ? (
+                <img src={entry.thumbnailUrl} alt="" className="h-5 w-5 rounded-full object-cover bg-zinc-100" />
+              ) : (
+                <span className="h-5 w-5 rounded-full bg-indigo-100" />
+              )}
+              <span className="flex-1 truncate text-zinc-700">{entry.name}</span>
+              <span className="text-zinc-500 tabular-nums">{value(entry)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Most connected people and how fragmented the graph is (GET /api/graph/analytics)
+ */
+export function GraphAnalyticsPanel({ className, top = 8 }: GraphAnalyticsPanelProps) {
+  const [analytics, setAnalytics] = useState<GraphAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setAnalytics(await fetchGraphAnalytics(top));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load analytics");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [top]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const components = analytics?.components;
+
+  return (
+    <aside className={`flex flex-col gap-5 overflow-y-auto p-4 ${className || ""}`}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-zinc-900">Graph analytics</h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={loadAnalytics}
+          disabled={isLoading}
+          title="Refresh"
+          className="h-7 w-7"
+        >
+          {isLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {analytics && components && (
+        <>
+          <section>
+            <h3 className="text-xs font-semibold text-zinc-900 mb-2">Fragmentation</h3>
+            <dl className="grid grid-cols-2 gap-2 text-xs">
+              <div className="rounded-lg border border-zinc-200 px-2 py-1.5">
+                <dt className="text-zinc-500">Components</dt>
+                <dd className="text-zinc-900 font-medium tabular-nums">{components.count}</dd>
+              </div>
+              <div className="rounded-lg border border-zinc-200 px-2 py-1.5">
+                <dt className="text-zinc-500">In largest</dt>
+                <dd className="text-zinc-900 font-medium tabular-nums">{formatPercent(components.largestShare)}</dd>
+              </div>
+              <div className="rounded-lg border border-zinc-200 px-2 py-1.5">
+                <dt className="text-zinc-500">Avg. separation</dt>
+                <dd className="text-zinc-900 font-medium tabular-nums">
+                  {analytics.averageShortestPath ?? "-"}
+                </dd>
+              </div>
+              <div className="rounded-lg border border-zinc-200 px-2 py-1.5">
+                <dt className="text-zinc-500">Diameter</dt>
+                <dd className="text-zinc-900 font-medium tabular-nums">{analytics.diameter}</dd>
+              </div>
+            </dl>
+            <p className="mt-2 text-[11px] text-zinc-500">
+              {analytics.nodeCount} people in {components.count} separate group{components.count === 1 ? "" : "s"}
+              {components.isolated > 0 && `, ${components.isolated} without connections`}
+              {analytics.sampled && " (path statistics estimated)"}
+              {analytics.stale && ". Updating with the latest changes"}
+            </p>
+          </section>
+
+          <Ranking
+            title="Most connected people"
+            hint="By number of verified connections"
+            entries={analytics.mostConnected}
+            value={(entry) => String(entry.degree)}
+          />
+
+          <Ranking
+            title="Top connectors"
+            hint="Share of shortest paths that run through them"
+            entries={analytics.topConnectors}
+            value={(entry) => formatPercent(entry.betweenness)}
+          />
+        </>
+      )}
+    </aside>
+  );
+}
@@ -28,6 +28,7 @@ import type {
 import { createInitialState, STEP_TITLES } from "@/types/investigation"
 import {
   startInvestigation,
+  cancelInvestigation,
   createWebSocketEventStream,
   createEventStream,
   parseQueryWithAI,
@@ -255,6 +256,7 @@ function mapWorkerEventsToState(
             sourceUrl: edge.contextUrl || "",
             confidence: edge.confidence,
             description: `${edge.from} and ${edge.to}`,
+            fromGraph: edge.fromGraph,
           };
           state.evidence = [...state.evidence, evidenceItem];
 
@@ -325,6 +327,16 @@ function mapWorkerEventsToState(
         );
         break;
 
+      case "cancelled":
+        state.status = "failed";
+        // Stopped by the user - running segments were never finished
+        state.segments = state.segments.map(segment =>
+          segment.status === "running"
+            ? { ...segment, status: "skipped", endTime: timestamp }
+            : segment
+        );
+        break;
+
       case "error":
         state.status = "failed";
         // Mark all running segments as failed on error
@@ -349,6 +361,7 @@ export function InvestigationApp() {
   const [graphWidth, setGraphWidth] = useState(400)
   const [isResizing, setIsResizing] = useState(false)
   const stopPollingRef = useRef<(() => void) | null>(null)
+  const activeRunRef = useRef<{ runId: string; cancelToken: string } | null>(null)
   const [cachedPath, setCachedPath] = useState<CachedPathResult | null>(null)
   const [graphStats, setGraphStats] = useState({ nodes: 0, edges: 0 })
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
@@ -404,7 +417,9 @@ export function InvestigationApp() {
 
     try {
       const response = await startInvestigation(personA, personB);
-      const { runId } = response;
+      const { runId, cancelToken } = response;
+      activeRunRef.current = { runId, cancelToken };
+      setInvestigationState(prev => prev ? { ...prev, runId } : prev);
 
       // Event handler for processing stream events
       const handleEvent = (event: WorkerEvent) => {
@@ -512,6 +527,7 @@ export function InvestigationApp() {
           evidenceUrl: step.evidenceUrl || undefined,
           sourceUrl: step.contextUrl || "",
           description: `${step.fromName} photographed with ${step.toName}`,
+          fromGraph: true,
         }));
 
         // Add a log entry for the cached result
@@ -580,6 +596,12 @@ export function InvestigationApp() {
       stopPollingRef.current();
       stopPollingRef.current = null;
     }
+    // Terminate the workflow server-side (refunds the unspent share of the search)
+    if (activeRunRef.current) {
+      const { runId, cancelToken } = activeRunRef.current;
+      cancelInvestigation(runId, cancelToken).catch(err => console.warn("Failed to cancel investigation:", err));
+      activeRunRef.current = null;
+    }
     // Mark the investigation as stopped but keep the results
     setInvestigationState(prev => {
       if (!prev) return prev;
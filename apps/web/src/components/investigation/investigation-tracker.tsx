@@ -12,6 +12,8 @@ import {
   Maximize2,
   RefreshCw,
   ExternalLink,
+  Copy,
+  Camera,
 } from "lucide-react";
 import type {
   InvestigationState,
@@ -20,7 +22,7 @@ import type {
   EvidenceItem,
   StepStatus,
 } from "@/types/investigation";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 
 // shadcn components
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -30,6 +32,7 @@ import {
   EvidencePlayButton,
   type EvidenceSlide,
 } from "@/components/ui/evidence-carousel";
+import { fetchEvidenceBetween, type StoredEvidence } from "@/lib/api-client";
 
 interface InvestigationTrackerProps {
   state: InvestigationState;
@@ -86,7 +89,7 @@ function StatusLabel({ status }: { status: InvestigationSegment["status"] }) {
 
 // Bridge candidates display
 function BridgeCandidates({ candidates, selected, showReasoning = false }: {
-  candidates: Array<{ name: string; score?: number; reasoning?: string }>;
+  candidates: Array<{ name: string; score?: number; coappearCount?: number; reasoning?: string }>;
   selected?: string[];
   showReasoning?: boolean;
 }) {
@@ -116,6 +119,18 @@ function BridgeCandidates({ candidates, selected, showReasoning = false }: {
                   {Math.round(candidate.score)}%
                 </span>
               )}
+              {candidate.coappearCount ? (
+                <span
+                  title={`Seen together in ${candidate.coappearCount} analyzed photo(s)`}
+                  className={cn(
+                    "inline-flex items-center gap-0.5 text-[10px]",
+                    isSelected ? "text-background/80" : "text-foreground/60"
+                  )}
+                >
+                  <Camera className="h-2.5 w-2.5" />
+                  {candidate.coappearCount}
+                </span>
+              ) : null}
             </span>
           );
         })}
@@ -136,7 +151,7 @@ function BridgeCandidates({ candidates, selected, showReasoning = false }: {
 
 // Step event - handles different event types with appropriate UI
 function StepEvent({ event }: { event: { type: string; message: string; data?: Record<string, unknown> } }) {
-  const candidates = event.data?.candidates as Array<{ name: string; score?: number; reasoning?: string }> | undefined;
+  const candidates = event.data?.candidates as Array<{ name: string; score?: number; coappearCount?: number; reasoning?: string }> | undefined;
   const query = event.data?.query as string | undefined;
   const reasoning = event.data?.reasoning as string | undefined;
 
@@ -196,6 +211,7 @@ function ImageResult({ event }: { event: { type: string; message: string; data?:
     evidence: <Check size={12} className="text-foreground" />,
     collage: <X size={12} className="text-foreground/40" />,
     no_match: <Minus size={12} className="text-foreground/30" />,
+    duplicate: <Copy size={12} className="text-foreground/30" />,
     error: <X size={12} className="text-red-500" />,
   }[status] || <Circle size={12} className="text-foreground/20" />;
 
@@ -455,6 +471,7 @@ function EvidenceCard({ hop, evidence, isIntermediary }: {
           </div>
           <div className="text-[9px] sm:text-[10px] text-foreground/50 mt-0.5">
             {Math.ceil(hop.confidence)}% match
+            {evidence?.fromGraph && <span className="text-foreground/40"> · from graph</span>}
           </div>
         </div>
       </div>
@@ -496,10 +513,30 @@ function EvidenceCard({ hop, evidence, isIntermediary }: {
   );
 }
 
-// Final path with evidence photos
-function FinalPath({ path, evidence }: { path: InvestigationState["path"]; evidence: EvidenceItem[] }) {
+// Final path with evidence photos (also rendered by the run permalink page)
+export function FinalPath({ path, evidence }: { path: InvestigationState["path"]; evidence: EvidenceItem[] }) {
   const [carouselOpen, setCarouselOpen] = useState(false);
   const [carouselIndex, setCarouselIndex] = useState(0);
+  // All stored evidence images per hop, keyed by hop index
+  const [storedEvidence, setStoredEvidence] = useState<Record<number, StoredEvidence[]>>({});
+
+  // Hop endpoints that only change when the hops do, whatever the path's identity
+  const hopKey = JSON.stringify(path.map((p) => [p.from, p.to]));
+  const hops = useMemo(() => JSON.parse(hopKey) as [string, string][], [hopKey]);
+
+  // Load every persisted evidence image for each hop so the carousel shows the full set
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      hops.map(([from, to]) => fetchEvidenceBetween(from, to).catch(() => [] as StoredEvidence[]))
+    ).then((results) => {
+      if (cancelled) return;
+      setStoredEvidence(Object.fromEntries(results.map((items, idx) => [idx, items])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hops]);
 
   if (path.length === 0) return null;
 
@@ -515,7 +552,23 @@ function FinalPath({ path, evidence }: { path: InvestigationState["path"]; evide
 
   // Build slides for carousel from path evidence
   const carouselSlides: EvidenceSlide[] = [];
-  for (const hop of path) {
+  path.forEach((hop, idx) => {
+    const stored = storedEvidence[idx];
+    if (stored && stored.length > 0) {
+      for (const item of stored) {
+        carouselSlides.push({
+          from: hop.from,
+          to: hop.to,
+          thumbnailUrl: item.thumbnailUrl,
+          evidenceUrl: item.imageUrl,
+          sourceUrl: item.contextUrl || undefined,
+          confidence: Math.round(item.imageScore),
+        });
+      }
+      return;
+    }
+
+    // Fall back to the single best image from the live events
     const evidenceItem = getEvidenceForHop(hop.from, hop.to);
     if (evidenceItem?.thumbnailUrl) {
       carouselSlides.push({
@@ -527,7 +580,7 @@ function FinalPath({ path, evidence }: { path: InvestigationState["path"]; evide
         confidence: hop.confidence,
       });
     }
-  }
+  });
 
   return (
     <>
@@ -717,6 +770,17 @@ export function InvestigationTracker({
               <CardContent className="pt-0 pb-3 sm:pb-4 px-3 sm:px-6 border-t border-foreground/10">
                 <div className="pt-3 sm:pt-4">
                   <FinalPath path={state.path} evidence={state.evidence} />
+                  {state.runId && (
+                    <a
+                      href={`/run/${state.runId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1.5 pt-3 text-xs text-foreground/60 hover:text-foreground transition-colors"
+                    >
+                      Permalink
+                      <ExternalLink size={12} />
+                    </a>
+                  )}
                 </div>
               </CardContent>
             )}
@@ -5,7 +5,7 @@ import Graph from "graphology";
 import Sigma from "sigma";
 import { circular } from "graphology-layout";
 import forceAtlas2 from "graphology-layout-forceatlas2";
-import { fetchGraph } from "@/lib/api-client";
+import { fetchGraph, fetchNeighborhood, type GraphChanges, type GraphData } from "@/lib/api-client";
 import { Button } from "@/components/ui/button";
 import { EvidenceImageModal } from "@/components/ui/evidence-image-modal";
 import { useGraphSubscription, GraphEdgeUpdate } from "@/hooks/use-graph-subscription";
@@ -152,10 +152,13 @@ interface LiveGraphProps {
   // Current investigation nodes/edges to highlight
   highlightedNodeIds?: Set<string>;
   highlightedEdgeKeys?: Set<string>; // Format: "sourceId_targetId"
+  // Load only this person's neighborhood; clicking a node pulls in its connections
+  centerNode?: string;
+  neighborhoodDepth?: number;
 }
 
 export const LiveGraph = forwardRef<LiveGraphHandle, LiveGraphProps>(
-  function LiveGraph({ className, compact = false, highlightedNodeIds, highlightedEdgeKeys }, ref) {
+  function LiveGraph({ className, compact = false, highlightedNodeIds, highlightedEdgeKeys, centerNode, neighborhoodDepth = 1 }, ref) {
     const containerRef = useRef<HTMLDivElement>(null);
     const sigmaRef = useRef<Sigma | null>(null);
     const graphRef = useRef<Graph | null>(null);
@@ -177,6 +180,9 @@ export const LiveGraph = forwardRef<LiveGraphHandle, LiveGraphProps>(
     const highlightedNodesRef = useRef<Set<string>>(new Set());
     const highlightedEdgesRef = useRef<Set<string>>(new Set());
 
+    // Nodes whose neighborhood is already loaded, in neighborhood mode
+    const expandedNodesRef = useRef<Set<string>>(new Set());
+
     // Create debounced refresh to prevent flickering
     const debouncedRefreshRef = useRef(createDebouncedRefresh(30));
 
@@ -262,9 +268,89 @@ export const LiveGraph = forwardRef<LiveGraphHandle, LiveGraphProps>(
       }
     }, [compact]);
 
-    // Subscribe to real-time graph updates via WebSocket
-    const { isConnected: wsConnected } = useGraphSubscription({
+    // Apply edges and nodes missed while the socket was down
+    const handleGraphChanges = useCallback((changes: GraphChanges) => {
+      const graph = graphRef.current;
+      const sigma = sigmaRef.current;
+      if (!graph || !sigma) return;
+
+      // Dropping a node drops its edges with it
+      changes.removedNodeIds.forEach((id) => {
+        if (graph.hasNode(id)) graph.dropNode(id);
+      });
+      const removedEdgeIds = new Set(changes.removedEdgeIds);
+      graph.filterEdges((_, attrs) => removedEdgeIds.has(attrs.edgeId)).forEach((edge) => graph.dropEdge(edge));
+
+      changes.nodes.forEach((node) => {
+        if (graph.hasNode(node.id)) {
+          graph.mergeNodeAttributes(node.id, { label: node.name, thumbnailUrl: node.thumbnailUrl });
+        } else {
+          graph.addNode(node.id, {
+            label: node.name,
+            size: compact ? 12 : 15,
+            color: getNodeColor(node.name),
+            x: Math.random() * 100,
+            y: Math.random() * 100,
+            thumbnailUrl: node.thumbnailUrl,
+            originalColor: getNodeColor(node.name),
+          });
+        }
+      });
+
+      changes.edges.forEach((edge) => {
+        if (!graph.hasNode(edge.source) || !graph.hasNode(edge.target)) return;
+        const edgeSize = Math.max(1, edge.confidence / 25);
+        const color = `rgba(99, 102, 241, ${Math.max(0.3, edge.confidence / 100)})`;
+        const attrs = {
+          edgeId: edge.id,
+          size: edgeSize,
+          baseSize: edgeSize,
+          color,
+          confidence: edge.confidence,
+          evidenceUrl: edge.evidenceUrl,
+          thumbnailUrl: edge.thumbnailUrl,
+          contextUrl: edge.contextUrl,
+          originalColor: color,
+        };
+        const existing = graph.edge(edge.source, edge.target) ?? graph.edge(edge.target, edge.source);
+        if (existing) {
+          graph.mergeEdgeAttributes(existing, attrs);
+        } else {
+          graph.addEdge(edge.source, edge.target, attrs);
+        }
+      });
+
+      setStats({ nodes: graph.order, edges: graph.size });
+      debouncedRefreshRef.current(sigma);
+    }, [compact]);
+
+    // In neighborhood mode, load a clicked node's direct connections into the graph
+    const expandNode = useCallback(async (nodeId: string, name: string) => {
+      if (!centerNode || expandedNodesRef.current.has(nodeId)) return;
+      expandedNodesRef.current.add(nodeId);
+
+      try {
+        const neighborhood = await fetchNeighborhood(name, 1);
+        if (!neighborhood) return;
+        handleGraphChanges({
+          since: neighborhood.version,
+          version: neighborhood.version,
+          nodes: neighborhood.nodes,
+          edges: neighborhood.edges,
+          removedNodeIds: [],
+          removedEdgeIds: [],
+        });
+      } catch (e) {
+        // Allow another try on the next click
+        expandedNodesRef.current.delete(nodeId);
+        console.warn("[LiveGraph] Failed to expand node:", e);
+      }
+    }, [centerNode, handleGraphChanges]);
+
+    // Subscribe to real-time graph updates via WebSocket, catching up after reconnects
+    const { isConnected: wsConnected, trackVersion } = useGraphSubscription({
       onEdgeUpdate: handleEdgeUpdate,
+      onChanges: handleGraphChanges,
       enabled: true,
     });
 
@@ -322,7 +408,18 @@ export const LiveGraph = forwardRef<LiveGraphHandle, LiveGraphProps>(
       setError(null);
 
       try {
-        const data = await fetchGraph();
+        let data: GraphData;
+        if (centerNode) {
+          const neighborhood = await fetchNeighborhood(centerNode, neighborhoodDepth);
+          if (!neighborhood) {
+            throw new Error(`${centerNode} is not in the graph yet`);
+          }
+          data = neighborhood;
+          expandedNodesRef.current = new Set([neighborhood.center]);
+        } else {
+          data = await fetchGraph();
+        }
+        trackVersion(data.version ?? 0);
 
         // Clean up existing sigma
         if (sigmaRef.current) {
@@ -352,6 +449,7 @@ export const LiveGraph = forwardRef<LiveGraphHandle, LiveGraphProps>(
           if (graph.hasNode(edge.source) && graph.hasNode(edge.target) && !graph.hasEdge(edge.source, edge.target)) {
             const edgeSize = Math.max(1, edge.confidence / 25);
             graph.addEdge(edge.source, edge.target, {
+              edgeId: edge.id,
               size: edgeSize,
               baseSize: edgeSize, // Store base size for pulse animations
               color: `rgba(99, 102, 241, ${Math.max(0.3, edge.confidence / 100)})`,
@@ -458,6 +556,10 @@ export const LiveGraph = forwardRef<LiveGraphHandle, LiveGraphProps>(
           document.body.style.cursor = "default";
         });
 
+        sigma.on("clickNode", ({ node }) => {
+          void expandNode(node, graph.getNodeAttribute(node, "label"));
+        });
+
         sigma.on("enterEdge", ({ edge }) => {
           hoveredEdgeRef.current = edge;
           setHoveredEdge(edge);
@@ -495,7 +597,7 @@ export const LiveGraph = forwardRef<LiveGraphHandle, LiveGraphProps>(
       } finally {
         setIsLoading(false);
       }
-    }, [compact]);
+    }, [compact, trackVersion, centerNode, neighborhoodDepth, expandNode]);
 
     // Load on mount
     useEffect(() => {
@@ -0,0 +1,194 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowLeft, Check, Link2, X } from "lucide-react";
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { FinalPath } from "@/components/investigation/investigation-tracker";
+import type { InvestigationRun, RunStatus } from "@/lib/api-client";
+import type { EvidenceItem, PathHop } from "@/types/investigation";
+
+const STATUS_TITLES: Record<RunStatus, string> = {
+  running: "Investigation in progress",
+  success: "Connection Found",
+  no_path: "No Connection",
+  error: "Investigation failed",
+  cancelled: "Investigation stopped",
+};
+
+// Shown when the run recorded no message of its own
+const STATUS_MESSAGES: Record<RunStatus, string> = {
+  running: "This investigation has not finished yet.",
+  success: "Both names are the same person, so no hops were needed.",
+  no_path: "No verified connection was found.",
+  error: "The investigation stopped because of an error.",
+  cancelled: "The investigation was stopped before it finished.",
+};
+
+/**
+ * Hops and best evidence of a persisted path, in path order
+ */
+function toPathAndEvidence(run: InvestigationRun): { path: PathHop[]; evidence: EvidenceItem[] } {
+  const result = run.result;
+  if (!result) return { path: [], evidence: [] };
+
+  const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  const path: PathHop[] = [];
+  const evidence: EvidenceItem[] = [];
+
+  result.path.slice(0, -1).forEach((from, idx) => {
+    const to = result.path[idx + 1];
+    const edge = result.edges.find((e) =>
+      (sameName(e.from, from) && sameName(e.to, to)) || (sameName(e.from, to) && sameName(e.to, from))
+    ) ?? result.edges[idx];
+    if (!edge) return;
+
+    path.push({ from, to, confidence: edge.edgeConfidence });
+    evidence.push({
+      id: `${run.runId}-${idx}`,
+      from,
+      to,
+      thumbnailUrl: edge.bestEvidence.thumbnailUrl,
+      evidenceUrl: edge.bestEvidence.imageUrl,
+      sourceUrl: edge.bestEvidence.contextUrl,
+      confidence: edge.edgeConfidence,
+      description: edge.bestEvidence.title ?? "",
+    });
+  });
+
+  return { path, evidence };
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Fixed UTC format so the server render and hydration agree
+function formatStartedAt(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border border-foreground/10 px-3 py-2">
+      <div className="text-[9px] sm:text-[10px] text-foreground/40 uppercase tracking-wide">{label}</div>
+      <div className="text-sm sm:text-base font-semibold tabular-nums">{value}</div>
+    </div>
+  );
+}
+
+// Copy the page URL to the clipboard
+function CopyLinkButton() {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(window.location.href).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }).catch(() => {});
+  };
+
+  return (
+    <Button variant="outline" size="sm" className="gap-1.5 h-8 sm:h-9" onClick={handleCopy}>
+      {copied ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+      {copied ? "Copied" : "Copy link"}
+    </Button>
+  );
+}
+
+export function RunPermalink({ run }: { run: InvestigationRun }) {
+  const { path, evidence } = toPathAndEvidence(run);
+  const isSuccess = run.status === "success";
+
+  const metrics: Array<{ label: string; value: string }> = [];
+  if (run.result) {
+    metrics.push(
+      { label: "Hops", value: String(path.length) },
+      { label: "Bottleneck", value: `${Math.round(run.result.confidence.pathBottleneck)}%` },
+      { label: "Cumulative", value: `${Math.round(run.result.confidence.pathCumulative * 100)}%` },
+    );
+  }
+  if (run.durationMs !== null) {
+    metrics.push({ label: "Duration", value: formatDuration(run.durationMs) });
+  }
+  if (run.budgets) {
+    metrics.push(
+      { label: "Steps", value: `${run.budgets.stepsUsed}/${run.budgets.maxSteps}` },
+      { label: "Subrequests", value: `${run.budgets.subrequestsUsed}/${run.budgets.maxSubrequests}` },
+    );
+    const { detectionCacheHits, detectionCacheMisses } = run.budgets;
+    if (detectionCacheHits !== undefined && detectionCacheMisses !== undefined) {
+      metrics.push({ label: "Detection cache", value: `${detectionCacheHits} hit / ${detectionCacheMisses} miss` });
+    }
+  }
+  if (run.config) {
+    metrics.push({ label: "Preset", value: run.config.preset });
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-white">
+      {/* Header */}
+      <header className="flex items-center justify-between px-3 sm:px-6 py-2 sm:py-4 border-b border-zinc-200 gap-2">
+        <Link href="/">
+          <Button variant="ghost" size="sm" className="gap-1.5 sm:gap-2 h-8 sm:h-9 px-2 sm:px-3">
+            <ArrowLeft className="h-4 w-4" />
+            <span className="hidden xs:inline">Back to Search</span>
+            <span className="xs:hidden">Back</span>
+          </Button>
+        </Link>
+        <CopyLinkButton />
+      </header>
+
+      <main className="flex-1 w-full max-w-2xl mx-auto p-3 sm:p-6">
+        <Card className={cn(
+          "rounded-lg sm:rounded-xl border py-0 shadow-sm",
+          isSuccess && "border-transparent connection-found-glow"
+        )}>
+          <CardHeader className="pb-2 sm:pb-3 pt-3 sm:pt-4 px-3 sm:px-6">
+            <div className="flex items-center gap-1.5 sm:gap-2">
+              {isSuccess ? (
+                <div className="flex items-center justify-center rounded bg-foreground p-0.5 shrink-0">
+                  <Check size={12} className="text-background" strokeWidth={3} />
+                </div>
+              ) : (
+                <div className="flex items-center justify-center rounded border border-foreground/30 p-0.5 shrink-0">
+                  <X size={12} className="text-foreground/50" strokeWidth={2.5} />
+                </div>
+              )}
+              <CardTitle className="text-sm sm:text-base font-semibold">{STATUS_TITLES[run.status]}</CardTitle>
+            </div>
+            <CardDescription className="text-xs sm:text-sm">
+              {run.personA}
+              <span className="mx-1 sm:mx-1.5 text-foreground/30">→</span>
+              {run.personB}
+              <span className="text-foreground/40"> · {formatStartedAt(run.startedAt)}</span>
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent className="pt-0 pb-3 sm:pb-4 px-3 sm:px-6 border-t border-foreground/10 space-y-4">
+            <div className="pt-3 sm:pt-4">
+              {isSuccess && path.length > 0 ? (
+                <FinalPath path={path} evidence={evidence} />
+              ) : (
+                <p className="text-sm text-foreground/60">
+                  {run.message ?? STATUS_MESSAGES[run.status]}
+                </p>
+              )}
+            </div>
+
+            {metrics.length > 0 && (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {metrics.map((metric) => (
+                  <Metric key={metric.label} label={metric.label} value={metric.value} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
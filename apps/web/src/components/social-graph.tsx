@@ -5,10 +5,11 @@ import Graph from "graphology";
 import Sigma from "sigma";
 import { circular } from "graphology-layout";
 import forceAtlas2 from "graphology-layout-forceatlas2";
-import { fetchGraph } from "@/lib/api-client";
+import { fetchGraph, fetchNeighborhood, fetchEvidenceBetween, type GraphData } from "@/lib/api-client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { EvidenceImageModal } from "@/components/ui/evidence-image-modal";
+import { EvidenceCarouselOverlay, type EvidenceSlide } from "@/components/ui/evidence-carousel";
 import { useGraphSubscription, GraphEdgeUpdate } from "@/hooks/use-graph-subscription";
 import { RefreshCw, ZoomIn, ZoomOut, Maximize2, Loader2, ExternalLink, Search, X, Wifi, WifiOff } from "lucide-react";
 
@@ -40,9 +41,37 @@ interface SocialGraphProps {
   autoRefresh?: boolean;
   /** Auto-refresh interval in milliseconds (default: 3000) */
   autoRefreshInterval?: number;
+  /**
+   * Load only this person's neighborhood instead of the whole graph.
+   * Clicking a node then pulls in that person's connections.
+   */
+  centerNode?: string;
+  /** Hops around centerNode to load initially (default: 1) */
+  neighborhoodDepth?: number;
 }
 
-export function SocialGraph({ className, compact = false, onStatsChange, autoRefresh = false, autoRefreshInterval = 3000 }: SocialGraphProps) {
+/**
+ * Add the nodes and edges of a fetched neighborhood that are not loaded yet
+ */
+function mergeGraphData(data: GraphData, addition: GraphData): void {
+  const nodeIds = new Set(data.nodes.map(n => n.id));
+  const edgeIds = new Set(data.edges.map(e => e.id));
+  data.nodes.push(...addition.nodes.filter(n => !nodeIds.has(n.id)));
+  data.edges.push(...addition.edges.filter(e => !edgeIds.has(e.id)));
+  if (addition.version !== undefined) {
+    data.version = Math.max(data.version ?? 0, addition.version);
+  }
+}
+
+export function SocialGraph({
+  className,
+  compact = false,
+  onStatsChange,
+  autoRefresh = false,
+  autoRefreshInterval = 3000,
+  centerNode,
+  neighborhoodDepth = 1,
+}: SocialGraphProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const sigmaRef = useRef<Sigma | null>(null);
   const graphRef = useRef<Graph | null>(null);
@@ -66,8 +95,13 @@ export function SocialGraph({ className, compact = false, onStatsChange, autoRef
     thumbnailUrl?: string;
     title?: string;
   }>({ open: false, url: "" });
+  const [evidenceSlides, setEvidenceSlides] = useState<EvidenceSlide[]>([]);
+  const [carouselOpen, setCarouselOpen] = useState(false);
   const fullGraphDataRef = useRef<Awaited<ReturnType<typeof fetchGraph>> | null>(null);
   const focusedNodeRef = useRef<string | null>(null);
+  // Nodes whose neighborhood is already loaded, in neighborhood mode
+  const expandedNodesRef = useRef<Set<string>>(new Set());
+  const expandNodeRef = useRef<(nodeId: string, name: string) => void>(() => {});
 
   // Keep focusedNodeRef in sync
   useEffect(() => {
@@ -356,6 +390,7 @@ export function SocialGraph({ className, compact = false, onStatsChange, autoRef
 
     sigma.on("clickNode", ({ node }) => {
       setSelectedNode(node);
+      expandNodeRef.current(node, graph.getNodeAttribute(node, "label"));
     });
 
     sigma.on("clickStage", () => {
@@ -375,14 +410,29 @@ export function SocialGraph({ className, compact = false, onStatsChange, autoRef
       sigma.refresh();
     });
 
-    sigma.on("clickEdge", ({ edge }) => {
-      // Open evidence image in preview modal
+    sigma.on("clickEdge", async ({ edge }) => {
       const attrs = graph.getEdgeAttributes(edge);
       const source = graph.source(edge);
       const target = graph.target(edge);
       const sourceAttrs = graph.getNodeAttributes(source);
       const targetAttrs = graph.getNodeAttributes(target);
 
+      // Browse every stored evidence image when the edge has more than one
+      const evidence = await fetchEvidenceBetween(sourceAttrs.label, targetAttrs.label).catch(() => []);
+      if (evidence.length > 1) {
+        setEvidenceSlides(evidence.map((item) => ({
+          from: sourceAttrs.label,
+          to: targetAttrs.label,
+          thumbnailUrl: item.thumbnailUrl,
+          evidenceUrl: item.imageUrl,
+          sourceUrl: item.contextUrl || undefined,
+          confidence: Math.round(item.imageScore),
+        })));
+        setCarouselOpen(true);
+        return;
+      }
+
+      // Open evidence image in preview modal
       setPreviewModal({
         open: true,
         url: attrs.contextUrl,
@@ -414,7 +464,17 @@ export function SocialGraph({ className, compact = false, onStatsChange, autoRef
     setError(null);
 
     try {
-      const data = await fetchGraph();
+      let data: GraphData;
+      if (centerNode) {
+        const neighborhood = await fetchNeighborhood(centerNode, neighborhoodDepth);
+        if (!neighborhood) {
+          throw new Error(`${centerNode} is not in the graph yet`);
+        }
+        data = neighborhood;
+        expandedNodesRef.current = new Set([neighborhood.center]);
+      } else {
+        data = await fetchGraph();
+      }
       fullGraphDataRef.current = data;
 
       // Store all nodes for search (from full data)
@@ -431,7 +491,34 @@ export function SocialGraph({ className, compact = false, onStatsChange, autoRef
     } finally {
       setIsLoading(false);
     }
-  }, [renderGraph]);
+  }, [renderGraph, centerNode, neighborhoodDepth]);
+
+  // In neighborhood mode, clicking a node loads its direct connections
+  const expandNode = useCallback(async (nodeId: string, name: string) => {
+    if (!centerNode || expandedNodesRef.current.has(nodeId)) return;
+    expandedNodesRef.current.add(nodeId);
+
+    try {
+      const neighborhood = await fetchNeighborhood(name, 1);
+      const data = fullGraphDataRef.current;
+      if (!neighborhood || !data) return;
+
+      const before = data.nodes.length + data.edges.length;
+      mergeGraphData(data, neighborhood);
+      if (data.nodes.length + data.edges.length === before) return;
+
+      setAllNodes(data.nodes.map(node => ({ id: node.id, name: node.name })));
+      renderGraph(data, focusedNodeRef.current);
+    } catch (e) {
+      // Allow another try on the next click
+      expandedNodesRef.current.delete(nodeId);
+      console.warn("[SocialGraph] Failed to expand node:", e);
+    }
+  }, [centerNode, renderGraph]);
+
+  useEffect(() => {
+    expandNodeRef.current = (nodeId, name) => void expandNode(nodeId, name);
+  }, [expandNode]);
 
   // Initial load
   useEffect(() => {
@@ -786,6 +873,13 @@ export function SocialGraph({ className, compact = false, onStatsChange, autoRef
         sourceUrl={previewModal.url}
         title={previewModal.title}
       />
+
+      {/* Evidence Carousel for edges with several images */}
+      <EvidenceCarouselOverlay
+        slides={evidenceSlides}
+        open={carouselOpen}
+        onOpenChange={setCarouselOpen}
+      />
     </div>
   );
 }
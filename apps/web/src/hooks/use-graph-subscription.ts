@@ -1,37 +1,21 @@
 "use client";
 
 import { useEffect, useRef, useCallback, useState } from "react";
+import { getStreamClient, type GraphEdgeUpdate } from "@/lib/stream-client";
+import { fetchGraphChanges, type GraphChanges } from "@/lib/api-client";
 
-const WORKER_URL = process.env.NEXT_PUBLIC_WORKER_URL || "http://localhost:8787";
-
-// Convert HTTP URL to WebSocket URL
-function getWebSocketUrl(): string {
-  const url = new URL(WORKER_URL);
-  const protocol = url.protocol === "https:" ? "wss:" : "ws:";
-  return `${protocol}//${url.host}/api/graph/ws`;
-}
-
-export interface GraphEdgeUpdate {
-  source: string;
-  target: string;
-  confidence: number;
-  evidenceUrl?: string;
-  thumbnailUrl?: string;
-  contextUrl?: string;
-}
-
-interface WebSocketMessage {
-  type: "edge_update" | "pong";
-  data?: GraphEdgeUpdate;
-}
+export type { GraphEdgeUpdate };
 
 interface UseGraphSubscriptionOptions {
   /** Called when a new edge is received */
   onEdgeUpdate?: (edge: GraphEdgeUpdate) => void;
-  /** Whether to auto-reconnect on disconnect (default: true) */
-  autoReconnect?: boolean;
-  /** Reconnection delay in ms (default: 3000) */
-  reconnectDelay?: number;
+  /**
+   * Called with the changes missed while disconnected, once the socket is back.
+   * Needs the loaded graph's version (see trackVersion).
+   */
+  onChanges?: (changes: GraphChanges) => void;
+  /** Called when updates were missed and there is no version to catch up from */
+  onResync?: () => void;
   /** Enable the subscription (default: true) */
   enabled?: boolean;
 }
@@ -45,109 +29,85 @@ interface UseGraphSubscriptionResult {
   disconnect: () => void;
   /** Manually reconnect */
   reconnect: () => void;
+  /** Record the version of a freshly loaded graph - catch-ups start from it */
+  trackVersion: (version: number) => void;
 }
 
 /**
- * Hook to subscribe to real-time graph edge updates via WebSocket
+ * Hook to subscribe to real-time graph edge updates
+ * Shares the app's multiplexed WebSocket with run event streams. After the
+ * connection drops and comes back, the edges missed in between are fetched
+ * with GET /api/graph?since=<version> and passed to onChanges.
  */
 export function useGraphSubscription(
   options: UseGraphSubscriptionOptions = {}
 ): UseGraphSubscriptionResult {
-  const {
-    onEdgeUpdate,
-    autoReconnect = true,
-    reconnectDelay = 3000,
-    enabled = true,
-  } = options;
+  const { onEdgeUpdate, onChanges, onResync, enabled = true } = options;
 
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const pingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
   const onEdgeUpdateRef = useRef(onEdgeUpdate);
+  const onChangesRef = useRef(onChanges);
+  const onResyncRef = useRef(onResync);
+  // Graph version the caller's data is known to include, null until a graph is loaded
+  const versionRef = useRef<number | null>(null);
+  const wasConnectedRef = useRef(false);
 
-  // Keep callback ref updated
+  // Keep callback refs updated
   useEffect(() => {
     onEdgeUpdateRef.current = onEdgeUpdate;
-  }, [onEdgeUpdate]);
+    onChangesRef.current = onChanges;
+    onResyncRef.current = onResync;
+  }, [onEdgeUpdate, onChanges, onResync]);
 
-  const cleanup = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-    if (pingIntervalRef.current) {
-      clearInterval(pingIntervalRef.current);
-      pingIntervalRef.current = null;
+  const trackVersion = useCallback((version: number) => {
+    versionRef.current = version;
+  }, []);
+
+  const catchUp = useCallback(async () => {
+    const since = versionRef.current;
+    if (since === null || !onChangesRef.current) {
+      onResyncRef.current?.();
+      return;
     }
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
+
+    try {
+      const changes = await fetchGraphChanges(since);
+      // Another catch-up or a reload may have moved on meanwhile
+      if (versionRef.current !== since) return;
+      versionRef.current = changes.version;
+      if (changes.nodes.length + changes.edges.length + changes.removedNodeIds.length + changes.removedEdgeIds.length > 0) {
+        onChangesRef.current?.(changes);
+      }
+    } catch (err) {
+      console.warn("[GraphSubscription] Catch-up failed:", err);
+      onResyncRef.current?.();
     }
   }, []);
 
+  const cleanup = useCallback(() => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+  }, []);
+
   const connect = useCallback(() => {
     if (!enabled) return;
 
     cleanup();
 
     try {
-      const wsUrl = getWebSocketUrl();
-      const ws = new WebSocket(wsUrl);
-      wsRef.current = ws;
-
-      ws.onopen = () => {
-        setIsConnected(true);
-        setError(null);
-
-        // Start ping interval to keep connection alive
-        pingIntervalRef.current = setInterval(() => {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: "ping" }));
-          }
-        }, 30000); // Ping every 30 seconds
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data) as WebSocketMessage;
-
-          if (message.type === "edge_update" && message.data) {
-            onEdgeUpdateRef.current?.(message.data);
-          }
-          // Ignore pong messages
-        } catch {
-          // Ignore malformed messages
-        }
-      };
-
-      ws.onclose = () => {
-        setIsConnected(false);
-
-        if (pingIntervalRef.current) {
-          clearInterval(pingIntervalRef.current);
-          pingIntervalRef.current = null;
-        }
-
-        // Auto-reconnect if enabled
-        if (autoReconnect && enabled) {
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connect();
-          }, reconnectDelay);
-        }
-      };
-
-      ws.onerror = () => {
-        setError("WebSocket connection error");
-        setIsConnected(false);
-      };
+      unsubscribeRef.current = getStreamClient().subscribeGraph({
+        onEdgeUpdate: (edge) => onEdgeUpdateRef.current?.(edge),
+        onResync: () => void catchUp(),
+      });
+      setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to connect");
       setIsConnected(false);
     }
-  }, [enabled, autoReconnect, reconnectDelay, cleanup]);
+  }, [enabled, cleanup, catchUp]);
 
   const disconnect = useCallback(() => {
     cleanup();
@@ -159,7 +119,22 @@ export function useGraphSubscription(
     connect();
   }, [cleanup, connect]);
 
-  // Connect on mount, disconnect on unmount
+  // Track the shared connection's state; catch up whenever it comes back
+  useEffect(() => {
+    const client = getStreamClient();
+    setIsConnected(client.isConnected);
+    wasConnectedRef.current = wasConnectedRef.current || client.isConnected;
+
+    return client.onConnectionChange((connected) => {
+      setIsConnected(connected);
+      if (connected && wasConnectedRef.current) {
+        void catchUp();
+      }
+      wasConnectedRef.current = wasConnectedRef.current || connected;
+    });
+  }, [catchUp]);
+
+  // Subscribe on mount, unsubscribe on unmount
   useEffect(() => {
     if (enabled) {
       connect();
@@ -172,5 +147,6 @@ export function useGraphSubscription(
     error,
     disconnect,
     reconnect,
+    trackVersion,
   };
 }
@@ -2,6 +2,8 @@
  * API Client for the Visual Degrees Worker
  */
 
+import { getStreamClient } from "./stream-client";
+
 // Worker URL - defaults to localhost for development
 const WORKER_URL = process.env.NEXT_PUBLIC_WORKER_URL || "http://localhost:8787";
 
@@ -27,6 +29,7 @@ export type InvestigationEventType =
   | "status"
   | "final"
   | "no_path"
+  | "cancelled"
   | "error";
 
 export type InvestigationStepId =
@@ -52,28 +55,36 @@ export interface InvestigationEvent {
     toPerson?: string;
     // Other data
     query?: string;
+    searchCache?: "hit" | "miss" | "bypass";
+    resultCount?: number;
     reasoning?: string;
     candidates?: Array<{ name: string; score?: number; coappearCount?: number; reasoning?: string }>;
     imageIndex?: number;
     totalImages?: number;
     imageUrl?: string;
-    status?: "collage" | "no_match" | "evidence" | "error";
+    status?: "collage" | "no_match" | "evidence" | "error" | "duplicate";
     reason?: string;
     celebrities?: Array<{ name: string; confidence: number }>;
     edge?: {
       from: string;
       to: string;
       confidence: number;
+      evidenceUrl?: string;
       thumbnailUrl?: string;
       contextUrl?: string;
+      fromGraph?: boolean;
     };
     path?: string[];
     hopDepth?: number;
+    forwardPath?: string[];
+    backwardPath?: string[];
+    meetingPoint?: string;
     confirmedBridge?: string;
     progressPct?: number;
     hop?: number;
     frontier?: string;
     budget?: Record<string, unknown>;
+    config?: RunConfig;
     result?: Record<string, unknown>;
     category?: string;
     from?: string;
@@ -87,14 +98,40 @@ export interface EventsResponse {
   events: InvestigationEvent[];
   complete: boolean;
   cursor?: string;
+  hasMore?: boolean;
+}
+
+export type InvestigationPreset = "quick" | "standard" | "deep";
+
+/**
+ * Effective config of a run (preset + overrides, clamped to the server caps)
+ */
+export interface RunConfig {
+  preset: InvestigationPreset;
+  config: { hopLimit: number; confidenceThreshold: number; imagesPerQuery: number };
+  budgets: { maxSteps: number; maxSubrequests: number };
+  bypassSearchCache?: boolean;
+}
+
+/**
+ * Optional per-run overrides for startInvestigation
+ */
+export interface RunConfigOverrides {
+  preset?: InvestigationPreset;
+  config?: Partial<RunConfig["config"]>;
+  budgets?: Partial<RunConfig["budgets"]>;
+  bypassSearchCache?: boolean;
 }
 
 export interface StartInvestigationResponse {
   id: string;
   runId: string;
+  /** Required to cancel the run (only the client that started it gets it) */
+  cancelToken: string;
   status: string;
   personA: string;
   personB: string;
+  config: RunConfig;
 }
 
 export interface ParseQueryResponse {
@@ -130,14 +167,15 @@ export async function parseQueryWithAI(query: string): Promise<ParseQueryRespons
  */
 export async function startInvestigation(
   personA: string,
-  personB: string
+  personB: string,
+  overrides?: RunConfigOverrides
 ): Promise<StartInvestigationResponse> {
   const response = await fetch(`${WORKER_URL}/api/chat/query`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ personA, personB }),
+    body: JSON.stringify({ personA, personB, ...overrides }),
   });
 
   if (!response.ok) {
@@ -148,6 +186,34 @@ export async function startInvestigation(
   return response.json();
 }
 
+export interface CancelInvestigationResponse {
+  runId: string;
+  status: "cancelled";
+  /** Share of a daily search given back (unspent budget) */
+  refunded: number;
+  remaining: number | null;
+}
+
+/**
+ * Cancel a running investigation
+ */
+export async function cancelInvestigation(runId: string, cancelToken: string): Promise<CancelInvestigationResponse> {
+  const response = await fetch(`${WORKER_URL}/api/chat/cancel/${runId}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ cancelToken }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || "Failed to cancel investigation");
+  }
+
+  return response.json();
+}
+
 /**
  * Poll for investigation events
  */
@@ -175,10 +241,17 @@ export async function pollEvents(
 // ============================================================================
 
 export interface GraphData {
+  /** Graph version the data reflects - catch up from it with fetchGraphChanges */
+  version?: number;
   nodes: Array<{
     id: string;
     name: string;
     thumbnailUrl: string | null;
+    /** Rekognition celebrity Id, when known */
+    externalId?: string | null;
+    /** Reference URLs (Wikidata, IMDb) */
+    externalUrls?: string[];
+    version?: number;
   }>;
   edges: Array<{
     id: string;
@@ -188,7 +261,99 @@ export interface GraphData {
     evidenceUrl: string | null;
     thumbnailUrl: string | null;
     contextUrl: string | null;
+    evidenceCount?: number;
+    version?: number;
+  }>;
+}
+
+/**
+ * Graph changes after a version (GET /api/graph?since=)
+ */
+export interface GraphChanges {
+  since: number;
+  /** Current graph version - the `since` of the next catch-up */
+  version: number;
+  /** Nodes added or changed, in their current state */
+  nodes: GraphData["nodes"];
+  /** Edges added or changed, in their current state */
+  edges: GraphData["edges"];
+  removedNodeIds: string[];
+  removedEdgeIds: string[];
+}
+
+/**
+ * Part of the graph (GET /api/graph/neighborhood, GET /api/graph/subgraph)
+ */
+export interface SubgraphData extends GraphData {
+  version: number;
+  /** Hop distance from the center, for neighborhoods */
+  nodes: Array<GraphData["nodes"][number] & { depth?: number }>;
+  /** Whether nodes were left out to stay within the limit */
+  truncated: boolean;
+}
+
+export interface SubgraphOptions {
+  /** Maximum number of nodes returned */
+  limit?: number;
+  /** Only follow edges at or above this confidence (0-100) */
+  minConfidence?: number;
+}
+
+/**
+ * An evidence image stored for a graph edge
+ */
+export interface StoredEvidence {
+  id: string;
+  edgeId: string;
+  imageUrl: string;
+  thumbnailUrl: string;
+  contextUrl: string;
+  title: string;
+  imageScore: number;
+  detectedCelebs: Array<{
+    name: string;
+    confidence: number;
+    boundingBox?: { left: number; top: number; width: number; height: number };
   }>;
+  discoveredAt: string;
+}
+
+export interface CentralityEntry {
+  id: string;
+  name: string;
+  thumbnailUrl: string | null;
+  degree: number;
+  /** Degree divided by the most connections possible */
+  degreeCentrality: number;
+  /** Share of shortest paths between other people that pass through this person (0-1) */
+  betweenness: number;
+}
+
+/**
+ * Graph analytics (GET /api/graph/analytics)
+ */
+export interface GraphAnalytics {
+  version: number;
+  computedAt: string;
+  nodeCount: number;
+  edgeCount: number;
+  components: {
+    count: number;
+    /** Largest first */
+    sizes: number[];
+    /** Share of people in the largest component */
+    largestShare: number;
+    isolated: number;
+  };
+  /** Longest shortest path in hops */
+  diameter: number;
+  averageShortestPath: number | null;
+  mostConnected: CentralityEntry[];
+  topConnectors: CentralityEntry[];
+  /** Betweenness and path statistics were estimated from a sample */
+  sampled: boolean;
+  /** The graph changed since - fresh analytics are being computed */
+  stale: boolean;
 }
 
 export interface GraphStats {
@@ -208,6 +373,86 @@ export async function fetchGraph(): Promise<GraphData> {
   return response.json();
 }
 
+/**
+ * Fetch what changed in the graph after a version
+ */
+export async function fetchGraphChanges(since: number): Promise<GraphChanges> {
+  const response = await fetch(`${WORKER_URL}/api/graph?since=${since}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch graph changes");
+  }
+  return response.json();
+}
+
+function setSubgraphOptions(url: URL, options: SubgraphOptions): void {
+  if (options.limit !== undefined) {
+    url.searchParams.set("limit", String(options.limit));
+  }
+  if (options.minConfidence !== undefined) {
+    url.searchParams.set("minConfidence", String(options.minConfidence));
+  }
+}
+
+/**
+ * Fetch the people within `depth` hops of a person, or null if they are not in the graph
+ */
+export async function fetchNeighborhood(
+  node: string,
+  depth?: number,
+  options: SubgraphOptions = {}
+): Promise<(SubgraphData & { center: string }) | null> {
+  const url = new URL(`${WORKER_URL}/api/graph/neighborhood`);
+  url.searchParams.set("node", node);
+  if (depth !== undefined) {
+    url.searchParams.set("depth", String(depth));
+  }
+  setSubgraphOptions(url, options);
+
+  const response = await fetch(url.toString());
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error("Failed to fetch neighborhood");
+  }
+  return response.json();
+}
+
+/**
+ * Fetch the named people and the edges among them
+ */
+export async function fetchSubgraph(
+  nodes: string[],
+  options: SubgraphOptions = {}
+): Promise<SubgraphData & { missing: string[] }> {
+  const url = new URL(`${WORKER_URL}/api/graph/subgraph`);
+  url.searchParams.set("nodes", nodes.join(","));
+  setSubgraphOptions(url, options);
+
+  const response = await fetch(url.toString());
+  if (!response.ok) {
+    throw new Error("Failed to fetch subgraph");
+  }
+  return response.json();
+}
+
+/**
+ * Fetch centrality, component and separation statistics of the whole graph
+ */
+export async function fetchGraphAnalytics(top?: number): Promise<GraphAnalytics> {
+  const url = new URL(`${WORKER_URL}/api/graph/analytics`);
+  if (top !== undefined) {
+    url.searchParams.set("top", String(top));
+  }
+
+  const response = await fetch(url.toString());
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || "Failed to fetch graph analytics");
+  }
+  return response.json();
+}
+
 /**
  * Fetch graph statistics
  */
@@ -219,6 +464,96 @@ export async function fetchGraphStats(): Promise<GraphStats> {
   return response.json();
 }
 
+/**
+ * Fetch every stored evidence image for the edge between two people (best first)
+ */
+export async function fetchEvidenceBetween(
+  fromName: string,
+  toName: string
+): Promise<StoredEvidence[]> {
+  const url = new URL(`${WORKER_URL}/api/graph/evidence`);
+  url.searchParams.set("from", fromName);
+  url.searchParams.set("to", toName);
+
+  const response = await fetch(url.toString());
+  if (!response.ok) {
+    throw new Error("Failed to fetch evidence");
+  }
+  const data = await response.json() as { evidence: StoredEvidence[] };
+  return data.evidence;
+}
+
+// ============================================================================
+// Run History
+// ============================================================================
+
+export type RunStatus = "running" | "success" | "no_path" | "error" | "cancelled";
+
+/**
+ * Verified edge of a persisted path (best evidence image only)
+ */
+export interface RunPathEdge {
+  from: string;
+  to: string;
+  edgeConfidence: number;
+  bestEvidence: {
+    imageUrl: string;
+    thumbnailUrl: string;
+    contextUrl: string;
+    title?: string;
+    imageScore: number;
+  };
+}
+
+/**
+ * A persisted investigation run (matches the worker's InvestigationRun)
+ */
+export interface InvestigationRun {
+  runId: string;
+  instanceId: string | null;
+  personA: string;
+  personB: string;
+  config: RunConfig | null;
+  replayOf: string | null;
+  status: RunStatus;
+  startedAt: string;
+  completedAt: string | null;
+  durationMs: number | null;
+  budgets: {
+    maxSteps: number;
+    stepsUsed: number;
+    maxSubrequests: number;
+    subrequestsUsed: number;
+    detectionCacheHits?: number;
+    detectionCacheMisses?: number;
+  } | null;
+  hopCount: number | null;
+  pathConfidence: number | null;
+  result: {
+    personA: string;
+    personB: string;
+    path: string[];
+    edges: RunPathEdge[];
+    confidence: { pathBottleneck: number; pathCumulative: number };
+  } | null;
+  message: string | null;
+  edgesCreated: string[];
+}
+
+/**
+ * Fetch the persisted record of a run (null if it was never recorded)
+ */
+export async function fetchRun(runId: string, init?: RequestInit): Promise<InvestigationRun | null> {
+  const response = await fetch(`${WORKER_URL}/api/runs/${encodeURIComponent(runId)}`, init);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error("Failed to fetch run");
+  }
+  return response.json();
+}
+
 // ============================================================================
 // Cached Path Lookup
 // ============================================================================
@@ -247,19 +582,38 @@ export interface CachedPathResult {
   steps: PathStep[];   // Edge details for each hop
   hops: number;
   minConfidence: number;  // Bottleneck confidence
+  cumulativeConfidence?: number;  // Product of (confidence / 100) across hops, 0-1
+  alternatives?: CachedPathResult[];  // k-shortest mode: every alternative, best first
 }
 
+/**
+ * Path search modes supported by the graph path lookup
+ * - shortest: fewest hops
+ * - widest: highest bottleneck confidence
+ * - reliable: highest cumulative confidence
+ * - k-shortest: up to k fewest-hop alternatives
+ */
+export type PathMode = "shortest" | "widest" | "reliable" | "k-shortest";
+
 /**
  * Look up a cached path between two people in the graph database
- * Uses BFS to find the shortest existing path
+ * Uses BFS to find the shortest existing path unless another mode is given
  */
 export async function findCachedPath(
   fromName: string,
-  toName: string
+  toName: string,
+  mode: PathMode = "shortest",
+  k?: number
 ): Promise<CachedPathResult> {
   const url = new URL(`${WORKER_URL}/api/graph/path`);
   url.searchParams.set("from", fromName);
   url.searchParams.set("to", toName);
+  if (mode !== "shortest") {
+    url.searchParams.set("mode", mode);
+  }
+  if (k !== undefined) {
+    url.searchParams.set("k", String(k));
+  }
 
   const response = await fetch(url.toString());
   if (!response.ok) {
@@ -320,7 +674,8 @@ export function createEventPoller(
       }
 
       if (!response.complete && isRunning) {
-        timeoutId = setTimeout(poll, intervalMs);
+        // Drain a backlog page by page without waiting
+        timeoutId = setTimeout(poll, response.hasMore ? 0 : intervalMs);
       } else if (response.complete) {
         // Final poll - investigation is complete
         onEvents([], true);
@@ -387,7 +742,7 @@ export function createEventStream(
         onEvent(parsed);
 
         // Check for completion
-        if (parsed.type === "final" || parsed.type === "no_path" || parsed.type === "error") {
+        if (parsed.type === "final" || parsed.type === "no_path" || parsed.type === "error" || parsed.type === "cancelled") {
           eventSource?.close();
           onComplete();
         }
@@ -397,8 +752,13 @@ export function createEventStream(
     };
 
     eventSource.onerror = (err) => {
+      // EventSource reconnects on its own and resumes from Last-Event-ID;
+      // only a connection it has given up on is an error
+      if (eventSource?.readyState !== EventSource.CLOSED) {
+        console.warn("SSE connection lost, reconnecting...");
+        return;
+      }
       console.error("SSE error:", err);
-      eventSource?.close();
       onError(new Error("SSE connection error"));
     };
   } catch (err) {
@@ -412,18 +772,9 @@ export function createEventStream(
 }
 
 /**
- * Helper to build WebSocket URL from HTTP URL
- */
-function getWebSocketUrl(path: string): string {
-  const baseUrl = new URL(WORKER_URL);
-  const protocol = baseUrl.protocol === "https:" ? "wss:" : "ws:";
-  return `${protocol}//${baseUrl.host}${path}`;
-}
-
-/**
- * Creates a WebSocket connection for real-time investigation events
- * Uses Hibernatable WebSockets via Durable Objects for unlimited streaming
- * Falls back to SSE if WebSocket connection fails
+ * Follows a run's events over the shared multiplexed WebSocket
+ * (Durable Objects relay the per-run buffer, replaying from `cursor`).
+ * Calls onError when the socket cannot be opened at all, so callers can fall back to SSE.
  */
 export function createWebSocketEventStream(
   runId: string,
@@ -433,11 +784,7 @@ export function createWebSocketEventStream(
   cursor: number = 0
 ): () => void {
   const seenEventIds = new Set<string>();
-  let ws: WebSocket | null = null;
-  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
-  let pingInterval: ReturnType<typeof setInterval> | null = null;
   let isClosing = false;
-  let currentCursor = cursor;
 
   // Get unique event ID for deduplication
   const getEventId = (e: InvestigationEvent): string => {
@@ -448,112 +795,51 @@ export function createWebSocketEventStream(
     return `${e.type}:${e.timestamp}:${e.message}`;
   };
 
-  const cleanup = () => {
-    isClosing = true;
-    if (reconnectTimeout) {
-      clearTimeout(reconnectTimeout);
-      reconnectTimeout = null;
-    }
-    if (pingInterval) {
-      clearInterval(pingInterval);
-      pingInterval = null;
-    }
-    if (ws) {
-      ws.close();
-      ws = null;
-    }
-  };
+  const unsubscribe = getStreamClient().subscribeRun(
+    runId,
+    {
+      onEvent: (investigationEvent) => {
+        if (isClosing) return;
+        const id = getEventId(investigationEvent);
 
-  const connect = () => {
-    if (isClosing) return;
-
-    try {
-      const wsUrl = getWebSocketUrl(`/api/chat/ws/${runId}?cursor=${currentCursor}`);
-      ws = new WebSocket(wsUrl);
-
-      ws.onopen = () => {
-        console.log("[WebSocket] Connected to investigation stream");
-        // Set up ping interval to keep connection alive
-        pingInterval = setInterval(() => {
-          if (ws?.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: "ping" }));
-          }
-        }, 30000);
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data) as {
-            type: "event" | "complete" | "pong";
-            data?: InvestigationEvent;
-            index?: number;
-          };
-
-          if (message.type === "event" && message.data) {
-            const investigationEvent = message.data;
-            const id = getEventId(investigationEvent);
-
-            // Skip duplicates
-            if (seenEventIds.has(id)) {
-              return;
-            }
-            seenEventIds.add(id);
-
-            // Update cursor for potential reconnect
-            if (typeof message.index === "number") {
-              currentCursor = message.index + 1;
-            }
-
-            onEvent(investigationEvent);
-
-            // Check for completion
-            if (
-              investigationEvent.type === "final" ||
-              investigationEvent.type === "no_path" ||
-              investigationEvent.type === "error"
-            ) {
-              cleanup();
-              onComplete();
-            }
-          }
-
-          if (message.type === "complete") {
-            cleanup();
-            onComplete();
-          }
-
-          // pong is just a heartbeat acknowledgment, no action needed
-        } catch (err) {
-          console.warn("[WebSocket] Failed to parse message:", err);
+        // Skip duplicates
+        if (seenEventIds.has(id)) {
+          return;
         }
-      };
+        seenEventIds.add(id);
 
-      ws.onclose = (event) => {
-        if (pingInterval) {
-          clearInterval(pingInterval);
-          pingInterval = null;
-        }
+        onEvent(investigationEvent);
 
-        if (!isClosing && !event.wasClean) {
-          // Unexpected close - try to reconnect
-          console.log("[WebSocket] Connection closed unexpectedly, reconnecting...");
-          reconnectTimeout = setTimeout(connect, 3000);
+        // Check for completion
+        if (
+          investigationEvent.type === "final" ||
+          investigationEvent.type === "no_path" ||
+          investigationEvent.type === "error" ||
+          investigationEvent.type === "cancelled"
+        ) {
+          cleanup();
+          onComplete();
         }
-      };
-
-      ws.onerror = () => {
-        console.error("[WebSocket] Connection error");
-        // onclose will handle reconnection
-      };
-    } catch (err) {
-      console.error("[WebSocket] Failed to connect:", err);
-      onError(err instanceof Error ? err : new Error(String(err)));
-    }
-  };
+      },
+      onComplete: () => {
+        if (isClosing) return;
+        isClosing = true;
+        onComplete();
+      },
+      onError: (error) => {
+        if (isClosing) return;
+        isClosing = true;
+        onError(error);
+      },
+    },
+    cursor
+  );
 
-  connect();
+  const cleanup = () => {
+    isClosing = true;
+    unsubscribe();
+  };
 
   // Return cleanup function
   return cleanup;
 }
-
@@ -0,0 +1,315 @@
+/**
+ * Multiplexed WebSocket client for run events and graph updates
+ *
+ * One socket to /api/ws carries any number of subscriptions. Each
+ * subscription keeps the cursor of the last message it received, so after a
+ * reconnect it is resumed exactly where it stopped.
+ */
+
+import type { InvestigationEvent } from "./api-client";
+
+const WORKER_URL = process.env.NEXT_PUBLIC_WORKER_URL || "http://localhost:8787";
+
+const RECONNECT_DELAY_MS = 3000;
+const PING_INTERVAL_MS = 30000;
+
+export interface GraphEdgeUpdate {
+  source: string;
+  target: string;
+  confidence: number;
+  evidenceUrl?: string;
+  thumbnailUrl?: string;
+  contextUrl?: string;
+  /** Graph version the change was stored at */
+  version?: number;
+}
+
+type StreamTopic = "run" | "graph";
+
+interface StreamServerMessage {
+  type: "subscribed" | "unsubscribed" | "event" | "complete" | "edge_update" | "resync" | "error" | "pong";
+  topic?: StreamTopic;
+  runId?: string;
+  data?: unknown;
+  index?: number;
+  seq?: number;
+  cursor?: number;
+  message?: string;
+}
+
+export interface RunSubscriptionHandlers {
+  onEvent: (event: InvestigationEvent, index: number) => void;
+  onComplete: () => void;
+  onError?: (error: Error) => void;
+}
+
+export interface GraphSubscriptionHandlers {
+  onEdgeUpdate: (edge: GraphEdgeUpdate) => void;
+  /** Updates were missed beyond what the server keeps - refetch the graph */
+  onResync?: () => void;
+}
+
+/** One server-side subscription, shared by every local listener on the same topic and run */
+interface Subscription {
+  topic: StreamTopic;
+  runId?: string;
+  /** Next event index (runs) or sequence number (graph) to ask for; undefined follows live */
+  cursor?: number;
+  runListeners: Set<RunSubscriptionHandlers>;
+  graphListeners: Set<GraphSubscriptionHandlers>;
+}
+
+function subscriptionKey(topic: StreamTopic, runId?: string): string {
+  return topic === "graph" ? "graph" : `run:${runId}`;
+}
+
+export class StreamClient {
+  private ws: WebSocket | null = null;
+  private subscriptions = new Map<string, Subscription>();
+  private connectionListeners = new Set<(connected: boolean) => void>();
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private hasConnected = false;
+  private connected = false;
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Follow a run's events from a cursor (event index, default 0 = full replay).
+   * Returns an unsubscribe function.
+   */
+  subscribeRun(runId: string, handlers: RunSubscriptionHandlers, cursor = 0): () => void {
+    return this.add("run", runId, cursor, subscription => subscription.runListeners, handlers);
+  }
+
+  /**
+   * Follow graph edge updates, live or from a sequence number.
+   * Returns an unsubscribe function.
+   */
+  subscribeGraph(handlers: GraphSubscriptionHandlers, cursor?: number): () => void {
+    return this.add("graph", undefined, cursor, subscription => subscription.graphListeners, handlers);
+  }
+
+  /**
+   * Listen for the socket connecting and disconnecting.
+   * Returns a function that removes the listener.
+   */
+  onConnectionChange(listener: (connected: boolean) => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  private add<T>(
+    topic: StreamTopic,
+    runId: string | undefined,
+    cursor: number | undefined,
+    listenersOf: (subscription: Subscription) => Set<T>,
+    handlers: T
+  ): () => void {
+    const key = subscriptionKey(topic, runId);
+    let subscription = this.subscriptions.get(key);
+    let resubscribe = false;
+
+    if (!subscription) {
+      subscription = { topic, runId, cursor, runListeners: new Set(), graphListeners: new Set() };
+      this.subscriptions.set(key, subscription);
+      resubscribe = true;
+    } else if (cursor !== undefined && (subscription.cursor === undefined || cursor < subscription.cursor)) {
+      // A later listener asking for older messages rewinds the shared subscription;
+      // listeners already attached see the replay again
+      subscription.cursor = cursor;
+      resubscribe = true;
+    }
+    listenersOf(subscription).add(handlers);
+
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      if (resubscribe) this.sendSubscribe(subscription);
+    } else {
+      this.connect();
+    }
+
+    const current = subscription;
+    return () => {
+      listenersOf(current).delete(handlers);
+      // Ended already, or other listeners still follow it
+      if (this.subscriptions.get(key) !== current || current.runListeners.size + current.graphListeners.size > 0) {
+        return;
+      }
+      this.remove(key);
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send(JSON.stringify({ type: "unsubscribe", topic: current.topic, runId: current.runId }));
+      }
+    };
+  }
+
+  private remove(key: string): void {
+    this.subscriptions.delete(key);
+    if (this.subscriptions.size === 0) {
+      this.disconnect();
+    }
+  }
+
+  private sendSubscribe(subscription: Subscription): void {
+    this.ws?.send(JSON.stringify({
+      type: "subscribe",
+      topic: subscription.topic,
+      runId: subscription.runId,
+      cursor: subscription.cursor,
+    }));
+  }
+
+  private connect(): void {
+    if (this.ws || this.reconnectTimeout) return;
+
+    const baseUrl = new URL(WORKER_URL);
+    const protocol = baseUrl.protocol === "https:" ? "wss:" : "ws:";
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(`${protocol}//${baseUrl.host}/api/ws`);
+    } catch (err) {
+      this.failRuns(err instanceof Error ? err : new Error(String(err)));
+      return;
+    }
+    this.ws = ws;
+
+    ws.onopen = () => {
+      this.hasConnected = true;
+      this.setConnected(true);
+      for (const subscription of this.subscriptions.values()) {
+        this.sendSubscribe(subscription);
+      }
+      this.pingInterval = setInterval(() => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({ type: "ping" }));
+        }
+      }, PING_INTERVAL_MS);
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        this.handleMessage(JSON.parse(event.data) as StreamServerMessage);
+      } catch (err) {
+        console.warn("[StreamClient] Failed to parse message:", err);
+      }
+    };
+
+    ws.onclose = () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.clearPing();
+      this.setConnected(false);
+
+      if (!this.hasConnected) {
+        // Never got through (e.g. a proxy blocking WebSockets) - let run
+        // subscribers fall back to SSE or polling
+        this.failRuns(new Error("WebSocket connection failed"));
+      }
+      if (this.subscriptions.size > 0) {
+        console.warn("[StreamClient] Connection lost, reconnecting...");
+        this.reconnectTimeout = setTimeout(() => {
+          this.reconnectTimeout = null;
+          this.connect();
+        }, RECONNECT_DELAY_MS);
+      }
+    };
+
+    ws.onerror = () => {
+      console.error("[StreamClient] Connection error");
+      // onclose will handle reconnection
+    };
+  }
+
+  private handleMessage(message: StreamServerMessage): void {
+    if (message.type === "pong" || message.type === "subscribed" || message.type === "unsubscribed") {
+      return;
+    }
+
+    const key = subscriptionKey(message.topic ?? "run", message.runId);
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) return;
+
+    switch (message.type) {
+      case "event":
+        if (typeof message.index === "number" && message.data) {
+          subscription.cursor = message.index + 1;
+          for (const listener of [...subscription.runListeners]) {
+            listener.onEvent(message.data as InvestigationEvent, message.index);
+          }
+        }
+        break;
+      case "complete":
+        this.remove(key);
+        for (const listener of subscription.runListeners) listener.onComplete();
+        break;
+      case "edge_update":
+        if (typeof message.seq === "number") {
+          subscription.cursor = message.seq + 1;
+        }
+        if (message.data) {
+          for (const listener of subscription.graphListeners) listener.onEdgeUpdate(message.data as GraphEdgeUpdate);
+        }
+        break;
+      case "resync":
+        for (const listener of subscription.graphListeners) listener.onResync?.();
+        break;
+      case "error":
+        console.warn("[StreamClient] Subscription error:", message.message);
+        this.remove(key);
+        for (const listener of subscription.runListeners) {
+          listener.onError?.(new Error(message.message ?? "Subscription failed"));
+        }
+        break;
+    }
+  }
+
+  private failRuns(error: Error): void {
+    for (const [key, subscription] of [...this.subscriptions]) {
+      if (subscription.topic === "run") {
+        this.remove(key);
+        for (const listener of subscription.runListeners) listener.onError?.(error);
+      }
+    }
+  }
+
+  private setConnected(connected: boolean): void {
+    this.connected = connected;
+    for (const listener of this.connectionListeners) {
+      listener(connected);
+    }
+  }
+
+  private clearPing(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.clearPing();
+    const ws = this.ws;
+    this.ws = null;
+    this.hasConnected = false;
+    ws?.close();
+    this.setConnected(false);
+  }
+}
+
+let sharedClient: StreamClient | null = null;
+
+/**
+ * The app-wide multiplexed connection, opened on the first subscription
+ */
+export function getStreamClient(): StreamClient {
+  sharedClient ??= new StreamClient();
+  return sharedClient;
+}
@@ -25,6 +25,7 @@ export type InvestigationEventType =
   | "image_result"
   | "final"
   | "no_path"
+  | "cancelled"
   | "error";
 
 export interface InvestigationEvent {
@@ -44,7 +45,7 @@ export interface InvestigationEvent {
     imageIndex?: number;
     totalImages?: number;
     imageUrl?: string;
-    status?: "collage" | "no_match" | "evidence" | "error";
+    status?: "collage" | "no_match" | "evidence" | "error" | "duplicate";
     reason?: string;
     celebrities?: Array<{ name: string; confidence: number }>;
     // Evidence data
@@ -54,12 +55,18 @@ export interface InvestigationEvent {
       confidence: number;
       thumbnailUrl?: string;
       contextUrl?: string;
+      fromGraph?: boolean;
     };
     // Path data
     path?: string[];
     hopDepth?: number;
+    forwardPath?: string[];
+    backwardPath?: string[];
+    meetingPoint?: string;
     // Other
     query?: string;
+    searchCache?: "hit" | "miss" | "bypass";
+    resultCount?: number;
     [key: string]: unknown;
   };
   timestamp: number;
@@ -88,6 +95,8 @@ export interface EvidenceItem {
   sourceUrl: string;
   confidence: number;
   description: string;
+  /** Reused from the persisted graph rather than freshly verified in this run */
+  fromGraph?: boolean;
 }
 
 export interface PathHop {
@@ -137,6 +146,8 @@ export interface InvestigationState {
   currentPath: string[];
   // All raw events for debugging
   logs: InvestigationEvent[];
+  /** Worker run ID once the investigation has started (links to /run/[runId]) */
+  runId?: string;
 }
 
 // Helper to create initial state
@@ -1,30 +1,30 @@
-INSERT INTO "nodes" VALUES('node_hgte0a','Taylor Swift','taylor swift','2026-01-06 11:00:16',NULL);
-INSERT INTO "nodes" VALUES('node_o1t038','Anna Wintour','anna wintour','2026-01-06 11:00:16',NULL);
-INSERT INTO "nodes" VALUES('node_xziegc','Hillary Clinton','hillary clinton','2026-01-06 11:00:45',NULL);
-INSERT INTO "nodes" VALUES('node_wqpbsq','Joe Biden','joe biden','2026-01-06 11:00:53',NULL);
-INSERT INTO "nodes" VALUES('node_v4gk8g','Donald Trump','donald trump','2026-01-06 11:01:38',NULL);
-INSERT INTO "nodes" VALUES('node_yyqa0o','Sarkodie','sarkodie','2026-01-06 11:03:06',NULL);
-INSERT INTO "nodes" VALUES('node_c6rdux','Criss Waddle','criss waddle','2026-01-06 11:03:06',NULL);
-INSERT INTO "nodes" VALUES('node_fk49eh','Medikal','medikal','2026-01-06 11:03:24',NULL);
-INSERT INTO "nodes" VALUES('node_o8clw0','H.E. Nana Akufo-Addo','h.e. nana akufo-addo','2026-01-06 11:05:37',NULL);
-INSERT INTO "nodes" VALUES('node_ayk4js','Barack Obama','barack obama','2026-01-06 11:06:10',NULL);
-INSERT INTO "nodes" VALUES('node_eg8kse','John Legend','john legend','2026-01-06 11:07:20',NULL);
-INSERT INTO "nodes" VALUES('node_1o2nin','Jay-Z','jay-z','2026-01-06 11:08:34',NULL);
-INSERT INTO "nodes" VALUES('node_52y92','Elon Musk','elon musk','2026-01-06 11:10:13',NULL);
-INSERT INTO "nodes" VALUES('node_s5k0wl','Kanye West','kanye west','2026-01-06 11:10:13',NULL);
-INSERT INTO "nodes" VALUES('node_jv894h','Rihanna','rihanna','2026-01-06 11:16:07',NULL);
-INSERT INTO "nodes" VALUES('node_95svvf','Cardi B','cardi b','2026-01-06 11:16:26',NULL);
-INSERT INTO "nodes" VALUES('node_xhrokd','Jesse Jackson','jesse jackson','2026-01-06 11:29:21',NULL);
-INSERT INTO "nodes" VALUES('node_px2f7i','Harry Belafonte','harry belafonte','2026-01-06 11:30:30',NULL);
-INSERT INTO "nodes" VALUES('node_qqku00','Sidney Poitier','sidney poitier','2026-01-06 11:31:29',NULL);
-INSERT INTO "nodes" VALUES('node_5a9dx0','Sammy Davis Jr.','sammy davis jr.','2026-01-06 11:32:43',NULL);
-INSERT INTO "nodes" VALUES('node_gx8be2','Quincy Jones','quincy jones','2026-01-06 11:33:41',NULL);
-INSERT INTO "nodes" VALUES('node_tit3s6','Aretha Franklin','aretha franklin','2026-01-06 11:34:29',NULL);
-INSERT INTO "nodes" VALUES('node_wxuo06','Vladimir Putin','vladimir putin','2026-01-06 11:34:48',NULL);
-INSERT INTO "nodes" VALUES('node_2foyb2','Arkady Volozh','arkady volozh','2026-01-06 11:34:48',NULL);
-INSERT INTO "nodes" VALUES('node_79ufwu','Ray Charles','ray charles','2026-01-06 11:35:09',NULL);
-INSERT INTO "nodes" VALUES('node_loi3n4','Dizzy Gillespie','dizzy gillespie','2026-01-06 11:35:45',NULL);
-INSERT INTO "nodes" VALUES('node_p7tmhr','Nina Simone','nina simone','2026-01-06 11:36:17',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_hgte0a','Taylor Swift','taylor swift','2026-01-06 11:00:16',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_o1t038','Anna Wintour','anna wintour','2026-01-06 11:00:16',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_xziegc','Hillary Clinton','hillary clinton','2026-01-06 11:00:45',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_wqpbsq','Joe Biden','joe biden','2026-01-06 11:00:53',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_v4gk8g','Donald Trump','donald trump','2026-01-06 11:01:38',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_yyqa0o','Sarkodie','sarkodie','2026-01-06 11:03:06',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_c6rdux','Criss Waddle','criss waddle','2026-01-06 11:03:06',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_fk49eh','Medikal','medikal','2026-01-06 11:03:24',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_o8clw0','H.E. Nana Akufo-Addo','h.e. nana akufo-addo','2026-01-06 11:05:37',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_ayk4js','Barack Obama','barack obama','2026-01-06 11:06:10',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_eg8kse','John Legend','john legend','2026-01-06 11:07:20',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_1o2nin','Jay-Z','jay-z','2026-01-06 11:08:34',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_52y92','Elon Musk','elon musk','2026-01-06 11:10:13',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_s5k0wl','Kanye West','kanye west','2026-01-06 11:10:13',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_jv894h','Rihanna','rihanna','2026-01-06 11:16:07',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_95svvf','Cardi B','cardi b','2026-01-06 11:16:26',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_xhrokd','Jesse Jackson','jesse jackson','2026-01-06 11:29:21',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_px2f7i','Harry Belafonte','harry belafonte','2026-01-06 11:30:30',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_qqku00','Sidney Poitier','sidney poitier','2026-01-06 11:31:29',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_5a9dx0','Sammy Davis Jr.','sammy davis jr.','2026-01-06 11:32:43',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_gx8be2','Quincy Jones','quincy jones','2026-01-06 11:33:41',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_tit3s6','Aretha Franklin','aretha franklin','2026-01-06 11:34:29',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_wxuo06','Vladimir Putin','vladimir putin','2026-01-06 11:34:48',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_2foyb2','Arkady Volozh','arkady volozh','2026-01-06 11:34:48',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_79ufwu','Ray Charles','ray charles','2026-01-06 11:35:09',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_loi3n4','Dizzy Gillespie','dizzy gillespie','2026-01-06 11:35:45',NULL);
+INSERT INTO "nodes"(id,name,normalized_name,first_seen_at,thumbnail_url) VALUES('node_p7tmhr','Nina Simone','nina simone','2026-01-06 11:36:17',NULL);
 INSERT INTO "edges" VALUES('edge_node_hgte0a_node_o1t038','node_hgte0a','node_o1t038',99.99581909179688,'2026-01-06 11:00:16','https://cdn.mos.cms.futurecdn.net/whowhatwear/posts/281753/anna-wintour-taylor-swift-vogue-video-281753-1565293631723-square-1200-80.jpg','https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcQE7Z_eaBj2MQXC6oG6sit0eeFE2ti8mbaIAooJuZID2EGNTFip9pwDh8c-&s','https://www.whowhatwear.com/anna-wintour-taylor-swift-vogue-video');
 INSERT INTO "edges" VALUES('edge_node_o1t038_node_xziegc','node_o1t038','node_xziegc',99.99784088134766,'2026-01-06 11:00:45','https://fashionista.com/.image/t_share/MTQwNDAwOTgyNzY3OTY5NTEy/gettyimages-184806459jpg.jpg','https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcRHktP-YovBFzYRmtAkyha4FL-LYaD74vlS8W_ofdkNL0E_-ANJ7rWxxg&s','https://fashionista.com/2016/07/anna-wintour-hillary-clinton-clothes');
 INSERT INTO "edges" VALUES('edge_node_wqpbsq_node_xziegc','node_xziegc','node_wqpbsq',99.9891128540039,'2026-01-06 11:00:53','https://static.politico.com/37/71/6b6478d9473683b71fff866c6f4f/150828-hillary-clinton-joe-biden-3-gty-1160.jpg','https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcRDuMu4HHHvtqk41OyWUlI6qOud3if3pqTviuIytlyDtVcPAzDGGSxseA&s','https://www.politico.com/story/2015/08/hillary-clinton-joe-biden-friendship-2016-213174');
@@ -7,12 +7,24 @@ CREATE TABLE IF NOT EXISTS nodes (
   name TEXT NOT NULL,
   normalized_name TEXT NOT NULL,
   first_seen_at TEXT NOT NULL DEFAULT (datetime('now')),
-  thumbnail_url TEXT
+  thumbnail_url TEXT,
+  -- Rekognition celebrity Id, stable across name variants ("Beyoncé" vs "Beyonce")
+  external_id TEXT,
+  -- JSON array of reference URLs (Wikidata, IMDb)
+  external_urls TEXT,
+  -- Graph version of the last change to this node (see graph_changes)
+  version INTEGER NOT NULL DEFAULT 0
 );
+-- Existing databases: ALTER TABLE nodes ADD COLUMN external_id TEXT;
+--                     ALTER TABLE nodes ADD COLUMN external_urls TEXT;
+--                     ALTER TABLE nodes ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
 
 -- Index for fast name lookups
 CREATE INDEX IF NOT EXISTS idx_nodes_normalized_name ON nodes(normalized_name);
 
+-- One node per external identity
+CREATE UNIQUE INDEX IF NOT EXISTS idx_nodes_external_id ON nodes(external_id);
+
 -- Verified connections between people
 CREATE TABLE IF NOT EXISTS edges (
   id TEXT PRIMARY KEY,
@@ -23,9 +35,12 @@ CREATE TABLE IF NOT EXISTS edges (
   best_evidence_url TEXT,
   best_evidence_thumbnail TEXT,
   context_url TEXT,
+  -- Graph version of the last change to this edge or its evidence (see graph_changes)
+  version INTEGER NOT NULL DEFAULT 0,
   FOREIGN KEY (source_id) REFERENCES nodes(id),
   FOREIGN KEY (target_id) REFERENCES nodes(id)
 );
+-- Existing databases: ALTER TABLE edges ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
 
 -- Index for efficient graph traversal
 CREATE INDEX IF NOT EXISTS idx_edges_source ON edges(source_id);
@@ -36,3 +51,239 @@ CREATE UNIQUE INDEX IF NOT EXISTS idx_edges_unique ON edges(
   MIN(source_id, target_id),
   MAX(source_id, target_id)
 );
+
+-- Every evidence image found for an edge (not just the best one)
+CREATE TABLE IF NOT EXISTS evidence (
+  id TEXT PRIMARY KEY,
+  edge_id TEXT NOT NULL,
+  image_url TEXT NOT NULL,
+  thumbnail_url TEXT,
+  context_url TEXT,
+  title TEXT,
+  image_score REAL NOT NULL,
+  -- JSON array of { name, confidence, boundingBox? } for each detected person
+  detected_celebs TEXT NOT NULL DEFAULT '[]',
+  discovered_at TEXT NOT NULL DEFAULT (datetime('now')),
+  -- 64-bit dHash (hex); near-duplicate copies of a photo share one row
+  perceptual_hash TEXT,
+  FOREIGN KEY (edge_id) REFERENCES edges(id)
+);
+-- Existing databases: ALTER TABLE evidence ADD COLUMN perceptual_hash TEXT;
+
+-- Index for listing evidence per edge
+CREATE INDEX IF NOT EXISTS idx_evidence_edge ON evidence(edge_id);
+
+-- Graph changelog: every node and edge mutation gets the next graph version
+-- Clients catch up with GET /api/graph?since=<version>; deletions stay here as tombstones
+CREATE TABLE IF NOT EXISTS graph_changes (
+  version INTEGER PRIMARY KEY AUTOINCREMENT,
+  kind TEXT NOT NULL,         -- node | edge
+  entity_id TEXT NOT NULL,
+  op TEXT NOT NULL,           -- upsert | delete
+  changed_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Triggers stamp versions, so every write path (workflow, import, merge) is covered.
+-- Updates that leave the visible fields as they were do not bump the version.
+CREATE TRIGGER IF NOT EXISTS trg_nodes_insert_version AFTER INSERT ON nodes
+BEGIN
+  INSERT INTO graph_changes (kind, entity_id, op) VALUES ('node', NEW.id, 'upsert');
+  UPDATE nodes SET version = last_insert_rowid() WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_nodes_update_version AFTER UPDATE OF name, thumbnail_url, external_id, external_urls ON nodes
+WHEN OLD.name IS NOT NEW.name
+  OR OLD.thumbnail_url IS NOT NEW.thumbnail_url
+  OR OLD.external_id IS NOT NEW.external_id
+  OR OLD.external_urls IS NOT NEW.external_urls
+BEGIN
+  INSERT INTO graph_changes (kind, entity_id, op) VALUES ('node', NEW.id, 'upsert');
+  UPDATE nodes SET version = last_insert_rowid() WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_nodes_delete_version AFTER DELETE ON nodes
+BEGIN
+  INSERT INTO graph_changes (kind, entity_id, op) VALUES ('node', OLD.id, 'delete');
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_edges_insert_version AFTER INSERT ON edges
+BEGIN
+  INSERT INTO graph_changes (kind, entity_id, op) VALUES ('edge', NEW.id, 'upsert');
+  UPDATE edges SET version = last_insert_rowid() WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_edges_update_version AFTER UPDATE OF confidence, best_evidence_url, best_evidence_thumbnail, context_url ON edges
+WHEN OLD.confidence IS NOT NEW.confidence
+  OR OLD.best_evidence_url IS NOT NEW.best_evidence_url
+  OR OLD.best_evidence_thumbnail IS NOT NEW.best_evidence_thumbnail
+  OR OLD.context_url IS NOT NEW.context_url
+BEGIN
+  INSERT INTO graph_changes (kind, entity_id, op) VALUES ('edge', NEW.id, 'upsert');
+  UPDATE edges SET version = last_insert_rowid() WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_edges_delete_version AFTER DELETE ON edges
+BEGIN
+  INSERT INTO graph_changes (kind, entity_id, op) VALUES ('edge', OLD.id, 'delete');
+END;
+
+-- New evidence changes an edge's evidence count
+CREATE TRIGGER IF NOT EXISTS trg_evidence_insert_version AFTER INSERT ON evidence
+BEGIN
+  INSERT INTO graph_changes (kind, entity_id, op) VALUES ('edge', NEW.edge_id, 'upsert');
+  UPDATE edges SET version = last_insert_rowid() WHERE id = NEW.edge_id;
+END;
+
+-- Recorded external responses of a run (record/replay cassettes)
+CREATE TABLE IF NOT EXISTS cassettes (
+  run_id TEXT PRIMARY KEY,
+  person_a TEXT NOT NULL,
+  person_b TEXT NOT NULL,
+  interactions INTEGER NOT NULL DEFAULT 0,
+  data TEXT NOT NULL,         -- JSON Cassette
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Rekognition analyses keyed by image content, reused across runs until they expire
+CREATE TABLE IF NOT EXISTS detection_cache (
+  content_hash TEXT PRIMARY KEY,  -- SHA-256 of the image bytes
+  image_url TEXT NOT NULL,        -- URL the image was first analyzed from
+  result TEXT NOT NULL,           -- JSON ImageAnalysisResult
+  created_at TEXT NOT NULL,       -- ISO-8601
+  expires_at TEXT NOT NULL        -- ISO-8601
+);
+
+-- Image search results keyed by search providers, mode and normalized query, reused across runs until they expire
+CREATE TABLE IF NOT EXISTS search_cache (
+  normalized_query TEXT PRIMARY KEY,  -- "<providers>:<mode>|<normalized query>"
+  query TEXT NOT NULL,            -- query as first searched
+  results TEXT NOT NULL,          -- JSON ImageSearchResult[]
+  created_at TEXT NOT NULL,       -- ISO-8601
+  expires_at TEXT NOT NULL        -- ISO-8601
+);
+
+-- Cached graph analytics (GET /api/graph/analytics), recomputed once the graph version moves on
+CREATE TABLE IF NOT EXISTS graph_analytics (
+  id INTEGER PRIMARY KEY CHECK (id = 1),  -- single row
+  version INTEGER NOT NULL,               -- graph version the analytics reflect
+  data TEXT NOT NULL,                     -- JSON GraphAnalytics
+  computed_at TEXT NOT NULL               -- ISO-8601
+);
+
+-- Investigation history: parameters, outcome and budget usage of every run
+CREATE TABLE IF NOT EXISTS runs (
+  run_id TEXT PRIMARY KEY,
+  instance_id TEXT,
+  person_a TEXT NOT NULL,
+  person_b TEXT NOT NULL,
+  preset TEXT,
+  config TEXT,                -- JSON EffectiveRunConfig
+  replay_of TEXT,
+  status TEXT NOT NULL DEFAULT 'running',  -- running | success | no_path | error | cancelled
+  started_at TEXT NOT NULL,   -- ISO-8601
+  completed_at TEXT,
+  duration_ms INTEGER,
+  steps_used INTEGER,
+  max_steps INTEGER,
+  subrequests_used INTEGER,
+  max_subrequests INTEGER,
+  hop_count INTEGER,
+  path_confidence REAL,
+  result TEXT,                -- JSON VerifiedPath (success only)
+  message TEXT,               -- no_path reason, error or cancel message
+  detection_cache_hits INTEGER,
+  detection_cache_misses INTEGER
+);
+-- Existing databases: ALTER TABLE runs ADD COLUMN detection_cache_hits INTEGER;
+--                     ALTER TABLE runs ADD COLUMN detection_cache_misses INTEGER;
+
+-- Indexes for listing and filtering runs
+CREATE INDEX IF NOT EXISTS idx_runs_started ON runs(started_at);
+CREATE INDEX IF NOT EXISTS idx_runs_status ON runs(status);
+
+-- Edges each run inserted or raised the confidence of
+CREATE TABLE IF NOT EXISTS run_edges (
+  run_id TEXT NOT NULL,
+  edge_id TEXT NOT NULL,
+  PRIMARY KEY (run_id, edge_id),
+  FOREIGN KEY (run_id) REFERENCES runs(run_id),
+  FOREIGN KEY (edge_id) REFERENCES edges(id)
+);
+
+-- Index for finding the runs that produced an edge
+CREATE INDEX IF NOT EXISTS idx_run_edges_edge ON run_edges(edge_id);
+
+-- Alternative names for people, mapped to their canonical name
+-- Feeds name matching in the workflow, path lookups and the query parser
+CREATE TABLE IF NOT EXISTS node_aliases (
+  normalized_alias TEXT PRIMARY KEY,
+  alias TEXT NOT NULL,
+  canonical_name TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Index for listing aliases of a person
+CREATE INDEX IF NOT EXISTS idx_node_aliases_canonical ON node_aliases(canonical_name);
+
+-- Well-known stage names and legal names
+INSERT OR IGNORE INTO node_aliases (normalized_alias, alias, canonical_name) VALUES
+  ('ye', 'ye', 'Kanye West'),
+  ('kanye', 'kanye', 'Kanye West'),
+  ('p. diddy', 'p. diddy', 'Sean Combs'),
+  ('puff daddy', 'puff daddy', 'Sean Combs'),
+  ('diddy', 'diddy', 'Sean Combs'),
+  ('puffy', 'puffy', 'Sean Combs'),
+  ('the rock', 'the rock', 'Dwayne Johnson'),
+  ('rock', 'rock', 'Dwayne Johnson'),
+  ('stefani germanotta', 'stefani germanotta', 'Lady Gaga'),
+  ('gaga', 'gaga', 'Lady Gaga'),
+  ('marshall mathers', 'marshall mathers', 'Eminem'),
+  ('slim shady', 'slim shady', 'Eminem'),
+  ('curtis jackson', 'curtis jackson', '50 Cent'),
+  ('50cent', '50cent', '50 Cent'),
+  ('fiddy', 'fiddy', '50 Cent'),
+  ('shawn carter', 'shawn carter', 'Jay-Z'),
+  ('jay z', 'jay z', 'Jay-Z'),
+  ('jayz', 'jayz', 'Jay-Z'),
+  ('hov', 'hov', 'Jay-Z'),
+  ('hova', 'hova', 'Jay-Z'),
+  ('beyonce knowles', 'beyoncé knowles', 'Beyoncé'),
+  ('queen bey', 'queen bey', 'Beyoncé'),
+  ('robyn fenty', 'robyn fenty', 'Rihanna'),
+  ('riri', 'riri', 'Rihanna'),
+  ('onika maraj', 'onika maraj', 'Nicki Minaj'),
+  ('nicki', 'nicki', 'Nicki Minaj'),
+  ('aubrey graham', 'aubrey graham', 'Drake'),
+  ('drizzy', 'drizzy', 'Drake'),
+  ('champagnepapi', 'champagnepapi', 'Drake'),
+  ('abel tesfaye', 'abel tesfaye', 'The Weeknd'),
+  ('weeknd', 'weeknd', 'The Weeknd'),
+  ('calvin broadus', 'calvin broadus', 'Snoop Dogg'),
+  ('cordozar broadus', 'cordozar broadus', 'Snoop Dogg'),
+  ('snoop', 'snoop', 'Snoop Dogg'),
+  ('snoop lion', 'snoop lion', 'Snoop Dogg'),
+  ('william adams', 'william adams', 'will.i.am'),
+  ('belcalis almanzar', 'belcalis almanzar', 'Cardi B'),
+  ('cardi', 'cardi', 'Cardi B'),
+  ('melissa jefferson', 'melissa jefferson', 'Lizzo'),
+  ('childish gambino', 'childish gambino', 'Donald Glover'),
+  ('gambino', 'gambino', 'Donald Glover'),
+  ('o''shea jackson', 'o''shea jackson', 'Ice Cube'),
+  ('cube', 'cube', 'Ice Cube'),
+  ('andre young', 'andre young', 'Dr. Dre'),
+  ('dr dre', 'dr dre', 'Dr. Dre'),
+  ('dre', 'dre', 'Dr. Dre'),
+  ('alicia cook', 'alicia cook', 'Alicia Keys'),
+  ('keys', 'keys', 'Alicia Keys'),
+  ('prince rogers nelson', 'prince rogers nelson', 'Prince'),
+  ('mj', 'mj', 'Michael Jackson'),
+  ('king of pop', 'king of pop', 'Michael Jackson'),
+  ('elvis', 'elvis', 'Elvis Presley'),
+  ('the king', 'the king', 'Elvis Presley'),
+  ('reginald dwight', 'reginald dwight', 'Elton John'),
+  ('elton', 'elton', 'Elton John'),
+  ('farrokh bulsara', 'farrokh bulsara', 'Freddie Mercury'),
+  ('freddie', 'freddie', 'Freddie Mercury'),
+  ('paul hewson', 'paul hewson', 'Bono'),
+  ('ziggy stardust', 'ziggy stardust', 'David Bowie'),
+  ('bowie', 'bowie', 'David Bowie');
@@ -1,4 +1,5 @@
 import { DurableObject } from "cloudflare:workers";
+import type { Env } from "../env";
 
 export interface GraphEdgeUpdate {
   source: string;
@@ -7,22 +8,50 @@ export interface GraphEdgeUpdate {
   evidenceUrl?: string;
   thumbnailUrl?: string;
   contextUrl?: string;
+  /** Graph version the change was stored at (see GET /api/graph?since=) */
+  version?: number;
 }
 
 interface WebSocketMessage {
-  type: "edge_update" | "ping" | "pong";
+  /** "resync": the requested cursor is older than the replay buffer, refetch the graph */
+  type: "edge_update" | "ping" | "pong" | "resync";
   data?: GraphEdgeUpdate;
+  /** Sequence number of the update, the cursor to resume after it is seq + 1 */
+  seq?: number;
+  /** Graph version of the change, for catching up with GET /api/graph?since= */
+  version?: number;
 }
 
+interface StoredUpdate {
+  edge: GraphEdgeUpdate;
+  seq: number;
+}
+
+/** Updates kept for replay to reconnecting clients */
+const REPLAY_BUFFER_SIZE = 500;
+
+/** DO storage writes and reads at most 128 keys per call */
+const STORAGE_BATCH_SIZE = 100;
+
 /**
  * GraphBroadcaster Durable Object
  *
  * Manages WebSocket connections for real-time graph updates.
  * When new edges are discovered during investigations, they are
- * broadcast to all connected clients immediately.
+ * broadcast to all connected clients immediately. Each update gets a
+ * sequence number and the last few hundred are kept, so a client that
+ * connects with ?cursor= receives what it missed.
  */
-export class GraphBroadcaster extends DurableObject {
+export class GraphBroadcaster extends DurableObject<Env> {
   private sessions: Set<WebSocket> = new Set();
+  private nextSeq: number = 0;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.ctx.blockConcurrencyWhile(async () => {
+      this.nextSeq = (await this.ctx.storage.get<number>("nextSeq")) ?? 0;
+    });
+  }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
@@ -36,6 +65,12 @@ export class GraphBroadcaster extends DurableObject {
       this.ctx.acceptWebSocket(server);
       this.sessions.add(server);
 
+      // Replay updates since the cursor (for reconnects)
+      const cursorParam = url.searchParams.get("cursor");
+      if (cursorParam !== null) {
+        await this.replay(server, parseInt(cursorParam, 10) || 0);
+      }
+
       // Handle incoming messages (for ping/pong keepalive)
       server.addEventListener("message", (event) => {
         try {
@@ -60,11 +95,11 @@ export class GraphBroadcaster extends DurableObject {
       return new Response(null, { status: 101, webSocket: client });
     }
 
-    // HTTP endpoint for broadcasting new edges (called by workflow)
+    // HTTP endpoint for broadcasting new edges (called by workflow, or with an array by graph import)
     if (url.pathname === "/broadcast" && request.method === "POST") {
       try {
-        const edge = (await request.json()) as GraphEdgeUpdate;
-        this.broadcast(edge);
+        const body = (await request.json()) as GraphEdgeUpdate | GraphEdgeUpdate[];
+        await this.broadcast(Array.isArray(body) ? body : [body]);
         return new Response(JSON.stringify({ success: true, clients: this.sessions.size }), {
           headers: { "Content-Type": "application/json" },
         });
@@ -79,7 +114,7 @@ export class GraphBroadcaster extends DurableObject {
     // Status endpoint
     if (url.pathname === "/status" && request.method === "GET") {
       return new Response(
-        JSON.stringify({ connectedClients: this.sessions.size }),
+        JSON.stringify({ connectedClients: this.sessions.size, nextSeq: this.nextSeq }),
         { headers: { "Content-Type": "application/json" } }
       );
     }
@@ -88,19 +123,31 @@ export class GraphBroadcaster extends DurableObject {
   }
 
   /**
-   * Broadcast an edge update to all connected WebSocket clients
+   * Number edge updates, keep them for replay and send them to all connected WebSocket clients
    */
-  private broadcast(edge: GraphEdgeUpdate): void {
-    const message = JSON.stringify({
-      type: "edge_update",
-      data: edge,
-    } satisfies WebSocketMessage);
+  private async broadcast(edges: GraphEdgeUpdate[]): Promise<void> {
+    const updates = edges.map(edge => ({ edge, seq: this.nextSeq++ }) satisfies StoredUpdate);
+
+    for (let i = 0; i < updates.length; i += STORAGE_BATCH_SIZE) {
+      const batch = updates.slice(i, i + STORAGE_BATCH_SIZE);
+      await this.ctx.storage.put(Object.fromEntries(batch.map(u => [`update:${u.seq}`, u])));
+      // Drop the updates that fell out of the replay window
+      await this.ctx.storage.delete(batch.map(u => `update:${u.seq - REPLAY_BUFFER_SIZE}`));
+    }
+    await this.ctx.storage.put("nextSeq", this.nextSeq);
 
     const deadSessions: WebSocket[] = [];
 
     for (const ws of this.sessions) {
       try {
-        ws.send(message);
+        for (const update of updates) {
+          ws.send(JSON.stringify({
+            type: "edge_update",
+            data: update.edge,
+            seq: update.seq,
+            version: update.edge.version,
+          } satisfies WebSocketMessage));
+        }
       } catch {
         // Connection is dead, mark for removal
         deadSessions.push(ws);
@@ -113,6 +160,40 @@ export class GraphBroadcaster extends DurableObject {
     }
   }
 
+  /**
+   * Send the buffered updates from a cursor onwards, or "resync" when some were already dropped
+   */
+  private async replay(ws: WebSocket, cursor: number): Promise<void> {
+    const oldest = Math.max(0, this.nextSeq - REPLAY_BUFFER_SIZE);
+    const from = Math.max(cursor, oldest);
+
+    try {
+      if (cursor < oldest) {
+        ws.send(JSON.stringify({ type: "resync", seq: oldest } satisfies WebSocketMessage));
+      }
+      for (let start = from; start < this.nextSeq; start += STORAGE_BATCH_SIZE) {
+        const keys: string[] = [];
+        for (let seq = start; seq < Math.min(this.nextSeq, start + STORAGE_BATCH_SIZE); seq++) {
+          keys.push(`update:${seq}`);
+        }
+        const stored = await this.ctx.storage.get<StoredUpdate>(keys);
+        for (const key of keys) {
+          const update = stored.get(key);
+          if (update) {
+            ws.send(JSON.stringify({
+              type: "edge_update",
+              data: update.edge,
+              seq: update.seq,
+              version: update.edge.version,
+            } satisfies WebSocketMessage));
+          }
+        }
+      }
+    } catch {
+      // Connection died during replay
+    }
+  }
+
   /**
    * Handle WebSocket hibernation (Cloudflare Durable Objects feature)
    * This is called when a WebSocket reconnects after hibernation
@@ -1,5 +1,5 @@
 import { DurableObject } from "cloudflare:workers";
-import type { InvestigationEvent } from "@visual-degrees/contracts";
+import type { InvestigationEvent, InvestigationBudgets } from "@visual-degrees/contracts";
 
 interface WebSocketMessage {
   type: "event" | "complete" | "ping" | "pong" | "replay";
@@ -13,6 +13,36 @@ interface StoredEvent {
   index: number;
 }
 
+/** An open Server-Sent Events response and the next event index it expects */
+interface SseClient {
+  writer: WritableStreamDefaultWriter<Uint8Array>;
+  nextIndex: number;
+  runId: string;
+  openedAt: number;
+  lastEventAt: number;
+}
+
+/** DO storage reads at most 128 keys per get(), so buffer pages stay below that */
+const MAX_PAGE_SIZE = 100;
+
+/** Comment line sent to idle SSE clients so proxies keep the connection open */
+const SSE_HEARTBEAT_MS = 25_000;
+
+/** Reconnect delay suggested to EventSource clients */
+const SSE_RETRY_MS = 2_000;
+
+/** SSE responses are closed after this long; EventSource reconnects and resumes */
+const SSE_MAX_DURATION_MS = 10 * 60 * 1000;
+
+/** Without a new event for this long the run is assumed dead (crashed, or never started) */
+const SSE_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+function isTerminalEvent(event: InvestigationEvent): boolean {
+  return event.type === "final" || event.type === "no_path" || event.type === "error" || event.type === "cancelled";
+}
+
 /**
  * InvestigationEventsBroadcaster Durable Object
  *
@@ -23,11 +53,17 @@ interface StoredEvent {
  * Features:
  * - Hibernatable WebSockets (DO can sleep while clients stay connected)
  * - Event buffering in DO storage for replay to late-joining clients
+ * - Cursor-paginated reads of the buffer and an SSE stream with Last-Event-ID
+ *   resume, for clients that cannot open a WebSocket
+ * - Cancellation: emits a "cancelled" event, closes sockets and drops late workflow events
  * - Automatic cleanup via alarm after investigation completes
  */
 export class InvestigationEventsBroadcaster extends DurableObject {
   private eventIndex: number = 0;
   private isComplete: boolean = false;
+  private isCancelled: boolean = false;
+  private sseClients = new Set<SseClient>();
+  private sseHeartbeat: ReturnType<typeof setInterval> | null = null;
 
   constructor(ctx: DurableObjectState, env: unknown) {
     super(ctx, env);
@@ -37,6 +73,8 @@ export class InvestigationEventsBroadcaster extends DurableObject {
       this.eventIndex = stored ?? 0;
       const complete = await this.ctx.storage.get<boolean>("isComplete");
       this.isComplete = complete ?? false;
+      const cancelled = await this.ctx.storage.get<boolean>("isCancelled");
+      this.isCancelled = cancelled ?? false;
     });
   }
 
@@ -53,6 +91,21 @@ export class InvestigationEventsBroadcaster extends DurableObject {
       return this.handleEmit(request);
     }
 
+    // POST /cancel - Stop the stream on user cancellation
+    if (url.pathname === "/cancel" && request.method === "POST") {
+      return this.handleCancel(request);
+    }
+
+    // GET /events?cursor=&limit= - Page through the buffered events
+    if (url.pathname === "/events" && request.method === "GET") {
+      return this.handleEvents(url);
+    }
+
+    // GET /sse?runId=&cursor= - Server-Sent Events stream (resumes from Last-Event-ID)
+    if (url.pathname === "/sse" && request.method === "GET") {
+      return this.handleSse(request, url);
+    }
+
     // GET /status - Check connection count and state
     if (url.pathname === "/status" && request.method === "GET") {
       return this.handleStatus();
@@ -83,39 +136,21 @@ export class InvestigationEventsBroadcaster extends DurableObject {
     try {
       const event = (await request.json()) as InvestigationEvent;
 
-      // Store event with sequential index
-      const index = this.eventIndex++;
-      await this.ctx.storage.put(`event:${index}`, { event, index } satisfies StoredEvent);
-      await this.ctx.storage.put("eventIndex", this.eventIndex);
-
-      // Check for completion events
-      if (event.type === "final" || event.type === "no_path" || event.type === "error") {
-        this.isComplete = true;
-        await this.ctx.storage.put("isComplete", true);
-        // Schedule cleanup after 1 hour
-        await this.ctx.storage.setAlarm(Date.now() + 3600 * 1000);
+      // Events still in flight from a terminated workflow are dropped
+      if (this.isCancelled) {
+        return Response.json({ success: false, cancelled: true });
       }
 
-      // Broadcast to all connected WebSockets
-      const message = JSON.stringify({
-        type: "event",
-        data: event,
-        index,
-      } satisfies WebSocketMessage);
-
-      const sockets = this.ctx.getWebSockets();
-      for (const ws of sockets) {
-        try {
-          ws.send(message);
-        } catch {
-          // Connection dead, will be cleaned up by hibernation handlers
-        }
+      if (event.data?.budget) {
+        await this.ctx.storage.put("budget", event.data.budget);
       }
 
+      const { index, clients } = await this.appendEvent(event);
+
       return Response.json({
         success: true,
         index,
-        clients: sockets.length,
+        clients,
       });
     } catch (error) {
       return Response.json(
@@ -125,11 +160,109 @@ export class InvestigationEventsBroadcaster extends DurableObject {
     }
   }
 
+  /**
+   * Emit a "cancelled" event and close all sockets.
+   * Returns the last reported budget usage so the caller can refund the unspent share.
+   */
+  private async handleCancel(request: Request): Promise<Response> {
+    const { runId, message } = (await request.json()) as { runId: string; message?: string };
+    const budget = await this.ctx.storage.get<InvestigationBudgets>("budget");
+
+    if (this.isComplete) {
+      return Response.json({ cancelled: false, alreadyComplete: true, budget: budget ?? null });
+    }
+
+    this.isCancelled = true;
+    await this.ctx.storage.put("isCancelled", true);
+
+    await this.appendEvent({
+      type: "cancelled",
+      runId,
+      timestamp: new Date().toISOString(),
+      message: message ?? "Investigation cancelled",
+      data: { eventId: `${runId}:cancelled`, budget },
+    });
+
+    // appendEvent already sent "complete"
+    for (const ws of this.ctx.getWebSockets()) {
+      try {
+        ws.close(1000, "Investigation cancelled");
+      } catch {
+        // Already closed
+      }
+    }
+
+    return Response.json({ cancelled: true, alreadyComplete: false, budget: budget ?? null });
+  }
+
+  /**
+   * Store an event with the next sequential index and broadcast it
+   */
+  private async appendEvent(event: InvestigationEvent): Promise<{ index: number; clients: number }> {
+    const index = this.eventIndex++;
+    await this.ctx.storage.put(`event:${index}`, { event, index } satisfies StoredEvent);
+    await this.ctx.storage.put("eventIndex", this.eventIndex);
+
+    // Check for completion events
+    if (isTerminalEvent(event)) {
+      this.isComplete = true;
+      await this.ctx.storage.put("isComplete", true);
+      // Schedule cleanup after 1 hour
+      await this.ctx.storage.setAlarm(Date.now() + 3600 * 1000);
+    }
+
+    // Broadcast to all connected WebSockets
+    const message = JSON.stringify({
+      type: "event",
+      data: event,
+      index,
+    } satisfies WebSocketMessage);
+
+    // A terminal event is followed by "complete", as on replay, so relays
+    // (StreamMultiplexer) release their upstream socket
+    const complete = JSON.stringify({ type: "complete" } satisfies WebSocketMessage);
+
+    const sockets = this.ctx.getWebSockets();
+    for (const ws of sockets) {
+      try {
+        ws.send(message);
+        if (isTerminalEvent(event)) ws.send(complete);
+      } catch {
+        // Connection dead, will be cleaned up by hibernation handlers
+      }
+    }
+
+    for (const client of this.sseClients) {
+      if (index >= client.nextIndex) {
+        this.writeSseEvent(client, { event, index });
+      }
+    }
+    if (this.isComplete) {
+      this.closeSseClients();
+    }
+
+    return { index, clients: sockets.length + this.sseClients.size };
+  }
+
+  /**
+   * Read up to `limit` buffered events starting at `fromCursor`, in index order
+   */
+  private async readEvents(fromCursor: number, limit: number): Promise<StoredEvent[]> {
+    const end = Math.min(this.eventIndex, fromCursor + limit);
+    if (fromCursor >= end) return [];
+
+    const keys: string[] = [];
+    for (let i = fromCursor; i < end; i++) {
+      keys.push(`event:${i}`);
+    }
+    const stored = await this.ctx.storage.get<StoredEvent>(keys);
+    return keys.map(key => stored.get(key)).filter((e): e is StoredEvent => e !== undefined);
+  }
+
   private async sendBufferedEvents(ws: WebSocket, fromCursor: number): Promise<void> {
     // Send all events from cursor to current index
-    for (let i = fromCursor; i < this.eventIndex; i++) {
-      const stored = await this.ctx.storage.get<StoredEvent>(`event:${i}`);
-      if (stored) {
+    for (let cursor = fromCursor; cursor < this.eventIndex; cursor += MAX_PAGE_SIZE) {
+      for (const stored of await this.readEvents(cursor, MAX_PAGE_SIZE)) {
         try {
           ws.send(
             JSON.stringify({
@@ -155,11 +288,140 @@ export class InvestigationEventsBroadcaster extends DurableObject {
     }
   }
 
+  /**
+   * One page of the buffer for polling clients.
+   * `cursor` is the index of the next event to request; `complete` is only set
+   * once the page reaches the end of a finished run.
+   */
+  private async handleEvents(url: URL): Promise<Response> {
+    const cursor = Math.max(0, parseInt(url.searchParams.get("cursor") ?? "0", 10) || 0);
+    const limitParam = parseInt(url.searchParams.get("limit") ?? "", 10);
+    const limit = limitParam > 0 ? Math.min(limitParam, MAX_PAGE_SIZE) : MAX_PAGE_SIZE;
+
+    const page = await this.readEvents(cursor, limit);
+    const next = Math.max(cursor, Math.min(this.eventIndex, cursor + limit));
+
+    return Response.json({
+      events: page.map(stored => stored.event),
+      cursor: next,
+      hasMore: next < this.eventIndex,
+      complete: this.isComplete && next >= this.eventIndex,
+    });
+  }
+
+  /**
+   * Stream events as Server-Sent Events.
+   * Each message carries its buffer index as the SSE id, so a reconnecting
+   * EventSource resumes after the Last-Event-ID it sends. The stream replays
+   * the buffer from there, follows live events and ends once the run completes,
+   * after SSE_MAX_DURATION_MS, or with a timeout error once no event arrived
+   * for SSE_IDLE_TIMEOUT_MS.
+   */
+  private async handleSse(request: Request, url: URL): Promise<Response> {
+    const lastEventId = parseInt(request.headers.get("Last-Event-ID") ?? "", 10);
+    const cursorParam = parseInt(url.searchParams.get("cursor") ?? "", 10);
+    const cursor = Number.isFinite(lastEventId) ? lastEventId + 1 : Math.max(0, cursorParam || 0);
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const now = Date.now();
+    const client: SseClient = {
+      writer: writable.getWriter(),
+      nextIndex: cursor,
+      runId: url.searchParams.get("runId") ?? "",
+      openedAt: now,
+      lastEventAt: now,
+    };
+
+    this.writeSse(client, `retry: ${SSE_RETRY_MS}\n\n`);
+
+    // Storage reads hold the input gate, so no /emit can slip in between the
+    // replay and registering the client
+    for (let from = cursor; from < this.eventIndex; from += MAX_PAGE_SIZE) {
+      for (const stored of await this.readEvents(from, MAX_PAGE_SIZE)) {
+        this.writeSseEvent(client, stored);
+      }
+    }
+
+    if (this.isComplete) {
+      this.closeSseClient(client);
+    } else {
+      this.sseClients.add(client);
+      this.sseHeartbeat ??= setInterval(() => this.checkSseClients(), SSE_HEARTBEAT_MS);
+    }
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
+    });
+  }
+
+  /**
+   * Heartbeat for open SSE clients, closing those past their time limits
+   */
+  private checkSseClients(): void {
+    const now = Date.now();
+    for (const client of this.sseClients) {
+      if (now - client.lastEventAt > SSE_IDLE_TIMEOUT_MS) {
+        // Not stored in the buffer - the run may still finish for other clients
+        const timeout: InvestigationEvent = {
+          type: "error",
+          runId: client.runId,
+          timestamp: new Date(now).toISOString(),
+          message: `No investigation events for ${SSE_IDLE_TIMEOUT_MS / 60_000} minutes`,
+          data: { category: "TIMEOUT" },
+        };
+        this.writeSse(client, `data: ${JSON.stringify(timeout)}\n\n`);
+        this.closeSseClient(client);
+      } else if (now - client.openedAt > SSE_MAX_DURATION_MS) {
+        this.closeSseClient(client);
+      } else {
+        this.writeSse(client, ": heartbeat\n\n");
+      }
+    }
+  }
+
+  private writeSseEvent(client: SseClient, stored: StoredEvent): void {
+    client.nextIndex = stored.index + 1;
+    client.lastEventAt = Date.now();
+    this.writeSse(client, `id: ${stored.index}\ndata: ${JSON.stringify(stored.event)}\n\n`);
+  }
+
+  private writeSse(client: SseClient, chunk: string): void {
+    // Writes are not awaited so a slow reader cannot stall the broadcast;
+    // a rejected write means the client went away
+    client.writer.write(encoder.encode(chunk)).catch(() => this.dropSseClient(client));
+  }
+
+  private closeSseClient(client: SseClient): void {
+    client.writer.close().catch(() => {
+      // Already closed
+    });
+    this.dropSseClient(client);
+  }
+
+  private closeSseClients(): void {
+    for (const client of this.sseClients) {
+      this.closeSseClient(client);
+    }
+  }
+
+  private dropSseClient(client: SseClient): void {
+    this.sseClients.delete(client);
+    if (this.sseClients.size === 0 && this.sseHeartbeat) {
+      clearInterval(this.sseHeartbeat);
+      this.sseHeartbeat = null;
+    }
+  }
+
   private handleStatus(): Response {
     return Response.json({
       eventIndex: this.eventIndex,
       isComplete: this.isComplete,
+      isCancelled: this.isCancelled,
       connectedClients: this.ctx.getWebSockets().length,
+      sseClients: this.sseClients.size,
     });
   }
 
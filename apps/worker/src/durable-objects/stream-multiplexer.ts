@@ -0,0 +1,296 @@
+import { DurableObject } from "cloudflare:workers";
+import type { InvestigationEvent } from "@visual-degrees/contracts";
+import type { Env } from "../env";
+import type { GraphEdgeUpdate } from "./graph-broadcaster";
+
+export type StreamTopic = "run" | "graph";
+
+/** Messages a client sends on the multiplexed socket */
+export interface StreamClientMessage {
+  type: "subscribe" | "unsubscribe" | "ping";
+  topic?: StreamTopic;
+  /** Run to follow, for the "run" topic */
+  runId?: string;
+  /** Where to resume: next event index for a run, next sequence number for the graph */
+  cursor?: number;
+}
+
+/** Messages the server sends on the multiplexed socket */
+export interface StreamServerMessage {
+  type: "subscribed" | "unsubscribed" | "event" | "complete" | "edge_update" | "resync" | "error" | "pong";
+  topic?: StreamTopic;
+  runId?: string;
+  data?: InvestigationEvent | GraphEdgeUpdate;
+  /** Buffer index of a run event */
+  index?: number;
+  /** Sequence number of a graph update */
+  seq?: number;
+  /** Graph version of a graph update */
+  version?: number;
+  /** Cursor the subscription resumes from */
+  cursor?: number;
+  message?: string;
+}
+
+/** Messages relayed from the upstream broadcasters */
+interface UpstreamMessage {
+  type: "event" | "complete" | "edge_update" | "resync" | "pong";
+  data?: InvestigationEvent | GraphEdgeUpdate;
+  index?: number;
+  seq?: number;
+  version?: number;
+}
+
+interface Subscription {
+  key: string;
+  topic: StreamTopic;
+  runId?: string;
+  /** Advanced with every relayed message, so a dropped upstream resumes where it left off */
+  cursor: number;
+  upstream: WebSocket | null;
+  active: boolean;
+}
+
+/** Each subscription holds an upstream socket, so a connection may only follow so many */
+const MAX_SUBSCRIPTIONS = 10;
+
+const UPSTREAM_RECONNECT_MS = 3000;
+
+const MAX_RUN_ID_LENGTH = 128;
+
+/**
+ * StreamMultiplexer Durable Object
+ *
+ * One instance per client connection (/api/ws). The client subscribes and
+ * unsubscribes to run event streams and to graph deltas over a single
+ * WebSocket; each subscription is relayed from its own upstream socket to the
+ * run's InvestigationEventsBroadcaster or to the GraphBroadcaster, tagged with
+ * its topic and runId.
+ *
+ * Subscriptions carry a cursor (event index for runs, sequence number for the
+ * graph) that starts replay from that point and moves with every relayed
+ * message, so upstream drops are healed without the client noticing.
+ * Upstream sockets keep the object awake; it does not hibernate.
+ */
+export class StreamMultiplexer extends DurableObject<Env> {
+  private client: WebSocket | null = null;
+  private subscriptions = new Map<string, Subscription>();
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.headers.get("Upgrade") !== "websocket") {
+      return new Response("Expected WebSocket", { status: 426 });
+    }
+
+    const pair = new WebSocketPair();
+    const [client, server] = Object.values(pair);
+
+    server.accept();
+    this.client = server;
+
+    server.addEventListener("message", (event) => {
+      void this.handleClientMessage(event.data as string);
+    });
+    server.addEventListener("close", () => this.closeAll());
+    server.addEventListener("error", () => this.closeAll());
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  private async handleClientMessage(raw: string): Promise<void> {
+    let message: StreamClientMessage;
+    try {
+      message = JSON.parse(raw) as StreamClientMessage;
+    } catch {
+      // Ignore malformed messages
+      return;
+    }
+
+    if (message.type === "ping") {
+      this.send({ type: "pong" });
+      return;
+    }
+
+    const key = this.subscriptionKey(message);
+    if (!key) {
+      this.send({
+        type: "error",
+        topic: message.topic,
+        runId: message.runId,
+        message: "Subscriptions need topic \"graph\", or topic \"run\" with a runId",
+      });
+      return;
+    }
+
+    if (message.type === "unsubscribe") {
+      this.unsubscribe(key);
+      this.send({ type: "unsubscribed", topic: message.topic, runId: message.runId });
+      return;
+    }
+
+    if (message.type === "subscribe") {
+      await this.subscribe(key, message);
+    }
+  }
+
+  private subscriptionKey(message: StreamClientMessage): string | null {
+    if (message.topic === "graph") {
+      return "graph";
+    }
+    if (
+      message.topic === "run" &&
+      typeof message.runId === "string" &&
+      message.runId.length > 0 &&
+      message.runId.length <= MAX_RUN_ID_LENGTH
+    ) {
+      return `run:${message.runId}`;
+    }
+    return null;
+  }
+
+  private async subscribe(key: string, message: StreamClientMessage): Promise<void> {
+    const cursor = typeof message.cursor === "number" && message.cursor >= 0 ? Math.floor(message.cursor) : undefined;
+
+    // Subscribing again moves the cursor: drop the old upstream and replay from the new point
+    if (this.subscriptions.has(key)) {
+      this.unsubscribe(key);
+    } else if (this.subscriptions.size >= MAX_SUBSCRIPTIONS) {
+      this.send({
+        type: "error",
+        topic: message.topic,
+        runId: message.runId,
+        message: `At most ${MAX_SUBSCRIPTIONS} subscriptions per connection`,
+      });
+      return;
+    }
+
+    const subscription: Subscription = {
+      key,
+      topic: message.topic!,
+      runId: message.topic === "run" ? message.runId : undefined,
+      // Runs replay from the start by default; the graph follows live updates only
+      cursor: cursor ?? (message.topic === "run" ? 0 : -1),
+      upstream: null,
+      active: true,
+    };
+    this.subscriptions.set(key, subscription);
+
+    this.send({
+      type: "subscribed",
+      topic: subscription.topic,
+      runId: subscription.runId,
+      cursor: subscription.cursor >= 0 ? subscription.cursor : undefined,
+    });
+    await this.connectUpstream(subscription);
+  }
+
+  private unsubscribe(key: string): void {
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) return;
+
+    subscription.active = false;
+    this.subscriptions.delete(key);
+    try {
+      subscription.upstream?.close(1000, "Unsubscribed");
+    } catch {
+      // Already closed
+    }
+  }
+
+  /**
+   * Open the upstream socket for a subscription, replaying from its cursor
+   */
+  private async connectUpstream(subscription: Subscription): Promise<void> {
+    const namespace = subscription.topic === "run"
+      ? this.env.INVESTIGATION_EVENTS_BROADCASTER
+      : this.env.GRAPH_BROADCASTER;
+    const stub = namespace.get(namespace.idFromName(subscription.runId ?? "global"));
+    const upstreamUrl = subscription.cursor >= 0
+      ? `https://internal/ws?cursor=${subscription.cursor}`
+      : "https://internal/ws";
+
+    let upstream: WebSocket | null = null;
+    try {
+      const response = await stub.fetch(upstreamUrl, { headers: { Upgrade: "websocket" } });
+      upstream = response.webSocket;
+    } catch (error) {
+      console.warn(`[StreamMultiplexer] Upstream ${subscription.key} failed:`, error instanceof Error ? error.message : error);
+    }
+
+    if (!subscription.active) {
+      upstream?.close(1000, "Unsubscribed");
+      return;
+    }
+    if (!upstream) {
+      this.scheduleReconnect(subscription);
+      return;
+    }
+
+    upstream.accept();
+    subscription.upstream = upstream;
+
+    upstream.addEventListener("message", (event) => {
+      this.relay(subscription, event.data as string);
+    });
+    upstream.addEventListener("close", () => {
+      if (subscription.upstream === upstream) {
+        subscription.upstream = null;
+        this.scheduleReconnect(subscription);
+      }
+    });
+  }
+
+  private scheduleReconnect(subscription: Subscription): void {
+    if (!subscription.active || !this.client) return;
+    setTimeout(() => {
+      if (subscription.active && !subscription.upstream) {
+        void this.connectUpstream(subscription);
+      }
+    }, UPSTREAM_RECONNECT_MS);
+  }
+
+  /**
+   * Forward an upstream message to the client, tagged with its subscription
+   */
+  private relay(subscription: Subscription, raw: string): void {
+    let message: UpstreamMessage;
+    try {
+      message = JSON.parse(raw) as UpstreamMessage;
+    } catch {
+      return;
+    }
+
+    const tag = { topic: subscription.topic, runId: subscription.runId };
+
+    if (message.type === "event" && typeof message.index === "number") {
+      // Replays after a reconnect can overlap what was already relayed
+      if (message.index < subscription.cursor) return;
+      subscription.cursor = message.index + 1;
+      this.send({ type: "event", ...tag, data: message.data, index: message.index });
+    } else if (message.type === "edge_update" && typeof message.seq === "number") {
+      if (message.seq < subscription.cursor) return;
+      subscription.cursor = message.seq + 1;
+      this.send({ type: "edge_update", ...tag, data: message.data, seq: message.seq, version: message.version });
+    } else if (message.type === "resync") {
+      this.send({ type: "resync", ...tag, seq: message.seq });
+    } else if (message.type === "complete") {
+      // A finished run has nothing more to send; the subscription ends with it
+      this.send({ type: "complete", ...tag, cursor: subscription.cursor });
+      this.unsubscribe(subscription.key);
+    }
+  }
+
+  private send(message: StreamServerMessage): void {
+    try {
+      this.client?.send(JSON.stringify(message));
+    } catch {
+      // Client went away; the close handler tears down the upstreams
+    }
+  }
+
+  private closeAll(): void {
+    this.client = null;
+    for (const key of [...this.subscriptions.keys()]) {
+      this.unsubscribe(key);
+    }
+  }
+}
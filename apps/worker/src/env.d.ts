@@ -7,11 +7,18 @@ export interface Env {
   GRAPH_DB: D1Database;
   GRAPH_BROADCASTER: DurableObjectNamespace;
   INVESTIGATION_EVENTS_BROADCASTER: DurableObjectNamespace;
+  STREAM_MULTIPLEXER: DurableObjectNamespace;
+  // Optional R2 bucket for fetched image bytes (in-memory stand-in if unbound)
+  IMAGE_BLOBS?: R2Bucket;
 
   // Environment variables
   AWS_REGION: string;
   GOOGLE_API_KEY: string;
   GOOGLE_CX: string;
+  // Additional image search providers (optional)
+  BING_API_KEY?: string;
+  BING_SEARCH_ENDPOINT?: string;
+  BRAVE_API_KEY?: string;
   AWS_ACCESS_KEY_ID: string;
   AWS_SECRET_ACCESS_KEY: string;
   // OpenRouter (Gemini 3 Flash)
@@ -24,6 +31,22 @@ export interface Env {
   ALLOWED_ORIGINS?: string;
   // Whitelisted IPs - comma-separated list (bypasses rate limit)
   WHITELISTED_IPS?: string;
+  // Bearer token for /api/admin/* endpoints (admin endpoints disabled if unset)
+  ADMIN_TOKEN?: string;
+  // Tool providers: "live" (default) or "fixture" (offline, deterministic fake images/detections)
+  TOOL_PROVIDER?: string;
+  // Image search providers in priority order: google (default), bing, brave, wikimedia (comma-separated)
+  SEARCH_PROVIDERS?: string;
+  // "failover" (default) tries providers in order; "fanout" queries all and merges results by URL
+  SEARCH_MODE?: string;
+  // Fixture search provider stubs that throw, to exercise failover (comma-separated)
+  FIXTURE_FAILING_SEARCH_PROVIDERS?: string;
+  // "record" saves every run's external responses as a replayable cassette in D1
+  CASSETTE_MODE?: string;
+  // Hours a cached Rekognition analysis is reused across runs (default 720, "0" disables the cache)
+  DETECTION_CACHE_TTL_HOURS?: string;
+  // Hours image search results are reused for the same normalized query (default 24, "0" disables the cache)
+  SEARCH_CACHE_TTL_HOURS?: string;
 }
 
 export default {};
@@ -0,0 +1,316 @@
+/**
+ * Graph analytics: centrality, connected components and separation statistics
+ * Computed over the whole graph (unweighted - one edge is one degree of
+ * separation) and cached in D1 with the graph version they reflect, so they
+ * are only recomputed after the graph changed. Computing them is too slow for
+ * a request, so requests only read the cache and refreshes run in the background.
+ */
+
+import { iterateNodes, getGraphVersion, GRAPH_PAGE_SIZE } from './graph-db';
+
+/** People kept in each ranking; the endpoint's `top` may ask for fewer */
+export const MAX_ANALYTICS_TOP = 50;
+export const DEFAULT_ANALYTICS_TOP = 10;
+
+/** Up to this many nodes, betweenness and path statistics are exact */
+const EXACT_ANALYTICS_MAX_NODES = 2000;
+
+/** BFS sources used to estimate them on larger graphs */
+const ANALYTICS_SAMPLE_SOURCES = 500;
+
+export interface CentralityEntry {
+  id: string;
+  name: string;
+  thumbnailUrl: string | null;
+  degree: number;
+  /** Degree divided by the most connections possible (n - 1) */
+  degreeCentrality: number;
+  /** Share of shortest paths between other people that pass through this person (0-1) */
+  betweenness: number;
+}
+
+export interface GraphAnalytics {
+  /** Graph version the analytics were computed at */
+  version: number;
+  computedAt: string;
+  nodeCount: number;
+  edgeCount: number;
+  components: {
+    count: number;
+    /** Component sizes, largest first */
+    sizes: number[];
+    /** Share of people in the largest component (1 = fully connected) */
+    largestShare: number;
+    /** People without any edge */
+    isolated: number;
+  };
+  /** Longest shortest path (in hops) within any component */
+  diameter: number;
+  /** Mean hops between connected pairs, null without any edge */
+  averageShortestPath: number | null;
+  /** Most connected people, by degree */
+  mostConnected: CentralityEntry[];
+  /** People most shortest paths run through, by betweenness */
+  topConnectors: CentralityEntry[];
+  /** Betweenness and path statistics were estimated from a sample of sources */
+  sampled: boolean;
+}
+
+export interface CachedGraphAnalytics extends GraphAnalytics {
+  /** The graph changed since the analytics were computed */
+  stale: boolean;
+}
+
+interface AnalyticsNode {
+  id: string;
+  name: string;
+  thumbnailUrl: string | null;
+}
+
+/**
+ * Load the graph as adjacency lists over node indexes
+ */
+async function loadGraph(db: D1Database): Promise<{ nodes: AnalyticsNode[]; adjacency: number[][]; edgeCount: number }> {
+  const nodes: AnalyticsNode[] = [];
+  const indexById = new Map<string, number>();
+  for await (const page of iterateNodes(db)) {
+    for (const node of page) {
+      indexById.set(node.id, nodes.length);
+      nodes.push({ id: node.id, name: node.name, thumbnailUrl: node.thumbnail_url });
+    }
+  }
+
+  const adjacency: number[][] = nodes.map(() => []);
+  const seen = new Set<string>();
+  let edgeCount = 0;
+  let after = '';
+  while (true) {
+    const page = await db.prepare('SELECT id, source_id, target_id FROM edges WHERE id > ? ORDER BY id LIMIT ?')
+      .bind(after, GRAPH_PAGE_SIZE)
+      .all<{ id: string; source_id: string; target_id: string }>();
+    if (page.results.length === 0) break;
+
+    for (const edge of page.results) {
+      const source = indexById.get(edge.source_id);
+      const target = indexById.get(edge.target_id);
+      if (source === undefined || target === undefined || source === target) continue;
+
+      const pair = source < target ? `${source}:${target}` : `${target}:${source}`;
+      if (seen.has(pair)) continue;
+      seen.add(pair);
+
+      adjacency[source].push(target);
+      adjacency[target].push(source);
+      edgeCount++;
+    }
+    after = page.results[page.results.length - 1].id;
+  }
+
+  return { nodes, adjacency, edgeCount };
+}
+
+/**
+ * Connected component sizes, largest first
+ */
+function componentSizes(adjacency: number[][]): number[] {
+  const visited = new Uint8Array(adjacency.length);
+  const sizes: number[] = [];
+
+  for (let start = 0; start < adjacency.length; start++) {
+    if (visited[start]) continue;
+    visited[start] = 1;
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      for (const next of adjacency[queue[head]]) {
+        if (!visited[next]) {
+          visited[next] = 1;
+          queue.push(next);
+        }
+      }
+    }
+    sizes.push(queue.length);
+  }
+
+  return sizes.sort((a, b) => b - a);
+}
+
+/**
+ * Brandes' betweenness centrality; its BFS runs also yield the path statistics
+ * Each source contributes both directions of its pairs, so raw scores count
+ * every unordered pair twice.
+ */
+function shortestPathStats(adjacency: number[][], sources: number[]): {
+  betweenness: Float64Array;
+  diameter: number;
+  pathSum: number;
+  pathCount: number;
+} {
+  const n = adjacency.length;
+  const betweenness = new Float64Array(n);
+  const sigma = new Float64Array(n);
+  const distance = new Int32Array(n);
+  const delta = new Float64Array(n);
+  const predecessors: number[][] = adjacency.map(() => []);
+  let diameter = 0;
+  let pathSum = 0;
+  let pathCount = 0;
+
+  for (const source of sources) {
+    sigma.fill(0);
+    distance.fill(-1);
+    delta.fill(0);
+    for (const list of predecessors) list.length = 0;
+
+    sigma[source] = 1;
+    distance[source] = 0;
+    const order = [source];
+    for (let head = 0; head < order.length; head++) {
+      const current = order[head];
+      for (const next of adjacency[current]) {
+        if (distance[next] < 0) {
+          distance[next] = distance[current] + 1;
+          order.push(next);
+        }
+        if (distance[next] === distance[current] + 1) {
+          sigma[next] += sigma[current];
+          predecessors[next].push(current);
+        }
+      }
+    }
+
+    for (let i = 1; i < order.length; i++) {
+      const d = distance[order[i]];
+      pathSum += d;
+      if (d > diameter) diameter = d;
+    }
+    pathCount += order.length - 1;
+
+    for (let i = order.length - 1; i > 0; i--) {
+      const node = order[i];
+      for (const previous of predecessors[node]) {
+        delta[previous] += (sigma[previous] / sigma[node]) * (1 + delta[node]);
+      }
+      betweenness[node] += delta[node];
+    }
+  }
+
+  return { betweenness, diameter, pathSum, pathCount };
+}
+
+/**
+ * Evenly spaced BFS sources, or every node on small graphs
+ */
+function pickSources(n: number): number[] {
+  if (n <= EXACT_ANALYTICS_MAX_NODES) {
+    return Array.from({ length: n }, (_, i) => i);
+  }
+  const step = n / ANALYTICS_SAMPLE_SOURCES;
+  return Array.from({ length: ANALYTICS_SAMPLE_SOURCES }, (_, i) => Math.floor(i * step));
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Compute analytics for the current graph
+ */
+export async function computeGraphAnalytics(db: D1Database): Promise<GraphAnalytics> {
+  const version = await getGraphVersion(db);
+  const { nodes, adjacency, edgeCount } = await loadGraph(db);
+  const n = nodes.length;
+
+  const sizes = componentSizes(adjacency);
+  const sources = pickSources(n);
+  const stats = shortestPathStats(adjacency, sources);
+
+  // Scale sampled sums up to all sources, then normalize by the (n-1)(n-2)
+  // ordered pairs that do not involve the node
+  const scale = sources.length > 0 ? n / sources.length : 0;
+  const pairs = (n - 1) * (n - 2);
+
+  const entries: CentralityEntry[] = nodes.map((node, i) => ({
+    id: node.id,
+    name: node.name,
+    thumbnailUrl: node.thumbnailUrl,
+    degree: adjacency[i].length,
+    degreeCentrality: n > 1 ? round(adjacency[i].length / (n - 1)) : 0,
+    betweenness: pairs > 0 ? round(Math.min(1, (stats.betweenness[i] * scale) / pairs)) : 0,
+  }));
+
+  const mostConnected = [...entries]
+    .sort((a, b) => b.degree - a.degree || b.betweenness - a.betweenness)
+    .slice(0, MAX_ANALYTICS_TOP);
+  const topConnectors = entries
+    .filter(entry => entry.betweenness > 0)
+    .sort((a, b) => b.betweenness - a.betweenness || b.degree - a.degree)
+    .slice(0, MAX_ANALYTICS_TOP);
+
+  return {
+    version,
+    computedAt: new Date().toISOString(),
+    nodeCount: n,
+    edgeCount,
+    components: {
+      count: sizes.length,
+      sizes,
+      largestShare: n > 0 ? round(sizes[0] / n) : 0,
+      isolated: adjacency.filter(list => list.length === 0).length,
+    },
+    diameter: stats.diameter,
+    averageShortestPath: stats.pathCount > 0 ? round(stats.pathSum / stats.pathCount, 2) : null,
+    mostConnected,
+    topConnectors,
+    sampled: sources.length < n,
+  };
+}
+
+async function getCachedAnalytics(db: D1Database): Promise<GraphAnalytics | null> {
+  const row = await db.prepare('SELECT data FROM graph_analytics WHERE id = 1')
+    .first<{ data: string }>();
+  return row ? JSON.parse(row.data) as GraphAnalytics : null;
+}
+
+async function cacheAnalytics(db: D1Database, analytics: GraphAnalytics): Promise<void> {
+  await db.prepare(`
+    INSERT INTO graph_analytics (id, version, data, computed_at)
+    VALUES (1, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      version = excluded.version,
+      data = excluded.data,
+      computed_at = excluded.computed_at
+  `).bind(analytics.version, JSON.stringify(analytics), analytics.computedAt).run();
+}
+
+/**
+ * Cached analytics, recomputed first if the graph changed since they were cached
+ * Edge upserts move the graph version, so the next call after one refreshes.
+ */
+export async function refreshGraphAnalytics(db: D1Database): Promise<GraphAnalytics> {
+  const [cached, version] = await Promise.all([getCachedAnalytics(db), getGraphVersion(db)]);
+  if (cached && cached.version === version) {
+    return cached;
+  }
+
+  const analytics = await computeGraphAnalytics(db);
+  await cacheAnalytics(db, analytics);
+  return analytics;
+}
+
+/**
+ * Cached analytics with the rankings cut to the top `top` people, or null if
+ * they were never computed. Never computes - see refreshGraphAnalytics.
+ */
+export async function getGraphAnalytics(db: D1Database, top: number = DEFAULT_ANALYTICS_TOP): Promise<CachedGraphAnalytics | null> {
+  const [analytics, version] = await Promise.all([getCachedAnalytics(db), getGraphVersion(db)]);
+  if (!analytics) {
+    return null;
+  }
+  return {
+    ...analytics,
+    mostConnected: analytics.mostConnected.slice(0, top),
+    topConnectors: analytics.topConnectors.slice(0, top),
+    stale: analytics.version !== version,
+  };
+}
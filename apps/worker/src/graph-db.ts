@@ -3,12 +3,39 @@
  * Handles storing and retrieving nodes and edges for the social graph
  */
 
+import { normalizeName as normalizeAliasName, isNearDuplicate } from '@visual-degrees/core';
+import type { Cassette } from '@visual-degrees/core';
+import type {
+  EvidenceRecord,
+  StoredEvidence,
+  EffectiveRunConfig,
+  ImageAnalysisResult,
+  ImageSearchResult,
+  InvestigationBudgets,
+  InvestigationRun,
+  InvestigationRunStatus,
+  InvestigationRunSummary,
+  VerifiedPath
+} from '@visual-degrees/contracts';
+
 export interface GraphNode {
   id: string;
   name: string;
   normalized_name: string;
   first_seen_at: string;
   thumbnail_url: string | null;
+  external_id: string | null;
+  external_urls: string | null;
+  /** Graph version of the last change (stamped by the schema triggers) */
+  version: number;
+}
+
+/**
+ * External identity of a person (Rekognition celebrity Id and reference URLs)
+ */
+export interface NodeIdentity {
+  externalId: string;
+  urls?: string[];
 }
 
 export interface GraphEdge {
@@ -20,10 +47,64 @@ export interface GraphEdge {
   best_evidence_url: string | null;
   best_evidence_thumbnail: string | null;
   context_url: string | null;
+  /** Graph version of the last change to the edge or its evidence */
+  version: number;
+}
+
+export interface UpsertedEdge extends GraphEdge {
+  /** The upsert inserted the edge or raised its confidence */
+  changed: boolean;
+}
+
+export interface EvidenceRow {
+  id: string;
+  edge_id: string;
+  image_url: string;
+  thumbnail_url: string | null;
+  context_url: string | null;
+  title: string | null;
+  image_score: number;
+  detected_celebs: string;
+  discovered_at: string;
+  perceptual_hash: string | null;
+}
+
+export interface RunRow {
+  run_id: string;
+  instance_id: string | null;
+  person_a: string;
+  person_b: string;
+  preset: string | null;
+  config: string | null;
+  replay_of: string | null;
+  status: InvestigationRunStatus;
+  started_at: string;
+  completed_at: string | null;
+  duration_ms: number | null;
+  steps_used: number | null;
+  max_steps: number | null;
+  subrequests_used: number | null;
+  max_subrequests: number | null;
+  hop_count: number | null;
+  path_confidence: number | null;
+  result: string | null;
+  message: string | null;
+  detection_cache_hits: number | null;
+  detection_cache_misses: number | null;
+}
+
+export interface NodeAliasRow {
+  normalized_alias: string;
+  alias: string;
+  canonical_name: string;
+  created_at: string;
 }
 
 /**
- * Normalize a person's name for consistent lookups
+ * Normalize a person's name for node IDs and lookups
+ * Only case and whitespace: diacritics and generational suffixes ("Jr.", "II")
+ * keep telling people apart. Alias keys use core's normalizeName instead, so
+ * the registry matches the same variants as the core name matcher.
  */
 export function normalizeName(name: string): string {
   return name
@@ -33,18 +114,32 @@ export function normalizeName(name: string): string {
 }
 
 /**
- * Generate a deterministic ID for a node based on normalized name
+ * Simple 32-bit string hash, base36 encoded
  */
-export function generateNodeId(name: string): string {
-  const normalized = normalizeName(name);
-  // Simple hash-like ID from name
+function hashString(value: string): string {
   let hash = 0;
-  for (let i = 0; i < normalized.length; i++) {
-    const char = normalized.charCodeAt(i);
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
     hash = ((hash << 5) - hash) + char;
     hash = hash & hash; // Convert to 32bit integer
   }
-  return `node_${Math.abs(hash).toString(36)}`;
+  return Math.abs(hash).toString(36);
+}
+
+/**
+ * Generate a deterministic ID for a node based on normalized name
+ */
+export function generateNodeId(name: string): string {
+  // Simple hash-like ID from name
+  return `node_${hashString(normalizeName(name))}`;
+}
+
+/**
+ * Generate a deterministic ID for a node keyed by its external identity
+ * Used when a different person already owns the name-based ID
+ */
+export function generateExternalNodeId(externalId: string): string {
+  return `node_x${hashString(externalId)}`;
 }
 
 /**
@@ -56,33 +151,99 @@ export function generateEdgeId(sourceId: string, targetId: string): string {
   return `edge_${first}_${second}`;
 }
 
+/**
+ * Generate a deterministic ID for an evidence image of an edge
+ */
+export function generateEvidenceId(edgeId: string, imageUrl: string): string {
+  return `ev_${hashString(edgeId)}_${hashString(imageUrl)}`;
+}
+
 /**
  * Upsert a node into the graph database
+ * Resolves by external identity first, so name variants of the same
+ * person ("Beyoncé", "Beyoncé Knowles") share one node
  */
 export async function upsertNode(
   db: D1Database,
   name: string,
-  thumbnailUrl?: string
+  thumbnailUrl?: string,
+  identity?: NodeIdentity
 ): Promise<GraphNode> {
-  const id = generateNodeId(name);
-  const normalizedName = normalizeName(name);
+  const externalUrls = identity?.urls?.length ? JSON.stringify(identity.urls) : null;
 
-  // Use INSERT OR REPLACE to upsert
-  await db.prepare(`
-    INSERT INTO nodes (id, name, normalized_name, thumbnail_url)
-    VALUES (?, ?, ?, ?)
-    ON CONFLICT(id) DO UPDATE SET
-      thumbnail_url = COALESCE(excluded.thumbnail_url, nodes.thumbnail_url)
-  `).bind(id, name, normalizedName, thumbnailUrl || null).run();
+  if (identity) {
+    const existing = await db.prepare('SELECT * FROM nodes WHERE external_id = ?')
+      .bind(identity.externalId)
+      .first<GraphNode>();
+
+    if (existing) {
+      await db.prepare(`
+        UPDATE nodes SET
+          thumbnail_url = COALESCE(?, thumbnail_url),
+          external_urls = COALESCE(?, external_urls)
+        WHERE id = ?
+      `).bind(thumbnailUrl || null, externalUrls, existing.id).run();
+
+      const result = await db.prepare('SELECT * FROM nodes WHERE id = ?').bind(existing.id).first<GraphNode>();
+      return result!;
+    }
+  }
+
+  // Resolve aliases and name variants to an existing node
+  const canonicalName = await resolveAliasName(db, name);
+  const byName = await findNodeByName(db, canonicalName);
+  let id = byName?.id ?? generateNodeId(canonicalName);
+  const normalizedName = normalizeName(canonicalName);
+
+  // Same name but a different external identity - a different person
+  if (identity && byName?.external_id && byName.external_id !== identity.externalId) {
+    id = generateExternalNodeId(identity.externalId);
+  }
+
+  await prepareNodeUpsert(db)
+    .bind(id, canonicalName, normalizedName, thumbnailUrl || null, identity?.externalId ?? null, externalUrls)
+    .run();
 
   // Fetch the node
   const result = await db.prepare('SELECT * FROM nodes WHERE id = ?').bind(id).first<GraphNode>();
   return result!;
 }
 
+/**
+ * Prepared insert for a node: (id, name, normalized_name, thumbnail_url, external_id, external_urls)
+ * Fills in a missing thumbnail and identity on an existing node.
+ */
+export function prepareNodeUpsert(db: D1Database): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO nodes (id, name, normalized_name, thumbnail_url, external_id, external_urls)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      thumbnail_url = COALESCE(excluded.thumbnail_url, nodes.thumbnail_url),
+      external_id = COALESCE(nodes.external_id, excluded.external_id),
+      external_urls = COALESCE(excluded.external_urls, nodes.external_urls)
+  `);
+}
+
+/**
+ * Prepared insert for an edge: (id, source_id, target_id, confidence, best_evidence_url,
+ * best_evidence_thumbnail, context_url), keeping the higher confidence and its evidence on conflict
+ */
+export function prepareEdgeUpsert(db: D1Database): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO edges (id, source_id, target_id, confidence, best_evidence_url, best_evidence_thumbnail, context_url)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      confidence = MAX(excluded.confidence, edges.confidence),
+      best_evidence_url = CASE WHEN excluded.confidence > edges.confidence THEN excluded.best_evidence_url ELSE edges.best_evidence_url END,
+      best_evidence_thumbnail = CASE WHEN excluded.confidence > edges.confidence THEN excluded.best_evidence_thumbnail ELSE edges.best_evidence_thumbnail END,
+      context_url = CASE WHEN excluded.confidence > edges.confidence THEN excluded.context_url ELSE edges.context_url END
+  `);
+}
+
 /**
  * Upsert an edge into the graph database
  * Updates confidence if new confidence is higher
+ * and stores every evidence image alongside the best one
  */
 export async function upsertEdge(
   db: D1Database,
@@ -91,24 +252,20 @@ export async function upsertEdge(
   confidence: number,
   bestEvidenceUrl?: string,
   bestEvidenceThumbnail?: string,
-  contextUrl?: string
-): Promise<GraphEdge> {
-  // Ensure both nodes exist
-  const sourceNode = await upsertNode(db, sourceName);
-  const targetNode = await upsertNode(db, targetName);
+  contextUrl?: string,
+  evidence: EvidenceRecord[] = []
+): Promise<UpsertedEdge> {
+  // Ensure both nodes exist, resolved by external identity when the evidence has one
+  const sourceNode = await upsertNode(db, sourceName, undefined, identityFromEvidence(evidence, sourceName));
+  const targetNode = await upsertNode(db, targetName, undefined, identityFromEvidence(evidence, targetName));
 
   const id = generateEdgeId(sourceNode.id, targetNode.id);
+  const previous = await db.prepare('SELECT confidence FROM edges WHERE id = ?')
+    .bind(id)
+    .first<{ confidence: number }>();
 
   // Upsert edge, keeping higher confidence
-  await db.prepare(`
-    INSERT INTO edges (id, source_id, target_id, confidence, best_evidence_url, best_evidence_thumbnail, context_url)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-    ON CONFLICT(id) DO UPDATE SET
-      confidence = MAX(excluded.confidence, edges.confidence),
-      best_evidence_url = CASE WHEN excluded.confidence > edges.confidence THEN excluded.best_evidence_url ELSE edges.best_evidence_url END,
-      best_evidence_thumbnail = CASE WHEN excluded.confidence > edges.confidence THEN excluded.best_evidence_thumbnail ELSE edges.best_evidence_thumbnail END,
-      context_url = CASE WHEN excluded.confidence > edges.confidence THEN excluded.context_url ELSE edges.context_url END
-  `).bind(
+  await prepareEdgeUpsert(db).bind(
     id,
     sourceNode.id,
     targetNode.id,
@@ -118,8 +275,246 @@ export async function upsertEdge(
     contextUrl || null
   ).run();
 
+  await upsertEvidence(db, id, evidence);
+
   const result = await db.prepare('SELECT * FROM edges WHERE id = ?').bind(id).first<GraphEdge>();
-  return result!;
+  return { ...result!, changed: !previous || confidence > previous.confidence };
+}
+
+/**
+ * Find a person's external identity in the evidence for one of their edges
+ */
+function identityFromEvidence(evidence: EvidenceRecord[], personName: string): NodeIdentity | undefined {
+  const normalized = normalizeName(personName);
+
+  for (const record of evidence) {
+    const externalId = normalizeName(record.from) === normalized ? record.fromExternalId
+      : normalizeName(record.to) === normalized ? record.toExternalId
+      : undefined;
+    if (!externalId) continue;
+
+    const celeb = record.detectedCelebs.find(c => c.externalId === externalId);
+    return { externalId, urls: celeb?.urls };
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a name to its canonical name using the alias registry
+ * Returns the name unchanged if it is not a known alias
+ */
+export async function resolveAliasName(db: D1Database, name: string): Promise<string> {
+  const alias = await db.prepare('SELECT canonical_name FROM node_aliases WHERE normalized_alias = ?')
+    .bind(normalizeAliasName(name))
+    .first<{ canonical_name: string }>();
+  return alias?.canonical_name ?? name;
+}
+
+/**
+ * Find a node by name, matching the derived ID or the normalized name
+ * (nodes keyed by external identity or stored under a name variant)
+ */
+async function findNodeByName(db: D1Database, name: string): Promise<GraphNode | null> {
+  return prepareFindNodeByName(db, name).first<GraphNode>();
+}
+
+function prepareFindNodeByName(db: D1Database, name: string): D1PreparedStatement {
+  const id = generateNodeId(name);
+  return db.prepare(
+    'SELECT * FROM nodes WHERE id = ? OR normalized_name = ? ORDER BY id = ? DESC LIMIT 1'
+  ).bind(id, normalizeName(name), id);
+}
+
+/**
+ * Resolve a person's name (or alias) to a node ID
+ */
+export async function resolveNodeId(db: D1Database, name: string): Promise<string> {
+  const canonicalName = await resolveAliasName(db, name);
+  const node = await findNodeByName(db, canonicalName);
+  return node?.id ?? generateNodeId(canonicalName);
+}
+
+export interface ResolvedNode {
+  /** Canonical name (aliases resolved) */
+  name: string;
+  /** ID of the existing node, or the ID a new node for the name gets */
+  id: string;
+  /** The existing node, null if the person is not in the graph yet */
+  node: GraphNode | null;
+}
+
+/**
+ * Resolve many names like resolveNodeId, in batched queries
+ * Keyed by the normalized name as given (before alias resolution).
+ */
+export async function resolveNodes(db: D1Database, names: string[]): Promise<Map<string, ResolvedNode>> {
+  // First spelling of each name wins, as it would when resolving one by one
+  const distinct = new Map<string, string>();
+  for (const name of names) {
+    if (!distinct.has(normalizeName(name))) distinct.set(normalizeName(name), name);
+  }
+  const aliasLookup = db.prepare('SELECT canonical_name FROM node_aliases WHERE normalized_alias = ?');
+  const resolved = new Map<string, ResolvedNode>();
+
+  for (const batch of chunk([...distinct.entries()], GRAPH_PAGE_SIZE)) {
+    const aliases = await db.batch<{ canonical_name: string }>(batch.map(([, name]) => aliasLookup.bind(normalizeAliasName(name))));
+    const canonicalNames = batch.map(([, name], i) => aliases[i].results[0]?.canonical_name ?? name);
+    const nodes = await db.batch<GraphNode>(canonicalNames.map(name => prepareFindNodeByName(db, name)));
+
+    batch.forEach(([normalized], i) => {
+      const node = nodes[i].results[0] ?? null;
+      resolved.set(normalized, { name: canonicalNames[i], id: node?.id ?? generateNodeId(canonicalNames[i]), node });
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Nodes with any of the given external identities, keyed by external ID
+ */
+export async function findNodesByExternalId(db: D1Database, externalIds: string[]): Promise<Map<string, GraphNode>> {
+  const nodes = new Map<string, GraphNode>();
+  for (const batch of chunk([...new Set(externalIds)], GRAPH_PAGE_SIZE)) {
+    const rows = await db.prepare(`SELECT * FROM nodes WHERE external_id IN (${batch.map(() => '?').join(', ')})`)
+      .bind(...batch)
+      .all<GraphNode>();
+    rows.results.forEach(node => nodes.set(node.external_id!, node));
+  }
+  return nodes;
+}
+
+/**
+ * Edges by ID (missing IDs are left out)
+ */
+export async function getEdgesById(db: D1Database, ids: string[]): Promise<Map<string, GraphEdge>> {
+  const edges = new Map<string, GraphEdge>();
+  for (const batch of chunk([...new Set(ids)], GRAPH_PAGE_SIZE)) {
+    const rows = await db.prepare(`SELECT * FROM edges WHERE id IN (${batch.map(() => '?').join(', ')})`)
+      .bind(...batch)
+      .all<GraphEdge>();
+    rows.results.forEach(edge => edges.set(edge.id, edge));
+  }
+  return edges;
+}
+
+/**
+ * Run prepared writes in batches (each batch is one D1 round trip and transaction)
+ */
+export async function batchWrites(db: D1Database, statements: D1PreparedStatement[]): Promise<void> {
+  for (const batch of chunk(statements, GRAPH_PAGE_SIZE)) {
+    await db.batch(batch);
+  }
+}
+
+/**
+ * Prepared insert for an evidence row, keeping the higher score on conflict
+ */
+function prepareEvidenceUpsert(db: D1Database): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO evidence (id, edge_id, image_url, thumbnail_url, context_url, title, image_score, detected_celebs, perceptual_hash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      image_score = MAX(excluded.image_score, evidence.image_score),
+      detected_celebs = CASE WHEN excluded.image_score > evidence.image_score THEN excluded.detected_celebs ELSE evidence.detected_celebs END,
+      perceptual_hash = COALESCE(evidence.perceptual_hash, excluded.perceptual_hash)
+  `);
+}
+
+/**
+ * Store evidence images for an edge
+ * Re-discovered images keep their original timestamp and the higher score.
+ * Near-duplicate copies of a stored photo (same perceptual hash within
+ * NEAR_DUPLICATE_DISTANCE) merge into its row, so rows count distinct photos.
+ */
+export async function upsertEvidence(
+  db: D1Database,
+  edgeId: string,
+  evidence: EvidenceRecord[]
+): Promise<void> {
+  if (evidence.length === 0) return;
+
+  const photos: Array<{ id: string; hash: string }> = [];
+  if (evidence.some(record => record.perceptualHash)) {
+    const stored = await db.prepare('SELECT id, perceptual_hash FROM evidence WHERE edge_id = ? AND perceptual_hash IS NOT NULL')
+      .bind(edgeId)
+      .all<{ id: string; perceptual_hash: string }>();
+    photos.push(...stored.results.map(row => ({ id: row.id, hash: row.perceptual_hash })));
+  }
+
+  const evidenceId = (record: EvidenceRecord): string => {
+    const id = generateEvidenceId(edgeId, record.imageUrl);
+    if (!record.perceptualHash) return id;
+
+    const copyOf = photos.find(photo => isNearDuplicate(photo.hash, record.perceptualHash!));
+    if (copyOf) return copyOf.id;
+    photos.push({ id, hash: record.perceptualHash });
+    return id;
+  };
+
+  const statement = prepareEvidenceUpsert(db);
+  await db.batch(evidence.map(record => statement.bind(
+    evidenceId(record),
+    edgeId,
+    record.imageUrl,
+    record.thumbnailUrl || null,
+    record.contextUrl || null,
+    record.title || null,
+    record.imageScore,
+    JSON.stringify(record.detectedCelebs),
+    record.perceptualHash ?? null
+  )));
+}
+
+/**
+ * Convert a database evidence row to its API shape
+ */
+function toStoredEvidence(row: EvidenceRow): StoredEvidence {
+  let detectedCelebs: StoredEvidence['detectedCelebs'] = [];
+  try {
+    detectedCelebs = JSON.parse(row.detected_celebs);
+  } catch {
+    // Malformed JSON - return the image without detections
+  }
+
+  return {
+    id: row.id,
+    edgeId: row.edge_id,
+    imageUrl: row.image_url,
+    thumbnailUrl: row.thumbnail_url ?? row.image_url,
+    contextUrl: row.context_url ?? '',
+    title: row.title ?? '',
+    imageScore: row.image_score,
+    detectedCelebs,
+    perceptualHash: row.perceptual_hash ?? null,
+    discoveredAt: row.discovered_at
+  };
+}
+
+/**
+ * Get all evidence images for an edge, best first
+ */
+export async function getEdgeEvidence(db: D1Database, edgeId: string): Promise<StoredEvidence[]> {
+  const result = await db.prepare(
+    'SELECT * FROM evidence WHERE edge_id = ? ORDER BY image_score DESC, discovered_at ASC'
+  ).bind(edgeId).all<EvidenceRow>();
+  return result.results.map(toStoredEvidence);
+}
+
+/**
+ * Get all evidence images for the edge between two people, best first
+ */
+export async function getEvidenceBetween(
+  db: D1Database,
+  fromName: string,
+  toName: string
+): Promise<StoredEvidence[]> {
+  const [fromId, toId] = await Promise.all([
+    resolveNodeId(db, fromName),
+    resolveNodeId(db, toName)
+  ]);
+  return getEdgeEvidence(db, generateEdgeId(fromId, toId));
 }
 
 /**
@@ -138,136 +533,539 @@ export async function getAllEdges(db: D1Database): Promise<GraphEdge[]> {
   return result.results;
 }
 
+/**
+ * A node as served to graph viewers
+ */
+export interface GraphNodePayload {
+  id: string;
+  name: string;
+  thumbnailUrl: string | null;
+  externalId: string | null;
+  externalUrls: string[];
+  version: number;
+}
+
+/**
+ * An edge as served to graph viewers
+ */
+export interface GraphEdgePayload {
+  id: string;
+  source: string;
+  target: string;
+  confidence: number;
+  evidenceUrl: string | null;
+  thumbnailUrl: string | null;
+  contextUrl: string | null;
+  evidenceCount: number;
+  version: number;
+}
+
+/**
+ * Changes to the graph after a version, for clients catching up
+ */
+export interface GraphChanges {
+  /** Version the changes start after */
+  since: number;
+  /** Current graph version - the `since` of the next catch-up */
+  version: number;
+  /** Nodes added or changed since then, in their current state */
+  nodes: GraphNodePayload[];
+  /** Edges added or changed since then, in their current state */
+  edges: GraphEdgePayload[];
+  removedNodeIds: string[];
+  removedEdgeIds: string[];
+}
+
+function toNodePayload(n: GraphNode): GraphNodePayload {
+  return {
+    id: n.id,
+    name: n.name,
+    thumbnailUrl: n.thumbnail_url,
+    externalId: n.external_id,
+    externalUrls: n.external_urls ? JSON.parse(n.external_urls) as string[] : [],
+    version: n.version
+  };
+}
+
+function toEdgePayload(e: GraphEdge, countByEdge: Map<string, number>): GraphEdgePayload {
+  return {
+    id: e.id,
+    source: e.source_id,
+    target: e.target_id,
+    confidence: e.confidence,
+    evidenceUrl: e.best_evidence_url,
+    thumbnailUrl: e.best_evidence_thumbnail,
+    contextUrl: e.context_url,
+    // Edges stored before per-image evidence still have their best image
+    evidenceCount: countByEdge.get(e.id) ?? (e.best_evidence_url ? 1 : 0),
+    version: e.version
+  };
+}
+
+const GRAPH_VERSION_QUERY = 'SELECT COALESCE(MAX(version), 0) as version FROM graph_changes';
+
+/**
+ * Current graph version (0 for a graph that has never changed)
+ */
+export async function getGraphVersion(db: D1Database): Promise<number> {
+  const row = await db.prepare(GRAPH_VERSION_QUERY).first<{ version: number }>();
+  return row?.version ?? 0;
+}
+
 /**
  * Get the full graph (nodes and edges) for visualization
+ * Read in one batch so `version` matches the rows exactly.
  */
 export async function getFullGraph(db: D1Database): Promise<{
-  nodes: Array<{
-    id: string;
-    name: string;
-    thumbnailUrl: string | null;
-  }>;
-  edges: Array<{
-    id: string;
-    source: string;
-    target: string;
-    confidence: number;
-    evidenceUrl: string | null;
-    thumbnailUrl: string | null;
-    contextUrl: string | null;
-  }>;
+  version: number;
+  nodes: GraphNodePayload[];
+  edges: GraphEdgePayload[];
 }> {
-  const [nodesResult, edgesResult] = await Promise.all([
-    getAllNodes(db),
-    getAllEdges(db)
+  const [versionResult, nodesResult, edgesResult, evidenceCounts] = await db.batch([
+    db.prepare(GRAPH_VERSION_QUERY),
+    db.prepare('SELECT * FROM nodes ORDER BY first_seen_at DESC'),
+    db.prepare('SELECT * FROM edges ORDER BY discovered_at DESC'),
+    db.prepare('SELECT edge_id, COUNT(*) as count FROM evidence GROUP BY edge_id')
   ]);
 
+  const countByEdge = new Map(
+    (evidenceCounts.results as Array<{ edge_id: string; count: number }>).map(row => [row.edge_id, row.count])
+  );
+
   return {
-    nodes: nodesResult.map(n => ({
-      id: n.id,
-      name: n.name,
-      thumbnailUrl: n.thumbnail_url
-    })),
-    edges: edgesResult.map(e => ({
-      id: e.id,
-      source: e.source_id,
-      target: e.target_id,
-      confidence: e.confidence,
-      evidenceUrl: e.best_evidence_url,
-      thumbnailUrl: e.best_evidence_thumbnail,
-      contextUrl: e.context_url
-    }))
+    version: (versionResult.results[0] as { version: number } | undefined)?.version ?? 0,
+    nodes: (nodesResult.results as GraphNode[]).map(toNodePayload),
+    edges: (edgesResult.results as GraphEdge[]).map(e => toEdgePayload(e, countByEdge))
   };
 }
 
 /**
- * Get graph statistics
+ * Get everything that changed after a graph version
+ * Nodes and edges come in their current state, however often they changed;
+ * ids deleted since then (and not re-created) are listed separately.
  */
-export async function getGraphStats(db: D1Database): Promise<{
-  nodeCount: number;
-  edgeCount: number;
-  avgConfidence: number;
-}> {
-  const [nodeCount, edgeStats] = await Promise.all([
-    db.prepare('SELECT COUNT(*) as count FROM nodes').first<{ count: number }>(),
-    db.prepare('SELECT COUNT(*) as count, AVG(confidence) as avg FROM edges').first<{ count: number; avg: number | null }>()
+export async function getGraphChanges(db: D1Database, since: number): Promise<GraphChanges> {
+  const removedSince = (kind: 'node' | 'edge', table: 'nodes' | 'edges') => db.prepare(`
+    SELECT DISTINCT entity_id FROM graph_changes
+    WHERE version > ? AND kind = ? AND op = 'delete'
+      AND entity_id NOT IN (SELECT id FROM ${table})
+  `).bind(since, kind);
+
+  const [versionResult, nodesResult, edgesResult, evidenceCounts, removedNodes, removedEdges] = await db.batch([
+    db.prepare(GRAPH_VERSION_QUERY),
+    db.prepare('SELECT * FROM nodes WHERE version > ? ORDER BY version').bind(since),
+    db.prepare('SELECT * FROM edges WHERE version > ? ORDER BY version').bind(since),
+    db.prepare(`
+      SELECT edge_id, COUNT(*) as count FROM evidence
+      WHERE edge_id IN (SELECT id FROM edges WHERE version > ?)
+      GROUP BY edge_id
+    `).bind(since),
+    removedSince('node', 'nodes'),
+    removedSince('edge', 'edges')
   ]);
 
+  const countByEdge = new Map(
+    (evidenceCounts.results as Array<{ edge_id: string; count: number }>).map(row => [row.edge_id, row.count])
+  );
+
   return {
-    nodeCount: nodeCount?.count || 0,
-    edgeCount: edgeStats?.count || 0,
-    avgConfidence: Math.round(edgeStats?.avg || 0)
+    since,
+    version: (versionResult.results[0] as { version: number } | undefined)?.version ?? 0,
+    nodes: (nodesResult.results as GraphNode[]).map(toNodePayload),
+    edges: (edgesResult.results as GraphEdge[]).map(e => toEdgePayload(e, countByEdge)),
+    removedNodeIds: (removedNodes.results as Array<{ entity_id: string }>).map(row => row.entity_id),
+    removedEdgeIds: (removedEdges.results as Array<{ entity_id: string }>).map(row => row.entity_id)
   };
 }
 
+/** Default and maximum hops around the center of a neighborhood */
+export const DEFAULT_NEIGHBORHOOD_DEPTH = 1;
+export const MAX_NEIGHBORHOOD_DEPTH = 3;
+
+/** Default and maximum nodes in a neighborhood or subgraph response */
+export const DEFAULT_SUBGRAPH_LIMIT = 150;
+export const MAX_SUBGRAPH_LIMIT = 500;
+
+/** Most people a subgraph query may name */
+export const MAX_SUBGRAPH_NODES = 100;
+
+/** Node ids per edge query - each id is bound twice, plus the confidence filter */
+const EDGE_QUERY_CHUNK = 49;
+
 /**
- * Path step with edge evidence
+ * Filters for neighborhood and subgraph queries
  */
-export interface PathStep {
-  from: string;
-  fromName: string;
-  to: string;
-  toName: string;
-  confidence: number;
-  evidenceUrl: string | null;
-  thumbnailUrl: string | null;
-  contextUrl: string | null;
+export interface SubgraphOptions {
+  /** Maximum number of nodes returned */
+  limit?: number;
+  /** Only follow and return edges at or above this confidence (0-100) */
+  minConfidence?: number;
 }
 
 /**
- * Result of a path search
+ * Part of the graph, in the GET /api/graph shape
  */
-export interface PathResult {
-  found: boolean;
-  path: string[];  // Node names in order
-  pathIds: string[];  // Node IDs in order
-  steps: PathStep[];  // Edge details for each hop
-  hops: number;
-  minConfidence: number;  // Bottleneck confidence
+export interface Subgraph {
+  /** Graph version when the query started - catch up with GET /api/graph?since= */
+  version: number;
+  nodes: Array<GraphNodePayload & { depth?: number }>;
+  edges: GraphEdgePayload[];
+  /** Whether nodes were left out to stay within the limit */
+  truncated: boolean;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
 }
 
 /**
- * Find the shortest path between two people using BFS
- * Returns the path with all evidence for each hop
+ * Edges touching any of the given nodes, strongest first
  */
-export async function findPath(
+async function edgesTouching(db: D1Database, ids: string[], minConfidence: number): Promise<GraphEdge[]> {
+  const results = await Promise.all(chunk(ids, EDGE_QUERY_CHUNK).map(async batch => {
+    const placeholders = batch.map(() => '?').join(', ');
+    const result = await db.prepare(`
+      SELECT * FROM edges
+      WHERE (source_id IN (${placeholders}) OR target_id IN (${placeholders})) AND confidence >= ?
+    `).bind(...batch, ...batch, minConfidence).all<GraphEdge>();
+    return result.results;
+  }));
+
+  const byId = new Map<string, GraphEdge>();
+  for (const edge of results.flat()) {
+    byId.set(edge.id, edge);
+  }
+  return [...byId.values()].sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Load the given nodes and the edges among them as a subgraph payload
+ */
+async function buildSubgraph(
   db: D1Database,
-  fromName: string,
-  toName: string
-): Promise<PathResult> {
-  const fromId = generateNodeId(fromName);
-  const toId = generateNodeId(toName);
+  version: number,
+  depths: Map<string, number | undefined>,
+  edges: GraphEdge[],
+  truncated: boolean
+): Promise<Subgraph> {
+  const ids = [...depths.keys()];
+  const induced = edges.filter(e => depths.has(e.source_id) && depths.has(e.target_id));
 
-  // Check if both nodes exist
-  const [fromNode, toNode] = await Promise.all([
-    db.prepare('SELECT * FROM nodes WHERE id = ?').bind(fromId).first<GraphNode>(),
-    db.prepare('SELECT * FROM nodes WHERE id = ?').bind(toId).first<GraphNode>()
+  const [nodeRows, countRows] = await Promise.all([
+    Promise.all(chunk(ids, GRAPH_PAGE_SIZE).map(batch =>
+      db.prepare(`SELECT * FROM nodes WHERE id IN (${batch.map(() => '?').join(', ')})`)
+        .bind(...batch)
+        .all<GraphNode>()
+    )),
+    Promise.all(chunk(induced.map(e => e.id), GRAPH_PAGE_SIZE).map(batch =>
+      db.prepare(`SELECT edge_id, COUNT(*) as count FROM evidence WHERE edge_id IN (${batch.map(() => '?').join(', ')}) GROUP BY edge_id`)
+        .bind(...batch)
+        .all<{ edge_id: string; count: number }>()
+    ))
   ]);
 
-  if (!fromNode || !toNode) {
-    return {
-      found: false,
-      path: [],
-      pathIds: [],
-      steps: [],
-      hops: 0,
-      minConfidence: 0
-    };
-  }
+  const countByEdge = new Map(countRows.flatMap(r => r.results).map(row => [row.edge_id, row.count]));
+  const nodes = nodeRows
+    .flatMap(r => r.results)
+    .map(n => ({ ...toNodePayload(n), depth: depths.get(n.id) }))
+    .sort((a, b) => (a.depth ?? 0) - (b.depth ?? 0));
 
-  // If same person, return trivial path
-  if (fromId === toId) {
-    return {
-      found: true,
-      path: [fromNode.name],
-      pathIds: [fromId],
-      steps: [],
-      hops: 0,
-      minConfidence: 100
-    };
+  return {
+    version,
+    nodes,
+    edges: induced.map(e => toEdgePayload(e, countByEdge)),
+    truncated
+  };
+}
+
+function resolveLimit(limit: number | undefined): number {
+  return Math.min(Math.max(1, Math.floor(limit ?? DEFAULT_SUBGRAPH_LIMIT)), MAX_SUBGRAPH_LIMIT);
+}
+
+/**
+ * People within `depth` hops of a person, and the edges among them
+ * Expands breadth-first along the strongest edges, so when the node limit
+ * cuts a ring short the best-connected neighbors are kept. Nodes carry their
+ * hop distance as `depth`. Returns null if the person is not in the graph.
+ */
+export async function getNeighborhood(
+  db: D1Database,
+  name: string,
+  depth: number = DEFAULT_NEIGHBORHOOD_DEPTH,
+  options: SubgraphOptions = {}
+): Promise<(Subgraph & { center: string }) | null> {
+  const limit = resolveLimit(options.limit);
+  const minConfidence = options.minConfidence ?? 0;
+  const maxDepth = Math.min(Math.max(0, Math.floor(depth)), MAX_NEIGHBORHOOD_DEPTH);
+
+  const version = await getGraphVersion(db);
+  const centerId = await resolveNodeId(db, name);
+  const center = await db.prepare('SELECT id FROM nodes WHERE id = ?').bind(centerId).first<{ id: string }>();
+  if (!center) {
+    return null;
+  }
+
+  const depths = new Map<string, number | undefined>([[centerId, 0]]);
+  const edges = new Map<string, GraphEdge>();
+  let frontier = [centerId];
+  let truncated = false;
+
+  // One extra round after the last ring picks up edges among its members
+  for (let hop = 1; hop <= maxDepth + 1 && frontier.length > 0; hop++) {
+    const touching = await edgesTouching(db, frontier, minConfidence);
+    const next: string[] = [];
+
+    for (const edge of touching) {
+      edges.set(edge.id, edge);
+      if (hop > maxDepth) continue;
+
+      for (const id of [edge.source_id, edge.target_id]) {
+        if (depths.has(id)) continue;
+        if (depths.size >= limit) {
+          truncated = true;
+          continue;
+        }
+        depths.set(id, hop);
+        next.push(id);
+      }
+    }
+    frontier = next;
+  }
+
+  const subgraph = await buildSubgraph(db, version, depths, [...edges.values()], truncated);
+  return { ...subgraph, center: centerId };
+}
+
+/**
+ * The named people and the edges among them (an induced subgraph)
+ * Names resolve like path lookups (aliases, name variants); names that match
+ * no one are returned in `missing`.
+ */
+export async function getSubgraph(
+  db: D1Database,
+  names: string[],
+  options: SubgraphOptions = {}
+): Promise<Subgraph & { missing: string[] }> {
+  const limit = resolveLimit(options.limit);
+  const minConfidence = options.minConfidence ?? 0;
+
+  const version = await getGraphVersion(db);
+  const resolved = await resolveNodes(db, names);
+  const nodeOf = (name: string) => resolved.get(normalizeName(name))?.node ?? null;
+
+  const found = [...new Set(names.flatMap(name => nodeOf(name)?.id ?? []))];
+  const missing = names.filter(name => !nodeOf(name));
+  const kept = found.slice(0, limit);
+
+  const depths = new Map<string, number | undefined>(kept.map(id => [id, undefined]));
+  const edges = await edgesTouching(db, kept, minConfidence);
+  const subgraph = await buildSubgraph(db, version, depths, edges, found.length > kept.length);
+  return { ...subgraph, missing };
+}
+
+/** Rows read per D1 query when paging through the graph (D1 binds at most 100 parameters) */
+export const GRAPH_PAGE_SIZE = 100;
+
+/**
+ * Page through all nodes in id order (keyset pagination keeps memory flat)
+ */
+export async function* iterateNodes(
+  db: D1Database,
+  pageSize: number = GRAPH_PAGE_SIZE
+): AsyncGenerator<GraphNode[]> {
+  let after = '';
+  while (true) {
+    const page = await db.prepare('SELECT * FROM nodes WHERE id > ? ORDER BY id LIMIT ?')
+      .bind(after, pageSize)
+      .all<GraphNode>();
+    if (page.results.length === 0) return;
+    yield page.results;
+    if (page.results.length < pageSize) return;
+    after = page.results[page.results.length - 1].id;
+  }
+}
+
+/**
+ * An edge with its endpoint names and every stored evidence image URL
+ */
+export type ExportEdge = GraphEdge & {
+  source_name: string;
+  target_name: string;
+  evidence_urls: string[];
+};
+
+/**
+ * Page through all edges in id order, with endpoint names and evidence URLs
+ */
+export async function* iterateEdges(
+  db: D1Database,
+  pageSize: number = GRAPH_PAGE_SIZE
+): AsyncGenerator<ExportEdge[]> {
+  let after = '';
+  while (true) {
+    const page = await db.prepare(`
+      SELECT e.*, s.name AS source_name, t.name AS target_name
+      FROM edges e
+      JOIN nodes s ON s.id = e.source_id
+      JOIN nodes t ON t.id = e.target_id
+      WHERE e.id > ?
+      ORDER BY e.id
+      LIMIT ?
+    `).bind(after, pageSize).all<EdgeWithNames>();
+    if (page.results.length === 0) return;
+
+    const ids = page.results.map(e => e.id);
+    const evidence = await db.prepare(`
+      SELECT edge_id, image_url FROM evidence
+      WHERE edge_id IN (${ids.map(() => '?').join(', ')})
+      ORDER BY image_score DESC
+    `).bind(...ids).all<{ edge_id: string; image_url: string }>();
+
+    const urlsByEdge = new Map<string, string[]>();
+    for (const row of evidence.results) {
+      const urls = urlsByEdge.get(row.edge_id) ?? [];
+      urls.push(row.image_url);
+      urlsByEdge.set(row.edge_id, urls);
+    }
+
+    yield page.results.map(edge => ({
+      ...edge,
+      // Edges stored before per-image evidence still have their best image
+      evidence_urls: urlsByEdge.get(edge.id) ?? (edge.best_evidence_url ? [edge.best_evidence_url] : [])
+    }));
+    if (page.results.length < pageSize) return;
+    after = page.results[page.results.length - 1].id;
+  }
+}
+
+/**
+ * Get graph statistics
+ */
+export async function getGraphStats(db: D1Database): Promise<{
+  nodeCount: number;
+  edgeCount: number;
+  avgConfidence: number;
+}> {
+  const [nodeCount, edgeStats] = await Promise.all([
+    db.prepare('SELECT COUNT(*) as count FROM nodes').first<{ count: number }>(),
+    db.prepare('SELECT COUNT(*) as count, AVG(confidence) as avg FROM edges').first<{ count: number; avg: number | null }>()
+  ]);
+
+  return {
+    nodeCount: nodeCount?.count || 0,
+    edgeCount: edgeStats?.count || 0,
+    avgConfidence: Math.round(edgeStats?.avg || 0)
+  };
+}
+
+/**
+ * Path step with edge evidence
+ */
+export interface PathStep {
+  from: string;
+  fromName: string;
+  to: string;
+  toName: string;
+  confidence: number;
+  evidenceUrl: string | null;
+  thumbnailUrl: string | null;
+  contextUrl: string | null;
+}
+
+/**
+ * Result of a path search
+ */
+export interface PathResult {
+  found: boolean;
+  path: string[];  // Node names in order
+  pathIds: string[];  // Node IDs in order
+  steps: PathStep[];  // Edge details for each hop
+  hops: number;
+  minConfidence: number;  // Bottleneck confidence
+  cumulativeConfidence: number;  // Product of (confidence / 100) across hops, 0-1
+  alternatives?: PathResult[];  // k-shortest mode: every alternative, best first
+}
+
+/**
+ * Find a stored edge directly connecting two people
+ * Returns null if either person or the edge is not in the graph
+ */
+export async function findEdge(
+  db: D1Database,
+  fromName: string,
+  toName: string,
+  minConfidence: number = 0
+): Promise<PathStep | null> {
+  const [fromId, toId] = await Promise.all([
+    resolveNodeId(db, fromName),
+    resolveNodeId(db, toName)
+  ]);
+
+  if (fromId === toId) {
+    return null;
+  }
+
+  const edge = await db.prepare(`
+    SELECT e.*,
+           n1.name as source_name,
+           n2.name as target_name
+    FROM edges e
+    JOIN nodes n1 ON e.source_id = n1.id
+    JOIN nodes n2 ON e.target_id = n2.id
+    WHERE e.id = ? AND e.confidence >= ?
+  `).bind(generateEdgeId(fromId, toId), minConfidence).first<GraphEdge & { source_name: string; target_name: string }>();
+
+  if (!edge) {
+    return null;
   }
 
-  // Get all edges for BFS
+  // Orient the step in the requested direction (edges are undirected)
+  const forward = edge.source_id === fromId;
+  return {
+    from: fromId,
+    fromName: forward ? edge.source_name : edge.target_name,
+    to: toId,
+    toName: forward ? edge.target_name : edge.source_name,
+    confidence: edge.confidence,
+    evidenceUrl: edge.best_evidence_url,
+    thumbnailUrl: edge.best_evidence_thumbnail,
+    contextUrl: edge.context_url
+  };
+}
+
+/**
+ * Path search modes
+ * - shortest: fewest hops (BFS)
+ * - widest: maximize the bottleneck (minimum) edge confidence
+ * - reliable: maximize the cumulative product of edge confidences
+ * - k-shortest: up to k loopless fewest-hop alternatives (Yen's algorithm)
+ */
+export type PathMode = 'shortest' | 'widest' | 'reliable' | 'k-shortest';
+
+export const PATH_MODES: PathMode[] = ['shortest', 'widest', 'reliable', 'k-shortest'];
+
+/** Default and maximum number of alternatives in k-shortest mode */
+export const DEFAULT_PATH_ALTERNATIVES = 3;
+export const MAX_PATH_ALTERNATIVES = 10;
+
+type EdgeWithNames = GraphEdge & { source_name: string; target_name: string };
+
+/**
+ * In-memory adjacency list of the graph for path searches
+ */
+interface GraphIndex {
+  adjacency: Map<string, Array<{ neighborId: string; edge: EdgeWithNames }>>;
+  names: Map<string, string>;
+}
+
+/**
+ * Load all edges at or above a confidence into an undirected adjacency list
+ */
+async function loadGraphIndex(db: D1Database, minConfidence: number = 0): Promise<GraphIndex> {
   const edgesResult = await db.prepare(`
     SELECT e.*,
            n1.name as source_name,
@@ -275,14 +1073,11 @@ export async function findPath(
     FROM edges e
     JOIN nodes n1 ON e.source_id = n1.id
     JOIN nodes n2 ON e.target_id = n2.id
-  `).all<GraphEdge & { source_name: string; target_name: string }>();
+    WHERE e.confidence >= ?
+  `).bind(minConfidence).all<EdgeWithNames>();
 
-  // Build adjacency list
-  const adjacency = new Map<string, Array<{
-    neighborId: string;
-    neighborName: string;
-    edge: GraphEdge & { source_name: string; target_name: string };
-  }>>();
+  const adjacency: GraphIndex['adjacency'] = new Map();
+  const names = new Map<string, string>();
 
   for (const edge of edgesResult.results) {
     // Add both directions since edges are undirected
@@ -292,90 +1087,812 @@ export async function findPath(
     if (!adjacency.has(edge.target_id)) {
       adjacency.set(edge.target_id, []);
     }
-    adjacency.get(edge.source_id)!.push({
-      neighborId: edge.target_id,
-      neighborName: edge.target_name,
-      edge
-    });
-    adjacency.get(edge.target_id)!.push({
-      neighborId: edge.source_id,
-      neighborName: edge.source_name,
-      edge
-    });
+    adjacency.get(edge.source_id)!.push({ neighborId: edge.target_id, edge });
+    adjacency.get(edge.target_id)!.push({ neighborId: edge.source_id, edge });
+    names.set(edge.source_id, edge.source_name);
+    names.set(edge.target_id, edge.target_name);
+  }
+
+  return { adjacency, names };
+}
+
+/**
+ * Get the edge between two adjacent nodes
+ */
+function edgeBetween(index: GraphIndex, fromId: string, toId: string): EdgeWithNames | undefined {
+  return index.adjacency.get(fromId)?.find(n => n.neighborId === toId)?.edge;
+}
+
+/**
+ * Walk parent pointers back from the target to build the node ID path
+ */
+function reconstructPath(parent: Map<string, string>, fromId: string, toId: string): string[] {
+  const pathIds = [toId];
+  while (pathIds[0] !== fromId) {
+    pathIds.unshift(parent.get(pathIds[0])!);
   }
+  return pathIds;
+}
 
-  // BFS to find shortest path
+/**
+ * Fewest-hop path using BFS, optionally avoiding nodes and edges
+ */
+function bfsPath(
+  index: GraphIndex,
+  fromId: string,
+  toId: string,
+  blockedNodes: Set<string> = new Set(),
+  blockedEdges: Set<string> = new Set()
+): string[] | null {
   const visited = new Set<string>([fromId]);
-  const queue: Array<{ nodeId: string; path: string[]; pathIds: string[] }> = [{
-    nodeId: fromId,
-    path: [fromNode.name],
-    pathIds: [fromId]
-  }];
-  const parentEdge = new Map<string, GraphEdge & { source_name: string; target_name: string }>();
+  const parent = new Map<string, string>();
+  const queue = [fromId];
 
   while (queue.length > 0) {
     const current = queue.shift()!;
+    if (current === toId) {
+      return reconstructPath(parent, fromId, toId);
+    }
 
-    if (current.nodeId === toId) {
-      // Found the target - reconstruct steps
-      const steps: PathStep[] = [];
-      for (let i = 0; i < current.pathIds.length - 1; i++) {
-        const currId = current.pathIds[i];
-        const nextId = current.pathIds[i + 1];
-
-        // Find the edge for this step
-        const neighbors = adjacency.get(currId) || [];
-        const neighbor = neighbors.find(n => n.neighborId === nextId);
-        if (neighbor) {
-          const edge = neighbor.edge;
-          steps.push({
-            from: currId,
-            fromName: current.path[i],
-            to: nextId,
-            toName: current.path[i + 1],
-            confidence: edge.confidence,
-            evidenceUrl: edge.best_evidence_url,
-            thumbnailUrl: edge.best_evidence_thumbnail,
-            contextUrl: edge.context_url
-          });
-        }
+    for (const { neighborId, edge } of index.adjacency.get(current) || []) {
+      if (visited.has(neighborId) || blockedNodes.has(neighborId) || blockedEdges.has(edge.id)) {
+        continue;
+      }
+      visited.add(neighborId);
+      parent.set(neighborId, current);
+      queue.push(neighborId);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Best-first search maximizing a path score (Dijkstra variant)
+ * `combine` folds an edge confidence (0-1) into the score; it must never
+ * increase the score (min and product both qualify). Ties prefer fewer hops.
+ */
+function bestScorePath(
+  index: GraphIndex,
+  fromId: string,
+  toId: string,
+  combine: (score: number, confidence: number) => number
+): string[] | null {
+  const best = new Map<string, { score: number; hops: number }>([[fromId, { score: 1, hops: 0 }]]);
+  const parent = new Map<string, string>();
+  const done = new Set<string>();
+
+  const isBetter = (a: { score: number; hops: number }, b: { score: number; hops: number }) =>
+    a.score > b.score || (a.score === b.score && a.hops < b.hops);
+
+  while (true) {
+    let current: string | null = null;
+    for (const [id, entry] of best) {
+      if (!done.has(id) && (current === null || isBetter(entry, best.get(current)!))) {
+        current = id;
       }
+    }
+
+    if (current === null) return null;
+    if (current === toId) return reconstructPath(parent, fromId, toId);
+    done.add(current);
 
-      const minConfidence = steps.length > 0
-        ? Math.min(...steps.map(s => s.confidence))
-        : 100;
-
-      return {
-        found: true,
-        path: current.path,
-        pathIds: current.pathIds,
-        steps,
-        hops: steps.length,
-        minConfidence
-      };
+    const { score, hops } = best.get(current)!;
+    for (const { neighborId, edge } of index.adjacency.get(current) || []) {
+      if (done.has(neighborId)) continue;
+
+      const candidate = { score: combine(score, edge.confidence / 100), hops: hops + 1 };
+      // Zero-confidence edges never make a usable path
+      if (candidate.score <= 0) continue;
+
+      const existing = best.get(neighborId);
+      if (!existing || isBetter(candidate, existing)) {
+        best.set(neighborId, candidate);
+        parent.set(neighborId, current);
+      }
     }
+  }
+}
+
+/**
+ * Up to k loopless fewest-hop paths (Yen's algorithm)
+ * Paths of equal length are ranked by bottleneck confidence
+ */
+function kShortestPaths(index: GraphIndex, fromId: string, toId: string, k: number): string[][] {
+  const first = bfsPath(index, fromId, toId);
+  if (!first) return [];
+
+  const key = (pathIds: string[]) => pathIds.join('>');
+  const bottleneck = (pathIds: string[]) =>
+    Math.min(...pathIds.slice(1).map((id, i) => edgeBetween(index, pathIds[i], id)!.confidence));
 
-    // Explore neighbors
-    const neighbors = adjacency.get(current.nodeId) || [];
-    for (const neighbor of neighbors) {
-      if (!visited.has(neighbor.neighborId)) {
-        visited.add(neighbor.neighborId);
-        queue.push({
-          nodeId: neighbor.neighborId,
-          path: [...current.path, neighbor.neighborName],
-          pathIds: [...current.pathIds, neighbor.neighborId]
-        });
+  const accepted = [first];
+  const seen = new Set([key(first)]);
+  const candidates: string[][] = [];
+
+  while (accepted.length < k) {
+    const previous = accepted[accepted.length - 1];
+
+    for (let i = 0; i < previous.length - 1; i++) {
+      const spurNode = previous[i];
+      const rootPath = previous.slice(0, i + 1);
+
+      // Block the next hop of every accepted path sharing this root
+      const blockedEdges = new Set<string>();
+      for (const pathIds of accepted) {
+        if (pathIds.length > i + 1 && key(pathIds.slice(0, i + 1)) === key(rootPath)) {
+          const edge = edgeBetween(index, pathIds[i], pathIds[i + 1]);
+          if (edge) blockedEdges.add(edge.id);
+        }
       }
+      // Keep paths loopless: the root can't be revisited
+      const blockedNodes = new Set(rootPath.slice(0, -1));
+
+      const spurPath = bfsPath(index, spurNode, toId, blockedNodes, blockedEdges);
+      if (!spurPath) continue;
+
+      const candidate = [...rootPath.slice(0, -1), ...spurPath];
+      if (seen.has(key(candidate))) continue;
+      seen.add(key(candidate));
+      candidates.push(candidate);
     }
+
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.length - b.length || bottleneck(b) - bottleneck(a));
+    accepted.push(candidates.shift()!);
   }
 
-  // No path found
+  return accepted;
+}
+
+/**
+ * Empty result for when no path exists
+ */
+function noPathResult(): PathResult {
   return {
     found: false,
     path: [],
     pathIds: [],
     steps: [],
     hops: 0,
-    minConfidence: 0
+    minConfidence: 0,
+    cumulativeConfidence: 0
+  };
+}
+
+/**
+ * Build a path result (with evidence for each hop) from node IDs
+ */
+function buildPathResult(index: GraphIndex, pathIds: string[]): PathResult {
+  const steps: PathStep[] = [];
+  for (let i = 0; i < pathIds.length - 1; i++) {
+    const currId = pathIds[i];
+    const nextId = pathIds[i + 1];
+    const edge = edgeBetween(index, currId, nextId);
+    if (edge) {
+      steps.push({
+        from: currId,
+        fromName: index.names.get(currId)!,
+        to: nextId,
+        toName: index.names.get(nextId)!,
+        confidence: edge.confidence,
+        evidenceUrl: edge.best_evidence_url,
+        thumbnailUrl: edge.best_evidence_thumbnail,
+        contextUrl: edge.context_url
+      });
+    }
+  }
+
+  const minConfidence = steps.length > 0
+    ? Math.min(...steps.map(s => s.confidence))
+    : 100;
+
+  return {
+    found: true,
+    path: pathIds.map(id => index.names.get(id)!),
+    pathIds,
+    steps,
+    hops: steps.length,
+    minConfidence,
+    cumulativeConfidence: steps.reduce((product, s) => product * (s.confidence / 100), 1)
+  };
+}
+
+/**
+ * Find a path between two people
+ * Defaults to the fewest-hop path; see PathMode for confidence-aware modes.
+ * Edges below minConfidence are ignored. Returns the path with all evidence for each hop.
+ */
+export async function findPath(
+  db: D1Database,
+  fromName: string,
+  toName: string,
+  mode: PathMode = 'shortest',
+  k: number = DEFAULT_PATH_ALTERNATIVES,
+  minConfidence: number = 0
+): Promise<PathResult> {
+  const [fromId, toId] = await Promise.all([
+    resolveNodeId(db, fromName),
+    resolveNodeId(db, toName)
+  ]);
+
+  // Check if both nodes exist
+  const [fromNode, toNode] = await Promise.all([
+    db.prepare('SELECT * FROM nodes WHERE id = ?').bind(fromId).first<GraphNode>(),
+    db.prepare('SELECT * FROM nodes WHERE id = ?').bind(toId).first<GraphNode>()
+  ]);
+
+  if (!fromNode || !toNode) {
+    return noPathResult();
+  }
+
+  // If same person, return trivial path
+  if (fromId === toId) {
+    return {
+      found: true,
+      path: [fromNode.name],
+      pathIds: [fromId],
+      steps: [],
+      hops: 0,
+      minConfidence: 100,
+      cumulativeConfidence: 1
+    };
+  }
+
+  const index = await loadGraphIndex(db, minConfidence);
+
+  if (mode === 'k-shortest') {
+    const limit = Math.min(Math.max(1, Math.floor(k)), MAX_PATH_ALTERNATIVES);
+    const alternatives = kShortestPaths(index, fromId, toId, limit).map(ids => buildPathResult(index, ids));
+    return alternatives.length > 0 ? { ...alternatives[0], alternatives } : noPathResult();
+  }
+
+  const pathIds = mode === 'widest'
+    ? bestScorePath(index, fromId, toId, Math.min)
+    : mode === 'reliable'
+      ? bestScorePath(index, fromId, toId, (score, confidence) => score * confidence)
+      : bfsPath(index, fromId, toId);
+
+  return pathIds ? buildPathResult(index, pathIds) : noPathResult();
+}
+
+// ============================================================================
+// Alias registry and node maintenance
+// ============================================================================
+
+/**
+ * Alias entry in API shape
+ */
+export interface NodeAlias {
+  alias: string;
+  normalizedAlias: string;
+  canonicalName: string;
+  createdAt: string;
+}
+
+/**
+ * Get all aliases, grouped by canonical name
+ */
+export async function getAliases(db: D1Database): Promise<NodeAlias[]> {
+  const result = await db.prepare(
+    'SELECT * FROM node_aliases ORDER BY canonical_name, normalized_alias'
+  ).all<NodeAliasRow>();
+  return result.results.map(row => ({
+    alias: row.alias,
+    normalizedAlias: row.normalized_alias,
+    canonicalName: row.canonical_name,
+    createdAt: row.created_at
+  }));
+}
+
+/**
+ * Add (or re-point) an alias for a person
+ * The canonical name is itself resolved first so aliases never chain
+ */
+export async function addAlias(
+  db: D1Database,
+  alias: string,
+  canonicalName: string
+): Promise<NodeAlias> {
+  const canonical = await resolveAliasName(db, canonicalName);
+  const normalizedAlias = normalizeAliasName(alias);
+
+  if (normalizedAlias === normalizeAliasName(canonical)) {
+    throw new Error('Alias is the same as the canonical name');
+  }
+
+  await db.prepare(`
+    INSERT INTO node_aliases (normalized_alias, alias, canonical_name)
+    VALUES (?, ?, ?)
+    ON CONFLICT(normalized_alias) DO UPDATE SET
+      alias = excluded.alias,
+      canonical_name = excluded.canonical_name
+  `).bind(normalizedAlias, alias, canonical).run();
+
+  const row = await db.prepare('SELECT * FROM node_aliases WHERE normalized_alias = ?')
+    .bind(normalizedAlias)
+    .first<NodeAliasRow>();
+
+  return {
+    alias: row!.alias,
+    normalizedAlias: row!.normalized_alias,
+    canonicalName: row!.canonical_name,
+    createdAt: row!.created_at
+  };
+}
+
+/**
+ * Remove an alias
+ * Returns false if the alias did not exist
+ */
+export async function removeAlias(db: D1Database, alias: string): Promise<boolean> {
+  const result = await db.prepare('DELETE FROM node_aliases WHERE normalized_alias = ?')
+    .bind(normalizeAliasName(alias))
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Result of merging one node into another
+ */
+export interface MergeNodesResult {
+  from: { id: string; name: string };
+  into: { id: string; name: string };
+  /** Edges re-pointed to the surviving node */
+  edgesMoved: number;
+  /** Edges combined with an existing edge of the surviving node */
+  edgesMerged: number;
+  /** Edges between the two merged nodes (removed) */
+  edgesDropped: number;
+}
+
+/**
+ * Merge a duplicate node into another node
+ * Edges and evidence move to the surviving node (keeping the higher confidence
+ * when both already share a neighbor) and the merged name becomes an alias.
+ * Returns null if either node does not exist.
+ */
+export async function mergeNodes(
+  db: D1Database,
+  fromName: string,
+  intoName: string
+): Promise<MergeNodesResult | null> {
+  const [fromId, intoId] = await Promise.all([
+    resolveNodeId(db, fromName),
+    resolveNodeId(db, intoName)
+  ]);
+
+  if (fromId === intoId) {
+    throw new Error('Cannot merge a node into itself');
+  }
+
+  const [fromNode, intoNode] = await Promise.all([
+    db.prepare('SELECT * FROM nodes WHERE id = ?').bind(fromId).first<GraphNode>(),
+    db.prepare('SELECT * FROM nodes WHERE id = ?').bind(intoId).first<GraphNode>()
+  ]);
+
+  if (!fromNode || !intoNode) {
+    return null;
+  }
+
+  const edges = await db.prepare('SELECT * FROM edges WHERE source_id = ? OR target_id = ?')
+    .bind(fromId, fromId)
+    .all<GraphEdge>();
+
+  const result: MergeNodesResult = {
+    from: { id: fromNode.id, name: fromNode.name },
+    into: { id: intoNode.id, name: intoNode.name },
+    edgesMoved: 0,
+    edgesMerged: 0,
+    edgesDropped: 0
+  };
+
+  const evidenceUpsert = prepareEvidenceUpsert(db);
+
+  for (const edge of edges.results) {
+    const otherId = edge.source_id === fromId ? edge.target_id : edge.source_id;
+    const statements: D1PreparedStatement[] = [];
+
+    if (otherId === intoId) {
+      // Edge between the two duplicates - nothing left to connect
+      result.edgesDropped++;
+    } else {
+      const newId = generateEdgeId(intoId, otherId);
+      const [sourceId, targetId] = edge.source_id === fromId ? [intoId, otherId] : [otherId, intoId];
+      const existing = await db.prepare('SELECT id FROM edges WHERE id = ?').bind(newId).first<{ id: string }>();
+
+      if (existing) {
+        result.edgesMerged++;
+      } else {
+        result.edgesMoved++;
+      }
+
+      statements.push(db.prepare(`
+        INSERT INTO edges (id, source_id, target_id, confidence, discovered_at, best_evidence_url, best_evidence_thumbnail, context_url)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          confidence = MAX(excluded.confidence, edges.confidence),
+          best_evidence_url = CASE WHEN excluded.confidence > edges.confidence THEN excluded.best_evidence_url ELSE edges.best_evidence_url END,
+          best_evidence_thumbnail = CASE WHEN excluded.confidence > edges.confidence THEN excluded.best_evidence_thumbnail ELSE edges.best_evidence_thumbnail END,
+          context_url = CASE WHEN excluded.confidence > edges.confidence THEN excluded.context_url ELSE edges.context_url END
+      `).bind(
+        newId,
+        sourceId,
+        targetId,
+        edge.confidence,
+        edge.discovered_at,
+        edge.best_evidence_url,
+        edge.best_evidence_thumbnail,
+        edge.context_url
+      ));
+
+      const evidence = await db.prepare('SELECT * FROM evidence WHERE edge_id = ?').bind(edge.id).all<EvidenceRow>();
+      for (const row of evidence.results) {
+        statements.push(evidenceUpsert.bind(
+          generateEvidenceId(newId, row.image_url),
+          newId,
+          row.image_url,
+          row.thumbnail_url,
+          row.context_url,
+          row.title,
+          row.image_score,
+          row.detected_celebs,
+          row.perceptual_hash
+        ));
+      }
+    }
+
+    if (otherId !== intoId) {
+      // Keep the run history pointing at the surviving edge
+      statements.push(db.prepare('UPDATE OR IGNORE run_edges SET edge_id = ? WHERE edge_id = ?')
+        .bind(generateEdgeId(intoId, otherId), edge.id));
+    }
+
+    statements.push(
+      db.prepare('DELETE FROM run_edges WHERE edge_id = ?').bind(edge.id),
+      db.prepare('DELETE FROM evidence WHERE edge_id = ?').bind(edge.id),
+      db.prepare('DELETE FROM edges WHERE id = ?').bind(edge.id)
+    );
+    await db.batch(statements);
+  }
+
+  // Remove the duplicate, carry over its identity and keep its name as an alias
+  await db.batch([
+    db.prepare('DELETE FROM nodes WHERE id = ?').bind(fromId),
+    db.prepare(`
+      UPDATE nodes SET
+        thumbnail_url = COALESCE(thumbnail_url, ?),
+        external_id = COALESCE(external_id, ?),
+        external_urls = COALESCE(external_urls, ?)
+      WHERE id = ?
+    `).bind(fromNode.thumbnail_url, fromNode.external_id, fromNode.external_urls, intoId),
+    db.prepare('UPDATE node_aliases SET canonical_name = ? WHERE canonical_name = ?')
+      .bind(intoNode.name, fromNode.name),
+    db.prepare(`
+      INSERT INTO node_aliases (normalized_alias, alias, canonical_name)
+      VALUES (?, ?, ?)
+      ON CONFLICT(normalized_alias) DO UPDATE SET canonical_name = excluded.canonical_name
+    `).bind(normalizeAliasName(fromNode.name), fromNode.name, intoNode.name)
+  ]);
+
+  return result;
+}
+
+/**
+ * Store the cassette recorded for a run (replaces an earlier recording)
+ */
+export async function saveCassette(
+  db: D1Database,
+  runId: string,
+  personA: string,
+  personB: string,
+  cassette: Cassette
+): Promise<void> {
+  await db.prepare(`
+    INSERT INTO cassettes (run_id, person_a, person_b, interactions, data)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(run_id) DO UPDATE SET
+      interactions = excluded.interactions,
+      data = excluded.data,
+      created_at = CURRENT_TIMESTAMP
+  `).bind(runId, personA, personB, cassette.interactions.length, JSON.stringify(cassette)).run();
+}
+
+/**
+ * Get the cassette recorded for a run
+ */
+export async function getCassette(db: D1Database, runId: string): Promise<Cassette | null> {
+  const row = await db.prepare('SELECT data FROM cassettes WHERE run_id = ?')
+    .bind(runId)
+    .first<{ data: string }>();
+  return row ? JSON.parse(row.data) as Cassette : null;
+}
+
+/**
+ * Cached Rekognition analysis of an image, or null if missing or expired
+ */
+export async function getCachedDetection(db: D1Database, contentHash: string): Promise<ImageAnalysisResult | null> {
+  const row = await db.prepare('SELECT result FROM detection_cache WHERE content_hash = ? AND expires_at > ?')
+    .bind(contentHash, new Date().toISOString())
+    .first<{ result: string }>();
+  return row ? JSON.parse(row.result) as ImageAnalysisResult : null;
+}
+
+/**
+ * Cache the Rekognition analysis of an image for ttlSeconds (replaces an expired entry)
+ */
+export async function cacheDetection(
+  db: D1Database,
+  contentHash: string,
+  result: ImageAnalysisResult,
+  ttlSeconds: number
+): Promise<void> {
+  const now = new Date();
+  const { cached: _cached, ...analysis } = result;
+  await db.prepare(`
+    INSERT INTO detection_cache (content_hash, image_url, result, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(content_hash) DO UPDATE SET
+      image_url = excluded.image_url,
+      result = excluded.result,
+      created_at = excluded.created_at,
+      expires_at = excluded.expires_at
+  `).bind(
+    contentHash,
+    result.imageUrl,
+    JSON.stringify(analysis),
+    now.toISOString(),
+    new Date(now.getTime() + ttlSeconds * 1000).toISOString()
+  ).run();
+}
+
+/**
+ * Cached image search results for a cache key (providers, mode and normalized query), or null if missing or expired
+ */
+export async function getCachedSearch(db: D1Database, cacheKey: string): Promise<ImageSearchResult[] | null> {
+  const row = await db.prepare('SELECT results FROM search_cache WHERE normalized_query = ? AND expires_at > ?')
+    .bind(cacheKey, new Date().toISOString())
+    .first<{ results: string }>();
+  return row ? JSON.parse(row.results) as ImageSearchResult[] : null;
+}
+
+/**
+ * Cache the image search results of a query for ttlSeconds (replaces an expired entry)
+ */
+export async function cacheSearch(
+  db: D1Database,
+  cacheKey: string,
+  query: string,
+  results: ImageSearchResult[],
+  ttlSeconds: number
+): Promise<void> {
+  const now = new Date();
+  await db.prepare(`
+    INSERT INTO search_cache (normalized_query, query, results, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(normalized_query) DO UPDATE SET
+      query = excluded.query,
+      results = excluded.results,
+      created_at = excluded.created_at,
+      expires_at = excluded.expires_at
+  `).bind(
+    cacheKey,
+    query,
+    JSON.stringify(results),
+    now.toISOString(),
+    new Date(now.getTime() + ttlSeconds * 1000).toISOString()
+  ).run();
+}
+
+/**
+ * Record the start of an investigation run (no-op if already recorded)
+ */
+export async function createRun(
+  db: D1Database,
+  run: {
+    runId: string;
+    instanceId?: string;
+    personA: string;
+    personB: string;
+    config?: EffectiveRunConfig;
+    replayOf?: string;
+  }
+): Promise<void> {
+  await db.prepare(`
+    INSERT OR IGNORE INTO runs (run_id, instance_id, person_a, person_b, preset, config, replay_of, status, started_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, 'running', ?)
+  `).bind(
+    run.runId,
+    run.instanceId ?? null,
+    run.personA,
+    run.personB,
+    run.config?.preset ?? null,
+    run.config ? JSON.stringify(run.config) : null,
+    run.replayOf ?? null,
+    new Date().toISOString()
+  ).run();
+}
+
+/**
+ * Link an edge a run inserted or raised the confidence of to its run record
+ */
+export async function addRunEdge(db: D1Database, runId: string, edgeId: string): Promise<void> {
+  await db.prepare('INSERT OR IGNORE INTO run_edges (run_id, edge_id) VALUES (?, ?)')
+    .bind(runId, edgeId)
+    .run();
+}
+
+/**
+ * Record how a run ended
+ * Only runs still marked running are updated, so a cancellation is not
+ * overwritten by a late workflow outcome. Returns false if nothing changed.
+ */
+export async function finishRun(
+  db: D1Database,
+  runId: string,
+  outcome: {
+    status: Exclude<InvestigationRunStatus, 'running'>;
+    budgets?: InvestigationBudgets;
+    result?: VerifiedPath;
+    message?: string;
+  }
+): Promise<boolean> {
+  const completedAt = new Date().toISOString();
+  const { budgets, result } = outcome;
+
+  const update = await db.prepare(`
+    UPDATE runs SET
+      status = ?,
+      completed_at = ?,
+      duration_ms = CAST(ROUND((julianday(?) - julianday(started_at)) * 86400000) AS INTEGER),
+      steps_used = COALESCE(?, steps_used),
+      max_steps = COALESCE(?, max_steps),
+      subrequests_used = COALESCE(?, subrequests_used),
+      max_subrequests = COALESCE(?, max_subrequests),
+      hop_count = ?,
+      path_confidence = ?,
+      result = ?,
+      message = ?,
+      detection_cache_hits = COALESCE(?, detection_cache_hits),
+      detection_cache_misses = COALESCE(?, detection_cache_misses)
+    WHERE run_id = ? AND status = 'running'
+  `).bind(
+    outcome.status,
+    completedAt,
+    completedAt,
+    budgets?.stepsUsed ?? null,
+    budgets?.maxSteps ?? null,
+    budgets?.subrequestsUsed ?? null,
+    budgets?.maxSubrequests ?? null,
+    result ? result.path.length - 1 : null,
+    result ? result.confidence.pathBottleneck : null,
+    result ? JSON.stringify(result) : null,
+    outcome.message ?? null,
+    budgets?.detectionCacheHits ?? null,
+    budgets?.detectionCacheMisses ?? null,
+    runId
+  ).run();
+
+  return (update.meta.changes ?? 0) > 0;
+}
+
+function toRunSummary(row: RunRow & { edges_created: number }): InvestigationRunSummary {
+  const hasBudgets = row.steps_used !== null && row.max_steps !== null
+    && row.subrequests_used !== null && row.max_subrequests !== null;
+
+  return {
+    runId: row.run_id,
+    instanceId: row.instance_id,
+    personA: row.person_a,
+    personB: row.person_b,
+    config: row.config ? JSON.parse(row.config) as EffectiveRunConfig : null,
+    replayOf: row.replay_of,
+    status: row.status,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    durationMs: row.duration_ms,
+    budgets: hasBudgets
+      ? {
+          stepsUsed: row.steps_used!,
+          maxSteps: row.max_steps!,
+          subrequestsUsed: row.subrequests_used!,
+          maxSubrequests: row.max_subrequests!,
+          detectionCacheHits: row.detection_cache_hits ?? undefined,
+          detectionCacheMisses: row.detection_cache_misses ?? undefined
+        }
+      : null,
+    hopCount: row.hop_count,
+    pathConfidence: row.path_confidence,
+    message: row.message,
+    edgesCreatedCount: row.edges_created
+  };
+}
+
+export const RUN_STATUSES: InvestigationRunStatus[] = ['running', 'success', 'no_path', 'error', 'cancelled'];
+export const DEFAULT_RUNS_LIMIT = 50;
+export const MAX_RUNS_LIMIT = 200;
+
+export interface RunFilters {
+  status?: InvestigationRunStatus;
+  /** Matches either endpoint (case-insensitive substring) */
+  person?: string;
+  /** ISO-8601 bounds on started_at */
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * List runs, newest first
+ */
+export async function listRuns(
+  db: D1Database,
+  filters: RunFilters = {}
+): Promise<{ runs: InvestigationRunSummary[]; total: number }> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.status) {
+    conditions.push('status = ?');
+    params.push(filters.status);
+  }
+  if (filters.person) {
+    conditions.push('(person_a LIKE ? OR person_b LIKE ?)');
+    params.push(`%${filters.person}%`, `%${filters.person}%`);
+  }
+  if (filters.since) {
+    conditions.push('started_at >= ?');
+    params.push(filters.since);
+  }
+  if (filters.until) {
+    conditions.push('started_at <= ?');
+    params.push(filters.until);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const limit = Math.min(Math.max(filters.limit ?? DEFAULT_RUNS_LIMIT, 1), MAX_RUNS_LIMIT);
+  const offset = Math.max(filters.offset ?? 0, 0);
+
+  const [rows, count] = await Promise.all([
+    db.prepare(`
+      SELECT runs.*, (SELECT COUNT(*) FROM run_edges WHERE run_edges.run_id = runs.run_id) AS edges_created
+      FROM runs
+      ${where}
+      ORDER BY started_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<RunRow & { edges_created: number }>(),
+    db.prepare(`SELECT COUNT(*) AS total FROM runs ${where}`)
+      .bind(...params)
+      .first<{ total: number }>()
+  ]);
+
+  return {
+    runs: rows.results.map(toRunSummary),
+    total: count?.total ?? 0
+  };
+}
+
+/**
+ * Get the full record of a run, including its path and the edges it wrote
+ */
+export async function getRun(db: D1Database, runId: string): Promise<InvestigationRun | null> {
+  const row = await db.prepare('SELECT * FROM runs WHERE run_id = ?')
+    .bind(runId)
+    .first<RunRow>();
+
+  if (!row) {
+    return null;
+  }
+
+  const edges = await db.prepare('SELECT edge_id FROM run_edges WHERE run_id = ? ORDER BY rowid')
+    .bind(runId)
+    .all<{ edge_id: string }>();
+
+  const { edgesCreatedCount: _count, ...summary } = toRunSummary({ ...row, edges_created: edges.results.length });
+  return {
+    ...summary,
+    result: row.result ? JSON.parse(row.result) as VerifiedPath : null,
+    edgesCreated: edges.results.map(e => e.edge_id)
   };
 }
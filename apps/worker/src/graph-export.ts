@@ -0,0 +1,283 @@
+/**
+ * Graph export in GraphML, GEXF, CSV and JSON-LD
+ * Serializers read D1 page by page and yield text chunks, so the
+ * full graph is never held in memory while the response streams.
+ */
+
+import { iterateNodes, iterateEdges } from './graph-db';
+import type { GraphNode, ExportEdge } from './graph-db';
+
+export type ExportFormat = 'graphml' | 'gexf' | 'csv' | 'jsonld';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['graphml', 'gexf', 'csv', 'jsonld'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  graphml: 'application/graphml+xml; charset=utf-8',
+  gexf: 'application/gexf+xml; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  jsonld: 'application/ld+json; charset=utf-8'
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function externalUrls(node: GraphNode): string[] {
+  return node.external_urls ? JSON.parse(node.external_urls) as string[] : [];
+}
+
+/** Multiple evidence URLs in one attribute value (URLs never contain spaces) */
+function joinUrls(urls: string[]): string {
+  return urls.join(' ');
+}
+
+// ============================================================================
+// GraphML (networkx, yEd, Gephi)
+// ============================================================================
+
+async function* graphml(db: D1Database): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n';
+  yield '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">\n';
+  yield '  <key id="name" for="node" attr.name="name" attr.type="string"/>\n';
+  yield '  <key id="thumbnail_url" for="node" attr.name="thumbnail_url" attr.type="string"/>\n';
+  yield '  <key id="external_id" for="node" attr.name="external_id" attr.type="string"/>\n';
+  yield '  <key id="external_urls" for="node" attr.name="external_urls" attr.type="string"/>\n';
+  yield '  <key id="first_seen_at" for="node" attr.name="first_seen_at" attr.type="string"/>\n';
+  yield '  <key id="confidence" for="edge" attr.name="confidence" attr.type="double"/>\n';
+  yield '  <key id="discovered_at" for="edge" attr.name="discovered_at" attr.type="string"/>\n';
+  yield '  <key id="best_evidence_url" for="edge" attr.name="best_evidence_url" attr.type="string"/>\n';
+  yield '  <key id="context_url" for="edge" attr.name="context_url" attr.type="string"/>\n';
+  yield '  <key id="evidence_urls" for="edge" attr.name="evidence_urls" attr.type="string"/>\n';
+  yield '  <graph id="connected" edgedefault="undirected">\n';
+
+  const data = (key: string, value: string | number | null) =>
+    value === null || value === '' ? '' : `      <data key="${key}">${escapeXml(String(value))}</data>\n`;
+
+  for await (const nodes of iterateNodes(db)) {
+    yield nodes.map(node =>
+      `    <node id="${escapeXml(node.id)}">\n` +
+      data('name', node.name) +
+      data('thumbnail_url', node.thumbnail_url) +
+      data('external_id', node.external_id) +
+      data('external_urls', joinUrls(externalUrls(node))) +
+      data('first_seen_at', node.first_seen_at) +
+      '    </node>\n'
+    ).join('');
+  }
+
+  for await (const edges of iterateEdges(db)) {
+    yield edges.map(edge =>
+      `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source_id)}" target="${escapeXml(edge.target_id)}">\n` +
+      data('confidence', edge.confidence) +
+      data('discovered_at', edge.discovered_at) +
+      data('best_evidence_url', edge.best_evidence_url) +
+      data('context_url', edge.context_url) +
+      data('evidence_urls', joinUrls(edge.evidence_urls)) +
+      '    </edge>\n'
+    ).join('');
+  }
+
+  yield '  </graph>\n</graphml>\n';
+}
+
+// ============================================================================
+// GEXF 1.3 (Gephi)
+// ============================================================================
+
+async function* gexf(db: D1Database): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n';
+  yield '<gexf xmlns="http://gexf.net/1.3" version="1.3">\n';
+  yield `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">\n`;
+  yield '    <creator>Connected?</creator>\n';
+  yield '    <description>Visual co-presence graph</description>\n';
+  yield '  </meta>\n';
+  yield '  <graph defaultedgetype="undirected" mode="static">\n';
+  yield '    <attributes class="node">\n';
+  yield '      <attribute id="thumbnail_url" title="thumbnail_url" type="string"/>\n';
+  yield '      <attribute id="external_id" title="external_id" type="string"/>\n';
+  yield '      <attribute id="external_urls" title="external_urls" type="string"/>\n';
+  yield '      <attribute id="first_seen_at" title="first_seen_at" type="string"/>\n';
+  yield '    </attributes>\n';
+  yield '    <attributes class="edge">\n';
+  yield '      <attribute id="confidence" title="confidence" type="double"/>\n';
+  yield '      <attribute id="discovered_at" title="discovered_at" type="string"/>\n';
+  yield '      <attribute id="best_evidence_url" title="best_evidence_url" type="string"/>\n';
+  yield '      <attribute id="context_url" title="context_url" type="string"/>\n';
+  yield '      <attribute id="evidence_urls" title="evidence_urls" type="string"/>\n';
+  yield '    </attributes>\n';
+
+  const attvalues = (values: Record<string, string | number | null>) => {
+    const entries = Object.entries(values).filter(([, value]) => value !== null && value !== '');
+    if (entries.length === 0) return '';
+    return '        <attvalues>\n' +
+      entries.map(([key, value]) => `          <attvalue for="${key}" value="${escapeXml(String(value))}"/>\n`).join('') +
+      '        </attvalues>\n';
+  };
+
+  yield '    <nodes>\n';
+  for await (const nodes of iterateNodes(db)) {
+    yield nodes.map(node =>
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.name)}">\n` +
+      attvalues({
+        thumbnail_url: node.thumbnail_url,
+        external_id: node.external_id,
+        external_urls: joinUrls(externalUrls(node)),
+        first_seen_at: node.first_seen_at
+      }) +
+      '      </node>\n'
+    ).join('');
+  }
+  yield '    </nodes>\n';
+
+  yield '    <edges>\n';
+  for await (const edges of iterateEdges(db)) {
+    yield edges.map(edge =>
+      `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source_id)}" target="${escapeXml(edge.target_id)}" weight="${edge.confidence}">\n` +
+      attvalues({
+        confidence: edge.confidence,
+        discovered_at: edge.discovered_at,
+        best_evidence_url: edge.best_evidence_url,
+        context_url: edge.context_url,
+        evidence_urls: joinUrls(edge.evidence_urls)
+      }) +
+      '      </edge>\n'
+    ).join('');
+  }
+  yield '    </edges>\n';
+
+  yield '  </graph>\n</gexf>\n';
+}
+
+// ============================================================================
+// CSV edge list (Gephi spreadsheet import, pandas)
+// ============================================================================
+
+const CSV_COLUMNS = [
+  'Id', 'Source', 'Target', 'Label', 'Weight',
+  'source_name', 'target_name', 'discovered_at', 'best_evidence_url', 'context_url', 'evidence_urls'
+];
+
+async function* csv(db: D1Database): AsyncGenerator<string> {
+  yield CSV_COLUMNS.join(',') + '\r\n';
+
+  for await (const edges of iterateEdges(db)) {
+    yield edges.map((edge: ExportEdge) => [
+      edge.id,
+      edge.source_id,
+      edge.target_id,
+      `${edge.source_name} - ${edge.target_name}`,
+      edge.confidence,
+      edge.source_name,
+      edge.target_name,
+      edge.discovered_at,
+      edge.best_evidence_url,
+      edge.context_url,
+      joinUrls(edge.evidence_urls)
+    ].map(escapeCsv).join(',') + '\r\n').join('');
+  }
+}
+
+// ============================================================================
+// JSON-LD (schema.org people + co-appearance relations)
+// ============================================================================
+
+const JSONLD_CONTEXT = {
+  '@vocab': 'https://schema.org/',
+  vd: 'urn:visual-degrees:',
+  source: { '@id': 'vd:source', '@type': '@id' },
+  target: { '@id': 'vd:target', '@type': '@id' },
+  confidence: 'vd:confidence',
+  evidence: { '@id': 'vd:evidence', '@type': '@id', '@container': '@list' }
+};
+
+async function* jsonld(db: D1Database): AsyncGenerator<string> {
+  yield `{"@context":${JSON.stringify(JSONLD_CONTEXT)},"@graph":[\n`;
+  let first = true;
+  const item = (value: unknown) => {
+    const line = (first ? '' : ',\n') + JSON.stringify(value);
+    first = false;
+    return line;
+  };
+
+  for await (const nodes of iterateNodes(db)) {
+    yield nodes.map(node => item({
+      '@id': `vd:node/${node.id}`,
+      '@type': 'Person',
+      name: node.name,
+      ...(node.thumbnail_url ? { image: node.thumbnail_url } : {}),
+      ...(node.external_id ? { identifier: node.external_id } : {}),
+      ...(node.external_urls ? { sameAs: externalUrls(node) } : {})
+    })).join('');
+  }
+
+  for await (const edges of iterateEdges(db)) {
+    yield edges.map(edge => item({
+      '@id': `vd:edge/${edge.id}`,
+      '@type': 'vd:CoAppearance',
+      source: `vd:node/${edge.source_id}`,
+      target: `vd:node/${edge.target_id}`,
+      confidence: edge.confidence,
+      dateCreated: edge.discovered_at,
+      ...(edge.best_evidence_url ? { image: edge.best_evidence_url } : {}),
+      ...(edge.context_url ? { url: edge.context_url } : {}),
+      evidence: edge.evidence_urls
+    })).join('');
+  }
+
+  yield '\n]}\n';
+}
+
+const SERIALIZERS: Record<ExportFormat, (db: D1Database) => AsyncGenerator<string>> = {
+  graphml,
+  gexf,
+  csv,
+  jsonld
+};
+
+/**
+ * Stream the whole graph in the requested format
+ */
+export function exportGraph(db: D1Database, format: ExportFormat): {
+  body: ReadableStream<Uint8Array>;
+  contentType: string;
+  filename: string;
+} {
+  const chunks = SERIALIZERS[format](db);
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        // Headers are already sent - abort the stream so clients see a truncated download
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: `connected-graph-${new Date().toISOString().slice(0, 10)}.${format}`
+  };
+}
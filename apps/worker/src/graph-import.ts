@@ -0,0 +1,372 @@
+/**
+ * Graph import from JSON or GraphML
+ * Rows are merged through the same node resolution (aliases, normalized
+ * names, generateNodeId) and keep-higher-confidence rule as live investigations.
+ */
+
+import {
+  prepareNodeUpsert,
+  prepareEdgeUpsert,
+  resolveNodes,
+  findNodesByExternalId,
+  getEdgesById,
+  batchWrites,
+  generateEdgeId,
+  generateExternalNodeId,
+  normalizeName,
+} from './graph-db';
+import type { GraphEdgeUpdate } from './durable-objects/graph-broadcaster';
+
+/** Rows (nodes + edges) accepted per request - split larger seeds into batches */
+export const MAX_IMPORT_ROWS = 500;
+
+export interface ImportNode {
+  /** Reference used by edges in the same payload (defaults to the name) */
+  id?: string;
+  name: string;
+  thumbnailUrl?: string;
+  externalId?: string;
+  externalUrls?: string[];
+}
+
+export interface ImportEdge {
+  /** Node id from the payload, or a person's name */
+  source: string;
+  target: string;
+  /** Edge confidence in percent (0-100) */
+  confidence: number;
+  evidenceUrl?: string;
+  thumbnailUrl?: string;
+  contextUrl?: string;
+}
+
+export interface ImportPayload {
+  nodes: ImportNode[];
+  edges: ImportEdge[];
+}
+
+export interface ImportRejection {
+  kind: 'node' | 'edge';
+  /** Position of the row in the payload's nodes / edges */
+  index: number;
+  reason: string;
+}
+
+export interface ImportReport {
+  nodes: { inserted: number; updated: number };
+  edges: {
+    inserted: number;
+    /** Existing edges whose confidence (and best evidence) was raised */
+    updated: number;
+    /** Existing edges that kept their higher confidence */
+    unchanged: number;
+  };
+  rejected: ImportRejection[];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Parse a JSON import body: { nodes?, edges }
+ * Accepts the GET /api/graph shape as well as { from, to } edges keyed by name.
+ */
+export function parseJsonImport(body: unknown): ImportPayload {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Expected a JSON object with "nodes" and/or "edges"');
+  }
+  const { nodes, edges } = body as { nodes?: unknown; edges?: unknown };
+  if (nodes !== undefined && !Array.isArray(nodes)) throw new Error('"nodes" must be an array');
+  if (edges !== undefined && !Array.isArray(edges)) throw new Error('"edges" must be an array');
+
+  return {
+    nodes: (nodes ?? []).map((raw: Record<string, unknown>) => ({
+      id: asString(raw?.id),
+      name: asString(raw?.name) ?? '',
+      thumbnailUrl: asString(raw?.thumbnailUrl),
+      externalId: asString(raw?.externalId),
+      externalUrls: Array.isArray(raw?.externalUrls) ? raw.externalUrls.filter((u): u is string => typeof u === 'string') : undefined,
+    })),
+    edges: (edges ?? []).map((raw: Record<string, unknown>) => ({
+      source: asString(raw?.source) ?? asString(raw?.from) ?? '',
+      target: asString(raw?.target) ?? asString(raw?.to) ?? '',
+      confidence: Number(raw?.confidence ?? raw?.edgeConfidence),
+      evidenceUrl: asString(raw?.evidenceUrl),
+      thumbnailUrl: asString(raw?.thumbnailUrl),
+      contextUrl: asString(raw?.contextUrl),
+    })),
+  };
+}
+
+function decodeXml(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function xmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+/** Elements of one tag name: attributes and inner content (empty when self-closing) */
+function xmlElements(source: string, tag: string): Array<{ attributes: Record<string, string>; content: string }> {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tag}>)`, 'g');
+  return [...source.matchAll(pattern)].map(match => ({
+    attributes: xmlAttributes(match[1]),
+    content: match[2] ?? '',
+  }));
+}
+
+/**
+ * Parse GraphML (as written by GET /api/graph/export, networkx or Gephi)
+ * Node labels come from a "name" or "label" key; edge confidence from
+ * "confidence" or "weight" (percent).
+ */
+export function parseGraphmlImport(xml: string): ImportPayload {
+  if (!/<graphml\b/.test(xml)) {
+    throw new Error('Not a GraphML document');
+  }
+
+  // key id -> attribute name
+  const keyNames = new Map<string, string>();
+  for (const key of xmlElements(xml, 'key')) {
+    if (key.attributes.id) {
+      keyNames.set(key.attributes.id, key.attributes['attr.name'] ?? key.attributes.id);
+    }
+  }
+
+  const readData = (content: string): Record<string, string> => {
+    const values: Record<string, string> = {};
+    for (const data of xmlElements(content, 'data')) {
+      const name = keyNames.get(data.attributes.key) ?? data.attributes.key;
+      if (name) values[name] = decodeXml(data.content);
+    }
+    return values;
+  };
+
+  const urls = (value: string | undefined) => value ? value.split(/\s+/).filter(Boolean) : undefined;
+
+  return {
+    nodes: xmlElements(xml, 'node').map(node => {
+      const data = readData(node.content);
+      return {
+        id: node.attributes.id,
+        name: data.name || data.label || node.attributes.id || '',
+        thumbnailUrl: data.thumbnail_url || undefined,
+        externalId: data.external_id || undefined,
+        externalUrls: urls(data.external_urls),
+      };
+    }),
+    edges: xmlElements(xml, 'edge').map(edge => {
+      const data = readData(edge.content);
+      return {
+        source: edge.attributes.source ?? '',
+        target: edge.attributes.target ?? '',
+        confidence: Number(data.confidence ?? data.weight ?? edge.attributes.weight),
+        evidenceUrl: data.best_evidence_url || urls(data.evidence_urls)?.[0],
+        thumbnailUrl: data.best_evidence_thumbnail || undefined,
+        contextUrl: data.context_url || undefined,
+      };
+    }),
+  };
+}
+
+// ============================================================================
+// Merge
+// ============================================================================
+
+function isHttpUrl(value: string | undefined): boolean {
+  return value === undefined || /^https?:\/\//i.test(value);
+}
+
+/**
+ * Merge an import into the graph
+ * Every distinct name is resolved once and all writes go out in batches,
+ * so a full import stays within a handful of D1 round trips.
+ * Returns the report and the inserted/raised edges for broadcasting.
+ */
+export async function importGraph(
+  db: D1Database,
+  payload: ImportPayload
+): Promise<{ report: ImportReport; changedEdges: GraphEdgeUpdate[] }> {
+  const report: ImportReport = {
+    nodes: { inserted: 0, updated: 0 },
+    edges: { inserted: 0, updated: 0, unchanged: 0 },
+    rejected: [],
+  };
+
+  // Payload node id -> person name, so edges can reference either
+  const namesById = new Map<string, string>();
+
+  const nodes: ImportNode[] = [];
+  for (const [index, node] of payload.nodes.entries()) {
+    if (!node.name || !normalizeName(node.name)) {
+      report.rejected.push({ kind: 'node', index, reason: 'Missing name' });
+      continue;
+    }
+    if (!isHttpUrl(node.thumbnailUrl)) {
+      report.rejected.push({ kind: 'node', index, reason: 'thumbnailUrl must be an http(s) URL' });
+      continue;
+    }
+    if (node.id) namesById.set(node.id, node.name);
+    nodes.push(node);
+  }
+
+  // Edges with both endpoints as names; the payload references are kept to find their nodes
+  const candidates: Array<{ index: number; edge: ImportEdge }> = [];
+  for (const [index, edge] of payload.edges.entries()) {
+    const source = namesById.get(edge.source) ?? edge.source;
+    const target = namesById.get(edge.target) ?? edge.target;
+
+    let reason: string | null = null;
+    if (!source || !target) {
+      reason = 'Missing source or target';
+    } else if (!Number.isFinite(edge.confidence) || edge.confidence < 0 || edge.confidence > 100) {
+      reason = 'confidence must be a number between 0 and 100';
+    } else if (![edge.evidenceUrl, edge.thumbnailUrl, edge.contextUrl].every(isHttpUrl)) {
+      reason = 'Evidence URLs must be http(s) URLs';
+    }
+    if (reason) {
+      report.rejected.push({ kind: 'edge', index, reason });
+      continue;
+    }
+    candidates.push({ index, edge: { ...edge, source, target } });
+  }
+
+  const [resolved, byExternalId] = await Promise.all([
+    resolveNodes(db, [...nodes.map(n => n.name), ...candidates.flatMap(({ edge }) => [edge.source, edge.target])]),
+    findNodesByExternalId(db, nodes.flatMap(n => n.externalId ? [n.externalId] : [])),
+  ]);
+  const resolve = (name: string) => resolved.get(normalizeName(name))!;
+
+  // Same rules as upsertNode: external identity first, then the name
+  const nodeUpsert = prepareNodeUpsert(db);
+  const nodeWrites: D1PreparedStatement[] = [];
+  const written = new Set<string>();
+  // Node id written for each payload node, by payload id and by name, for the edges
+  const idsByRef = new Map<string, string>();
+  const idsByName = new Map<string, string>();
+
+  for (const node of nodes) {
+    const { name, id: nameId, node: byName } = resolve(node.name);
+    const byExternal = node.externalId ? byExternalId.get(node.externalId) : undefined;
+    const id = byExternal?.id
+      ?? (node.externalId && byName?.external_id && byName.external_id !== node.externalId
+        ? generateExternalNodeId(node.externalId)
+        : nameId);
+
+    if (byExternal || byName?.id === id || written.has(id)) {
+      report.nodes.updated++;
+    } else {
+      report.nodes.inserted++;
+    }
+    written.add(id);
+    if (node.id) idsByRef.set(node.id, id);
+    if (!idsByName.has(normalizeName(node.name))) idsByName.set(normalizeName(node.name), id);
+
+    const externalUrls = node.externalId && node.externalUrls?.length ? JSON.stringify(node.externalUrls) : null;
+    nodeWrites.push(nodeUpsert.bind(
+      id,
+      name,
+      normalizeName(name),
+      node.thumbnailUrl || null,
+      node.externalId ?? null,
+      externalUrls
+    ));
+  }
+
+  // Endpoints that are payload nodes use the id written above; other names are
+  // resolved against the graph, and added to it if they are not there yet
+  const endpointId = (ref: string, name: string): string => {
+    const payloadId = idsByRef.get(ref) ?? idsByName.get(normalizeName(name));
+    if (payloadId) return payloadId;
+
+    const { name: canonicalName, id, node } = resolve(name);
+    if (!node && !written.has(id)) {
+      written.add(id);
+      nodeWrites.push(nodeUpsert.bind(id, canonicalName, normalizeName(canonicalName), null, null, null));
+    }
+    return id;
+  };
+
+  const edges: Array<ImportEdge & { sourceId: string; targetId: string }> = [];
+  for (const { index, edge } of candidates) {
+    const { source: sourceRef, target: targetRef } = payload.edges[index];
+    const sourceId = endpointId(sourceRef, edge.source);
+    const targetId = endpointId(targetRef, edge.target);
+    if (sourceId === targetId) {
+      report.rejected.push({ kind: 'edge', index, reason: 'Source and target are the same person' });
+      continue;
+    }
+    edges.push({ ...edge, sourceId, targetId });
+  }
+  report.rejected.sort((a, b) => a.kind === b.kind ? a.index - b.index : a.kind === 'node' ? -1 : 1);
+
+  const edgeIds = edges.map(edge => generateEdgeId(edge.sourceId, edge.targetId));
+  const confidences = new Map([...(await getEdgesById(db, edgeIds)).values()].map(edge => [edge.id, edge.confidence]));
+
+  const edgeUpsert = prepareEdgeUpsert(db);
+  const edgeWrites: D1PreparedStatement[] = [];
+  const changed: Array<{ id: string; update: Omit<GraphEdgeUpdate, 'version'> }> = [];
+
+  edges.forEach((edge, i) => {
+    const id = edgeIds[i];
+    edgeWrites.push(edgeUpsert.bind(
+      id,
+      edge.sourceId,
+      edge.targetId,
+      edge.confidence,
+      edge.evidenceUrl || null,
+      edge.thumbnailUrl || null,
+      edge.contextUrl || null
+    ));
+
+    const existing = confidences.get(id);
+    if (existing !== undefined && edge.confidence <= existing) {
+      report.edges.unchanged++;
+      return;
+    }
+    if (existing !== undefined) {
+      report.edges.updated++;
+    } else {
+      report.edges.inserted++;
+    }
+    confidences.set(id, edge.confidence);
+    changed.push({
+      id,
+      update: {
+        source: edge.source,
+        target: edge.target,
+        confidence: edge.confidence,
+        evidenceUrl: edge.evidenceUrl,
+        thumbnailUrl: edge.thumbnailUrl,
+        contextUrl: edge.contextUrl,
+      },
+    });
+  });
+
+  await batchWrites(db, [...nodeWrites, ...edgeWrites]);
+
+  // Versions stamped by the triggers
+  const stored = await getEdgesById(db, changed.map(c => c.id));
+  const changedEdges = changed.map(({ id, update }) => ({ ...update, version: stored.get(id)?.version }));
+
+  return { report, changedEdges };
+}
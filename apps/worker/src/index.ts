@@ -1,11 +1,48 @@
 import { Env } from './env';
-import { InvestigationEvent, EventsResponse } from '@visual-degrees/contracts';
+import {
+  InvestigationEvent,
+  EventsResponse,
+  RunConfigOverrides,
+  InvestigationBudgets,
+  InvestigationRunStatus,
+} from '@visual-degrees/contracts';
 import { OpenRouterClient, CelebrityRekognitionClient } from '@visual-degrees/integrations';
-import { getFullGraph, getGraphStats, findPath } from './graph-db';
+import { resolveRunConfig } from '@visual-degrees/core';
+import {
+  getFullGraph,
+  getGraphChanges,
+  getNeighborhood,
+  getSubgraph,
+  DEFAULT_NEIGHBORHOOD_DEPTH,
+  MAX_NEIGHBORHOOD_DEPTH,
+  MAX_SUBGRAPH_LIMIT,
+  MAX_SUBGRAPH_NODES,
+  type SubgraphOptions,
+  getGraphStats,
+  findPath,
+  getEdgeEvidence,
+  getEvidenceBetween,
+  resolveAliasName,
+  getAliases,
+  addAlias,
+  removeAlias,
+  mergeNodes,
+  getCassette,
+  finishRun,
+  listRuns,
+  getRun,
+  PATH_MODES,
+  RUN_STATUSES,
+  type PathMode,
+} from './graph-db';
+import { exportGraph, EXPORT_FORMATS, type ExportFormat } from './graph-export';
+import { getGraphAnalytics, refreshGraphAnalytics, DEFAULT_ANALYTICS_TOP, MAX_ANALYTICS_TOP } from './graph-analytics';
+import { importGraph, parseJsonImport, parseGraphmlImport, MAX_IMPORT_ROWS, type ImportPayload } from './graph-import';
 import { searchImages } from './tools/search';
 export { InvestigationWorkflow } from './workflows/investigation';
 export { GraphBroadcaster } from './durable-objects/graph-broadcaster';
 export { InvestigationEventsBroadcaster } from './durable-objects/investigation-events-broadcaster';
+export { StreamMultiplexer } from './durable-objects/stream-multiplexer';
 
 // Default allowed origins (fallback if env not set)
 const DEFAULT_ALLOWED_ORIGINS = [
@@ -41,11 +78,19 @@ function getCorsHeaders(request: Request, env: Env): Record<string, string> {
 
   return {
     "Access-Control-Allow-Origin": allowedOrigin,
-    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, Last-Event-ID",
   };
 }
 
+/**
+ * Check the admin bearer token (admin endpoints are disabled without ADMIN_TOKEN)
+ */
+function isAdmin(request: Request, env: Env): boolean {
+  if (!env.ADMIN_TOKEN) return false;
+  return request.headers.get("Authorization") === `Bearer ${env.ADMIN_TOKEN}`;
+}
+
 /**
  * Check if IP is whitelisted (from env variable)
  */
@@ -106,10 +151,44 @@ async function checkRateLimit(
 
   // Increment counter
   await env.RATE_LIMIT.put(key, JSON.stringify({ count: count + 1, resetAt }), {
-    expirationTtl: resetAt - now,
+    expirationTtl: Math.max(resetAt - now, 60),
+  });
+
+  // Counts can be fractional after cancellation refunds
+  return { allowed: true, remaining: Math.floor(RATE_LIMIT_MAX - count - 1), resetAt };
+}
+
+/**
+ * Give back part of a search to an IP's daily quota (e.g. after a cancelled run)
+ * Returns the remaining quota, or null if the IP has no active window
+ */
+async function refundRateLimit(env: Env, ip: string, amount: number): Promise<number | null> {
+  const key = `ratelimit:${ip}`;
+  const now = Math.floor(Date.now() / 1000);
+
+  const data = await env.RATE_LIMIT.get(key);
+  if (!data) return null;
+
+  const { count, resetAt } = JSON.parse(data);
+  if (now >= resetAt) return null;
+
+  const newCount = Math.max(count - amount, 0);
+  await env.RATE_LIMIT.put(key, JSON.stringify({ count: newCount, resetAt }), {
+    expirationTtl: Math.max(resetAt - now, 60),
   });
+  return Math.floor(RATE_LIMIT_MAX - newCount);
+}
 
-  return { allowed: true, remaining: RATE_LIMIT_MAX - count - 1, resetAt };
+/**
+ * Who started a run, so a cancellation can terminate it and refund the right IP
+ */
+interface RunRecord {
+  ip: string;
+  instanceId: string;
+  /** Secret handed to the client that started the run; cancelling requires it */
+  cancelToken: string;
+  /** Quota charged for the run (0 for whitelisted IPs) */
+  charged: number;
 }
 
 /**
@@ -121,6 +200,48 @@ function getClientIP(request: Request): string {
          "unknown";
 }
 
+/**
+ * Read the limit and minConfidence filters of a neighborhood or subgraph query
+ * Returns an error message for invalid values
+ */
+function parseSubgraphOptions(url: URL): SubgraphOptions | string {
+  const options: SubgraphOptions = {};
+
+  const limit = url.searchParams.get("limit");
+  if (limit !== null) {
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_SUBGRAPH_LIMIT) {
+      return `'limit' must be an integer between 1 and ${MAX_SUBGRAPH_LIMIT}`;
+    }
+    options.limit = value;
+  }
+
+  const minConfidence = url.searchParams.get("minConfidence");
+  if (minConfidence !== null) {
+    const value = Number(minConfidence);
+    if (!Number.isFinite(value) || value < 0 || value > 100) {
+      return "'minConfidence' must be a number between 0 and 100";
+    }
+    options.minConfidence = value;
+  }
+
+  return options;
+}
+
+// Analytics refresh started by an analytics request in this isolate, if one is running
+let analyticsRefreshRunning = false;
+
+/**
+ * Recompute graph analytics after the response is sent (at most one refresh per isolate at a time)
+ */
+function refreshAnalyticsInBackground(env: Env, ctx: ExecutionContext): void {
+  if (analyticsRefreshRunning) return;
+  analyticsRefreshRunning = true;
+  ctx.waitUntil(refreshGraphAnalytics(env.GRAPH_DB)
+    .catch((error) => console.warn("[Analytics] Refresh failed:", error instanceof Error ? error.message : error))
+    .finally(() => { analyticsRefreshRunning = false; }));
+}
+
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
@@ -162,6 +283,13 @@ export default {
       return stub.fetch(new Request(doUrl, request));
     }
 
+    // GET /api/ws - Multiplexed WebSocket: subscribe to any number of run event streams and graph deltas
+    // Each connection gets its own Durable Object that relays the per-run and graph broadcasters
+    if (url.pathname === "/api/ws" && request.headers.get("Upgrade") === "websocket") {
+      const stub = env.STREAM_MULTIPLEXER.get(env.STREAM_MULTIPLEXER.newUniqueId());
+      return stub.fetch(request);
+    }
+
     // POST /api/chat/parse - Parse a natural language query using AI
     if (url.pathname === "/api/chat/parse" && request.method === "POST") {
       try {
@@ -182,6 +310,18 @@ export default {
 
         const result = await client.parseQuery(query);
 
+        // Map stage names and known variants to canonical names
+        if (result.isValid) {
+          try {
+            [result.personA, result.personB] = await Promise.all([
+              resolveAliasName(env.GRAPH_DB, result.personA),
+              resolveAliasName(env.GRAPH_DB, result.personB),
+            ]);
+          } catch (e) {
+            console.warn("[Parse] Alias lookup failed:", e instanceof Error ? e.message : e);
+          }
+        }
+
         return new Response(JSON.stringify(result), {
           headers: { "Content-Type": "application/json", ...corsHeaders }
         });
@@ -220,7 +360,7 @@ export default {
           });
         }
 
-        const body = await request.json() as { personA?: string; personB?: string };
+        const body = await request.json() as { personA?: string; personB?: string } & RunConfigOverrides;
         const { personA, personB } = body;
 
         if (!personA || !personB) {
@@ -230,20 +370,44 @@ export default {
           });
         }
 
-        // Generate a unique run ID
+        // Optional preset / config / budget overrides, bounded by RUN_CONFIG_LIMITS
+        const runConfig = resolveRunConfig({
+          preset: body.preset,
+          config: body.config,
+          budgets: body.budgets,
+          bypassSearchCache: body.bypassSearchCache,
+        });
+        if (!runConfig.ok) {
+          return new Response(JSON.stringify({ error: runConfig.error }), {
+            status: 400,
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+
+        // Generate a unique run ID, and the token that lets this client cancel it
         const runId = crypto.randomUUID();
+        const cancelToken = crypto.randomUUID();
 
         // Trigger the workflow with the runId
         const instance = await env.INVESTIGATION_WORKFLOW.create({
-          params: { personA, personB, runId }
+          params: { personA, personB, runId, runConfig: runConfig.value }
         });
 
+        await env.RATE_LIMIT.put(`run:${runId}`, JSON.stringify({
+          ip: clientIP,
+          instanceId: instance.id,
+          cancelToken,
+          charged: isWhitelisted(env, clientIP) ? 0 : 1,
+        } satisfies RunRecord), { expirationTtl: RATE_LIMIT_WINDOW });
+
         return new Response(JSON.stringify({
           id: instance.id,
           runId,
+          cancelToken,
           status: "started",
           personA,
           personB,
+          config: runConfig.value,
         }), {
           headers: {
             "Content-Type": "application/json",
@@ -263,8 +427,8 @@ export default {
       }
     }
 
-    // GET /api/chat/stream/:runId - Server-Sent Events stream for real-time updates
-    if (url.pathname.startsWith("/api/chat/stream/") && request.method === "GET") {
+    // POST /api/chat/cancel/:runId - Stop a running investigation and refund unspent quota
+    if (url.pathname.startsWith("/api/chat/cancel/") && request.method === "POST") {
       const runId = url.pathname.split("/").pop();
       if (!runId) {
         return new Response(JSON.stringify({ error: "Missing runId" }), {
@@ -273,86 +437,113 @@ export default {
         });
       }
 
-      // Create SSE stream
-      const stream = new ReadableStream({
-        async start(controller) {
-          const encoder = new TextEncoder();
-          let cursor = 0;
-          let isComplete = false;
-          const streamStartTime = Date.now();
-          const MAX_STREAM_DURATION_MS = 10 * 60 * 1000; // 10 minutes max
-
-          const sendEvent = (event: InvestigationEvent) => {
-            const data = `data: ${JSON.stringify(event)}\n\n`;
-            controller.enqueue(encoder.encode(data));
-          };
-
-          // Poll for new events and stream them
-          while (!isComplete) {
-            // Check for stream timeout
-            if (Date.now() - streamStartTime > MAX_STREAM_DURATION_MS) {
-              const timeoutEvent = {
-                type: "error" as const,
-                runId,
-                timestamp: new Date().toISOString(),
-                message: "Stream exceeded maximum duration (10 minutes)",
-                data: { category: "TIMEOUT" as const }
-              };
-              sendEvent(timeoutEvent);
-              isComplete = true;
-              break;
-            }
+      try {
+        const stored = await env.RATE_LIMIT.get(`run:${runId}`);
+        if (!stored) {
+          return new Response(JSON.stringify({ error: "Run not found" }), {
+            status: 404,
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+        const run = JSON.parse(stored) as RunRecord;
 
-            try {
-              const countStr = await env.INVESTIGATION_EVENTS.get(`${runId}:count`);
-              const count = countStr ? parseInt(countStr, 10) : 0;
-
-              // Stream new events
-              for (let i = cursor; i < count; i++) {
-                const key = `${runId}:${String(i).padStart(6, "0")}`;
-                const eventJson = await env.INVESTIGATION_EVENTS.get(key);
-                if (eventJson) {
-                  try {
-                    const event = JSON.parse(eventJson) as InvestigationEvent;
-                    sendEvent(event);
-
-                    // Check for completion
-                    if (event.type === "final" || event.type === "no_path" || event.type === "error") {
-                      isComplete = true;
-                    }
-                  } catch {
-                    // Skip malformed events
-                    console.warn(`[SSE] Malformed event at ${key}`);
-                  }
-                }
-              }
+        // Only the client that started the run may stop it (run IDs are public via /api/runs)
+        const { cancelToken } = await request.json().catch(() => ({})) as { cancelToken?: string };
+        if (!cancelToken || cancelToken !== run.cancelToken) {
+          return new Response(JSON.stringify({ error: "Only the client that started this investigation can cancel it" }), {
+            status: 403,
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
 
-              cursor = count;
+        // Close the event stream first - it decides whether the run was still going
+        const doId = env.INVESTIGATION_EVENTS_BROADCASTER.idFromName(runId);
+        const stub = env.INVESTIGATION_EVENTS_BROADCASTER.get(doId);
+        const cancelResponse = await stub.fetch(new Request("https://internal/cancel", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ runId, message: "Investigation cancelled by user" }),
+        }));
+        const { cancelled, budget } = await cancelResponse.json() as {
+          cancelled: boolean;
+          budget: InvestigationBudgets | null;
+        };
 
-              // Small delay before next poll (100ms for faster updates)
-              if (!isComplete) {
-                await new Promise(resolve => setTimeout(resolve, 100));
-              }
-            } catch (error) {
-              // Send error event and close
-              console.error("[SSE] Stream error:", error instanceof Error ? error.message : error);
-              const errorEvent = {
-                type: "error" as const,
-                runId,
-                timestamp: new Date().toISOString(),
-                message: error instanceof Error ? error.message : "Stream error",
-                data: {}
-              };
-              sendEvent(errorEvent);
-              isComplete = true;
-            }
-          }
+        if (!cancelled) {
+          return new Response(JSON.stringify({ error: "Investigation already finished" }), {
+            status: 409,
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
 
-          controller.close();
+        try {
+          const instance = await env.INVESTIGATION_WORKFLOW.get(run.instanceId);
+          await instance.terminate();
+        } catch (e) {
+          // Instance may have just finished on its own
+          console.warn("[Cancel] Failed to terminate workflow:", e instanceof Error ? e.message : e);
+        }
+
+        try {
+          await finishRun(env.GRAPH_DB, runId, {
+            status: "cancelled",
+            budgets: budget ?? undefined,
+            message: "Investigation cancelled by user",
+          });
+        } catch (e) {
+          console.warn("[Cancel] Failed to record cancelled run:", e instanceof Error ? e.message : e);
         }
-      });
 
-      return new Response(stream, {
+        // Refund the share of the search that was not spent
+        const unspent = budget && budget.maxSubrequests > 0
+          ? Math.max(1 - budget.subrequestsUsed / budget.maxSubrequests, 0)
+          : 1;
+        const refunded = Math.round(run.charged * unspent * 100) / 100;
+        const remaining = refunded > 0 ? await refundRateLimit(env, run.ip, refunded) : null;
+        await env.RATE_LIMIT.delete(`run:${runId}`);
+
+        return new Response(JSON.stringify({ runId, status: "cancelled", refunded, remaining }), {
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      } catch (e) {
+        return new Response(JSON.stringify({
+          error: e instanceof Error ? e.message : String(e)
+        }), {
+          status: 500,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+    }
+
+    // GET /api/chat/stream/:runId - Server-Sent Events stream for real-time updates
+    // Served by the per-runId Durable Object; reconnects resume from Last-Event-ID
+    if (url.pathname.startsWith("/api/chat/stream/") && request.method === "GET") {
+      const runId = url.pathname.split("/").pop();
+      if (!runId) {
+        return new Response(JSON.stringify({ error: "Missing runId" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      const id = env.INVESTIGATION_EVENTS_BROADCASTER.idFromName(runId);
+      const stub = env.INVESTIGATION_EVENTS_BROADCASTER.get(id);
+
+      const doUrl = new URL("https://internal/sse");
+      doUrl.searchParams.set("runId", runId);
+      const cursor = url.searchParams.get("cursor");
+      if (cursor) {
+        doUrl.searchParams.set("cursor", cursor);
+      }
+      const headers = new Headers();
+      const lastEventId = request.headers.get("Last-Event-ID");
+      if (lastEventId) {
+        headers.set("Last-Event-ID", lastEventId);
+      }
+
+      const stream = await stub.fetch(doUrl.toString(), { headers });
+      return new Response(stream.body, {
+        status: stream.status,
         headers: {
           "Content-Type": "text/event-stream",
           "Cache-Control": "no-cache",
@@ -363,7 +554,8 @@ export default {
     }
 
     // GET /api/chat/events/:runId - Poll for events
-    // Query params: cursor (optional) - timestamp to get events after
+    // Query params: cursor (optional) - index of the next event to return
+    //               limit (optional) - page size, at most 100
     if (url.pathname.startsWith("/api/chat/events/") && request.method === "GET") {
       const runId = url.pathname.split("/").pop();
       if (!runId) {
@@ -374,36 +566,34 @@ export default {
       }
 
       try {
-        const cursorParam = url.searchParams.get("cursor");
-        const cursor = cursorParam ? parseInt(cursorParam, 10) : 0;
-
-        // Get the total event count
-        const countStr = await env.INVESTIGATION_EVENTS.get(`${runId}:count`);
-        const count = countStr ? parseInt(countStr, 10) : 0;
-
-        // Fetch all events after cursor
-        const events: InvestigationEvent[] = [];
-        for (let i = cursor; i < count; i++) {
-          const key = `${runId}:${String(i).padStart(6, "0")}`;
-          const eventJson = await env.INVESTIGATION_EVENTS.get(key);
-          if (eventJson) {
-            try {
-              events.push(JSON.parse(eventJson));
-            } catch {
-              // Skip malformed events
-            }
+        const id = env.INVESTIGATION_EVENTS_BROADCASTER.idFromName(runId);
+        const stub = env.INVESTIGATION_EVENTS_BROADCASTER.get(id);
+
+        const doUrl = new URL("https://internal/events");
+        for (const param of ["cursor", "limit"]) {
+          const value = url.searchParams.get(param);
+          if (value) {
+            doUrl.searchParams.set(param, value);
           }
         }
 
-        // Check if investigation is complete
-        const lastEvent = events[events.length - 1];
-        const complete = lastEvent?.type === "final" || lastEvent?.type === "no_path" || lastEvent?.type === "error";
+        const pageResponse = await stub.fetch(doUrl.toString());
+        if (!pageResponse.ok) {
+          throw new Error(`Event buffer returned ${pageResponse.status}`);
+        }
+        const page = await pageResponse.json() as {
+          events: InvestigationEvent[];
+          cursor: number;
+          hasMore: boolean;
+          complete: boolean;
+        };
 
         const response: EventsResponse = {
           runId,
-          events,
-          complete,
-          cursor: String(count),
+          events: page.events,
+          complete: page.complete,
+          cursor: String(page.cursor),
+          hasMore: page.hasMore,
         };
 
         return new Response(JSON.stringify(response), {
@@ -451,6 +641,28 @@ export default {
 
     // GET /api/graph - Get the full social graph for visualization
     if (url.pathname === "/api/graph" && request.method === "GET") {
+      const sinceParam = url.searchParams.get("since");
+      if (sinceParam !== null) {
+        const since = Number(sinceParam);
+        if (!Number.isInteger(since) || since < 0) {
+          return new Response(JSON.stringify({ error: "since must be a non-negative integer graph version" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+        try {
+          const changes = await getGraphChanges(env.GRAPH_DB, since);
+          return new Response(JSON.stringify(changes), {
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        } catch (e) {
+          return new Response(JSON.stringify({ error: e instanceof Error ? e.message : String(e) }), {
+            status: 500,
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+      }
+
       try {
         const graph = await getFullGraph(env.GRAPH_DB);
         return new Response(JSON.stringify(graph), {
@@ -468,6 +680,128 @@ export default {
       }
     }
 
+    // GET /api/graph/neighborhood?node=&depth= - People within N hops of a person
+    if (url.pathname === "/api/graph/neighborhood" && request.method === "GET") {
+      const node = url.searchParams.get("node");
+      if (!node) {
+        return new Response(JSON.stringify({ error: "Missing 'node' query parameter" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      const depthParam = url.searchParams.get("depth");
+      const depth = depthParam === null ? DEFAULT_NEIGHBORHOOD_DEPTH : Number(depthParam);
+      if (!Number.isInteger(depth) || depth < 0 || depth > MAX_NEIGHBORHOOD_DEPTH) {
+        return new Response(JSON.stringify({
+          error: `'depth' must be an integer between 0 and ${MAX_NEIGHBORHOOD_DEPTH}`
+        }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      const options = parseSubgraphOptions(url);
+      if (typeof options === "string") {
+        return new Response(JSON.stringify({ error: options }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      try {
+        const neighborhood = await getNeighborhood(env.GRAPH_DB, node, depth, options);
+        if (!neighborhood) {
+          return new Response(JSON.stringify({ error: `'${node}' is not in the graph` }), {
+            status: 404,
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+        return new Response(JSON.stringify(neighborhood), {
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      } catch (e) {
+        return new Response(JSON.stringify({ error: e instanceof Error ? e.message : String(e) }), {
+          status: 500,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+    }
+
+    // GET /api/graph/subgraph?nodes=a,b,c - The named people and the edges among them
+    if (url.pathname === "/api/graph/subgraph" && request.method === "GET") {
+      const names = (url.searchParams.get("nodes") ?? "")
+        .split(",")
+        .map(name => name.trim())
+        .filter(Boolean);
+      if (names.length === 0) {
+        return new Response(JSON.stringify({ error: "Missing 'nodes' query parameter (comma-separated names)" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+      if (names.length > MAX_SUBGRAPH_NODES) {
+        return new Response(JSON.stringify({ error: `At most ${MAX_SUBGRAPH_NODES} nodes per subgraph query` }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      const options = parseSubgraphOptions(url);
+      if (typeof options === "string") {
+        return new Response(JSON.stringify({ error: options }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      try {
+        const subgraph = await getSubgraph(env.GRAPH_DB, names, options);
+        return new Response(JSON.stringify(subgraph), {
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      } catch (e) {
+        return new Response(JSON.stringify({ error: e instanceof Error ? e.message : String(e) }), {
+          status: 500,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+    }
+
+    // GET /api/graph/analytics?top=10 - Centrality, components and separation statistics
+    if (url.pathname === "/api/graph/analytics" && request.method === "GET") {
+      const topParam = url.searchParams.get("top");
+      const top = topParam === null ? DEFAULT_ANALYTICS_TOP : Number(topParam);
+      if (!Number.isInteger(top) || top < 1 || top > MAX_ANALYTICS_TOP) {
+        return new Response(JSON.stringify({ error: `'top' must be an integer between 1 and ${MAX_ANALYTICS_TOP}` }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      try {
+        // Serve what is cached; a changed graph is recomputed in the background
+        const analytics = await getGraphAnalytics(env.GRAPH_DB, top);
+        if (!analytics || analytics.stale) {
+          refreshAnalyticsInBackground(env, ctx);
+        }
+        if (!analytics) {
+          return new Response(JSON.stringify({ error: "Graph analytics are being computed, try again shortly" }), {
+            status: 503,
+            headers: { "Content-Type": "application/json", "Retry-After": "30", ...corsHeaders }
+          });
+        }
+        return new Response(JSON.stringify(analytics), {
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      } catch (e) {
+        return new Response(JSON.stringify({ error: e instanceof Error ? e.message : String(e) }), {
+          status: 500,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+    }
+
     // GET /api/graph/stats - Get graph statistics
     if (url.pathname === "/api/graph/stats" && request.method === "GET") {
       try {
@@ -487,6 +821,28 @@ export default {
       }
     }
 
+    // GET /api/graph/export?format=graphml|gexf|csv|jsonld - Stream the whole graph for offline analysis
+    if (url.pathname === "/api/graph/export" && request.method === "GET") {
+      const format = (url.searchParams.get("format") || "graphml") as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        return new Response(JSON.stringify({
+          error: `Invalid 'format' - expected one of: ${EXPORT_FORMATS.join(", ")}`
+        }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      const { body, contentType, filename } = exportGraph(env.GRAPH_DB, format);
+      return new Response(body, {
+        headers: {
+          "Content-Type": contentType,
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          ...corsHeaders
+        }
+      });
+    }
+
     // GET /api/health - Test all external services
     if (url.pathname === "/api/health" && request.method === "GET") {
       const results: Record<string, { ok: boolean; message: string; latency?: number }> = {};
@@ -574,11 +930,14 @@ export default {
       });
     }
 
-    // GET /api/graph/path - Find shortest path between two people (cached lookup)
+    // GET /api/graph/path - Find a path between two people (cached lookup)
+    // mode: shortest (default) | widest | reliable | k-shortest (with k alternatives)
     if (url.pathname === "/api/graph/path" && request.method === "GET") {
       try {
         const from = url.searchParams.get("from");
         const to = url.searchParams.get("to");
+        const mode = (url.searchParams.get("mode") || "shortest") as PathMode;
+        const k = url.searchParams.get("k");
 
         if (!from || !to) {
           return new Response(JSON.stringify({
@@ -589,7 +948,16 @@ export default {
           });
         }
 
-        const pathResult = await findPath(env.GRAPH_DB, from, to);
+        if (!PATH_MODES.includes(mode)) {
+          return new Response(JSON.stringify({
+            error: `Invalid 'mode' - expected one of: ${PATH_MODES.join(", ")}`
+          }), {
+            status: 400,
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+
+        const pathResult = await findPath(env.GRAPH_DB, from, to, mode, k ? Number(k) || undefined : undefined);
         return new Response(JSON.stringify(pathResult), {
           headers: { "Content-Type": "application/json", ...corsHeaders }
         });
@@ -601,6 +969,39 @@ export default {
           steps: [],
           hops: 0,
           minConfidence: 0,
+          cumulativeConfidence: 0,
+          error: e instanceof Error ? e.message : String(e)
+        }), {
+          status: 200,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+    }
+
+    // GET /api/graph/evidence - All evidence images for the edge between two people
+    if (url.pathname === "/api/graph/evidence" && request.method === "GET") {
+      const from = url.searchParams.get("from");
+      const to = url.searchParams.get("to");
+
+      if (!from || !to) {
+        return new Response(JSON.stringify({
+          error: "Missing 'from' or 'to' query parameter"
+        }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      try {
+        const evidence = await getEvidenceBetween(env.GRAPH_DB, from, to);
+        return new Response(JSON.stringify({ from, to, evidence }), {
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      } catch (e) {
+        return new Response(JSON.stringify({
+          from,
+          to,
+          evidence: [],
           error: e instanceof Error ? e.message : String(e)
         }), {
           status: 200,
@@ -609,6 +1010,291 @@ export default {
       }
     }
 
+    // GET /api/graph/edges/:edgeId/evidence - All evidence images for an edge
+    const edgeEvidenceMatch = url.pathname.match(/^\/api\/graph\/edges\/([^/]+)\/evidence$/);
+    if (edgeEvidenceMatch && request.method === "GET") {
+      const edgeId = decodeURIComponent(edgeEvidenceMatch[1]);
+      try {
+        const evidence = await getEdgeEvidence(env.GRAPH_DB, edgeId);
+        return new Response(JSON.stringify({ edgeId, evidence }), {
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      } catch (e) {
+        return new Response(JSON.stringify({
+          edgeId,
+          evidence: [],
+          error: e instanceof Error ? e.message : String(e)
+        }), {
+          status: 200,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+    }
+
+    // GET /api/runs - Investigation history, newest first
+    if (url.pathname === "/api/runs" && request.method === "GET") {
+      const status = url.searchParams.get("status");
+      if (status && !RUN_STATUSES.includes(status as InvestigationRunStatus)) {
+        return new Response(JSON.stringify({
+          error: `Invalid 'status' - expected one of: ${RUN_STATUSES.join(", ")}`
+        }), {
+          status: 400,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      const limit = url.searchParams.get("limit");
+      const offset = url.searchParams.get("offset");
+
+      try {
+        const { runs, total } = await listRuns(env.GRAPH_DB, {
+          status: (status as InvestigationRunStatus | null) ?? undefined,
+          person: url.searchParams.get("person") ?? undefined,
+          since: url.searchParams.get("since") ?? undefined,
+          until: url.searchParams.get("until") ?? undefined,
+          limit: limit ? Number(limit) || undefined : undefined,
+          offset: offset ? Number(offset) || undefined : undefined,
+        });
+        return new Response(JSON.stringify({ runs, total }), {
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      } catch (e) {
+        return new Response(JSON.stringify({
+          runs: [],
+          total: 0,
+          error: e instanceof Error ? e.message : String(e)
+        }), {
+          status: 500,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+    }
+
+    // GET /api/runs/:runId - Full record of one run (path, budgets, edges written)
+    const runMatch = url.pathname.match(/^\/api\/runs\/([^/]+)$/);
+    if (runMatch && request.method === "GET") {
+      const runId = decodeURIComponent(runMatch[1]);
+      try {
+        const run = await getRun(env.GRAPH_DB, runId);
+        if (!run) {
+          return new Response(JSON.stringify({ error: "Run not found" }), {
+            status: 404,
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+        return new Response(JSON.stringify(run), {
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      } catch (e) {
+        return new Response(JSON.stringify({
+          error: e instanceof Error ? e.message : String(e)
+        }), {
+          status: 500,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+    }
+
+    // Admin endpoints - require Authorization: Bearer <ADMIN_TOKEN>
+    if (url.pathname.startsWith("/api/admin/")) {
+      if (!isAdmin(request, env)) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+
+      try {
+        // GET /api/admin/aliases - List all aliases
+        if (url.pathname === "/api/admin/aliases" && request.method === "GET") {
+          const aliases = await getAliases(env.GRAPH_DB);
+          return new Response(JSON.stringify({ aliases }), {
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+
+        // POST /api/admin/aliases - Add an alias { alias, canonicalName }
+        if (url.pathname === "/api/admin/aliases" && request.method === "POST") {
+          const body = await request.json() as { alias?: string; canonicalName?: string };
+          if (!body.alias || !body.canonicalName) {
+            return new Response(JSON.stringify({ error: "Missing alias or canonicalName" }), {
+              status: 400,
+              headers: { "Content-Type": "application/json", ...corsHeaders }
+            });
+          }
+
+          const alias = await addAlias(env.GRAPH_DB, body.alias, body.canonicalName);
+          return new Response(JSON.stringify(alias), {
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+
+        // DELETE /api/admin/aliases?alias=... - Remove an alias
+        if (url.pathname === "/api/admin/aliases" && request.method === "DELETE") {
+          const alias = url.searchParams.get("alias");
+          if (!alias) {
+            return new Response(JSON.stringify({ error: "Missing 'alias' query parameter" }), {
+              status: 400,
+              headers: { "Content-Type": "application/json", ...corsHeaders }
+            });
+          }
+
+          const removed = await removeAlias(env.GRAPH_DB, alias);
+          return new Response(JSON.stringify({ alias, removed }), {
+            status: removed ? 200 : 404,
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+
+        // POST /api/admin/nodes/merge - Merge a duplicate node { from, into }
+        if (url.pathname === "/api/admin/nodes/merge" && request.method === "POST") {
+          const body = await request.json() as { from?: string; into?: string };
+          if (!body.from || !body.into) {
+            return new Response(JSON.stringify({ error: "Missing from or into" }), {
+              status: 400,
+              headers: { "Content-Type": "application/json", ...corsHeaders }
+            });
+          }
+
+          const merged = await mergeNodes(env.GRAPH_DB, body.from, body.into);
+          if (!merged) {
+            return new Response(JSON.stringify({ error: "Node not found" }), {
+              status: 404,
+              headers: { "Content-Type": "application/json", ...corsHeaders }
+            });
+          }
+          return new Response(JSON.stringify(merged), {
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+
+        // POST /api/admin/graph/import - Merge a JSON or GraphML graph into D1
+        if (url.pathname === "/api/admin/graph/import" && request.method === "POST") {
+          const contentType = request.headers.get("Content-Type") ?? "";
+          const format = url.searchParams.get("format")
+            ?? (/xml|graphml/i.test(contentType) ? "graphml" : "json");
+          if (format !== "json" && format !== "graphml") {
+            return new Response(JSON.stringify({ error: "Invalid format (expected: json, graphml)" }), {
+              status: 400,
+              headers: { "Content-Type": "application/json", ...corsHeaders }
+            });
+          }
+
+          let payload: ImportPayload;
+          try {
+            payload = format === "graphml"
+              ? parseGraphmlImport(await request.text())
+              : parseJsonImport(await request.json());
+          } catch (e) {
+            return new Response(JSON.stringify({
+              error: `Invalid ${format} body: ${e instanceof Error ? e.message : String(e)}`
+            }), {
+              status: 400,
+              headers: { "Content-Type": "application/json", ...corsHeaders }
+            });
+          }
+
+          const rows = payload.nodes.length + payload.edges.length;
+          if (rows > MAX_IMPORT_ROWS) {
+            return new Response(JSON.stringify({
+              error: `Too many rows (${rows}); import at most ${MAX_IMPORT_ROWS} nodes and edges per request`
+            }), {
+              status: 413,
+              headers: { "Content-Type": "application/json", ...corsHeaders }
+            });
+          }
+
+          const { report, changedEdges } = await importGraph(env.GRAPH_DB, payload);
+
+          // Push new and strengthened edges to live graph viewers in one batch
+          if (changedEdges.length > 0) {
+            try {
+              const stub = env.GRAPH_BROADCASTER.get(env.GRAPH_BROADCASTER.idFromName("global"));
+              await stub.fetch(new Request("https://internal/broadcast", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(changedEdges)
+              }));
+            } catch (error) {
+              console.warn("[Import] Graph broadcast failed:", error instanceof Error ? error.message : error);
+            }
+
+            // Have analytics ready for the changed graph
+            ctx.waitUntil(refreshGraphAnalytics(env.GRAPH_DB).then(
+              () => undefined,
+              (error) => console.warn("[Import] Analytics refresh failed:", error instanceof Error ? error.message : error)
+            ));
+          }
+
+          return new Response(JSON.stringify({ format, ...report }), {
+            headers: { "Content-Type": "application/json", ...corsHeaders }
+          });
+        }
+
+        // GET /api/admin/cassettes/:runId - Download a run's recorded cassette
+        // POST /api/admin/cassettes/:runId/replay - Re-run the investigation from the cassette
+        const cassetteMatch = url.pathname.match(/^\/api\/admin\/cassettes\/([^/]+)(\/replay)?$/);
+        if (cassetteMatch) {
+          const recordedRunId = decodeURIComponent(cassetteMatch[1]);
+          const isReplay = !!cassetteMatch[2];
+
+          if (request.method === (isReplay ? "POST" : "GET")) {
+            const cassette = await getCassette(env.GRAPH_DB, recordedRunId);
+            if (!cassette) {
+              return new Response(JSON.stringify({ error: "Cassette not found" }), {
+                status: 404,
+                headers: { "Content-Type": "application/json", ...corsHeaders }
+              });
+            }
+
+            if (!isReplay) {
+              return new Response(JSON.stringify(cassette, null, 2), {
+                headers: {
+                  "Content-Type": "application/json",
+                  "Content-Disposition": `attachment; filename="cassette-${recordedRunId}.json"`,
+                  ...corsHeaders
+                }
+              });
+            }
+
+            const personA = String(cassette.meta.personA ?? "");
+            const personB = String(cassette.meta.personB ?? "");
+            const runId = crypto.randomUUID();
+            const cancelToken = crypto.randomUUID();
+            const instance = await env.INVESTIGATION_WORKFLOW.create({
+              params: { personA, personB, runId, replayOf: recordedRunId }
+            });
+            // Replays can be cancelled like any run, but cost no quota
+            await env.RATE_LIMIT.put(`run:${runId}`, JSON.stringify({
+              ip: getClientIP(request),
+              instanceId: instance.id,
+              cancelToken,
+              charged: 0,
+            } satisfies RunRecord), { expirationTtl: RATE_LIMIT_WINDOW });
+
+            return new Response(JSON.stringify({
+              id: instance.id,
+              runId,
+              cancelToken,
+              status: "started",
+              personA,
+              personB,
+              replayOf: recordedRunId,
+            }), {
+              headers: { "Content-Type": "application/json", ...corsHeaders }
+            });
+          }
+        }
+      } catch (e) {
+        return new Response(JSON.stringify({
+          error: e instanceof Error ? e.message : String(e)
+        }), {
+          status: 500,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+    }
+
     return new Response(JSON.stringify({
       service: "Connected? Worker",
       version: "1.0.0",
@@ -616,13 +1302,30 @@ export default {
         "GET /api/health",
         "POST /api/chat/parse",
         "POST /api/chat/query",
+        "POST /api/chat/cancel/:runId",
         "GET /api/chat/stream/:runId (SSE)",
         "GET /api/chat/events/:runId",
         "GET /api/chat/status/:instanceId",
-        "GET /api/graph",
+        "GET /api/graph?since=<version>",
+        "GET /api/graph/neighborhood?node=Person+A&depth=1&limit=150&minConfidence=0",
+        "GET /api/graph/subgraph?nodes=Person+A,Person+B&limit=150&minConfidence=0",
+        "GET /api/graph/analytics?top=10",
         "GET /api/graph/stats",
-        "GET /api/graph/path?from=Person+A&to=Person+B",
-        "GET /api/graph/ws (WebSocket)"
+        "GET /api/graph/export?format=graphml|gexf|csv|jsonld",
+        "GET /api/graph/path?from=Person+A&to=Person+B&mode=shortest|widest|reliable|k-shortest&k=3",
+        "GET /api/graph/evidence?from=Person+A&to=Person+B",
+        "GET /api/graph/edges/:edgeId/evidence",
+        "GET /api/runs?status=&person=&since=&until=&limit=&offset=",
+        "GET /api/runs/:runId",
+        "GET /api/admin/aliases (admin)",
+        "POST /api/admin/aliases (admin)",
+        "DELETE /api/admin/aliases?alias=... (admin)",
+        "POST /api/admin/nodes/merge (admin)",
+        "POST /api/admin/graph/import (admin)",
+        "GET /api/admin/cassettes/:runId (admin)",
+        "POST /api/admin/cassettes/:runId/replay (admin)",
+        "GET /api/graph/ws (WebSocket)",
+        "GET /api/ws (WebSocket, multiplexed runs + graph)"
       ]
     }), {
       status: 200,
@@ -1,17 +1,41 @@
 import { Env } from "../env";
-import { CelebrityRekognitionClient } from "@visual-degrees/integrations";
+import type { ImageAnalysisResult } from "@visual-degrees/contracts";
+import { getCachedDetection, cacheDetection } from "../graph-db";
+import { getProviders, getProviderName, type ToolProviderOptions } from "./providers";
 
-export const detectCelebrities = (env: Env) => async ({ imageUrl }: { imageUrl: string }) => {
-  if (!env.AWS_ACCESS_KEY_ID || !env.AWS_SECRET_ACCESS_KEY) {
-    throw new Error("Missing AWS configuration");
+const DEFAULT_DETECTION_CACHE_TTL_HOURS = 24 * 30;
+
+function detectionCacheTtlSeconds(env: Env): number {
+  const hours = Number(env.DETECTION_CACHE_TTL_HOURS ?? DEFAULT_DETECTION_CACHE_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 3600 : 0;
+}
+
+/**
+ * Rekognition celebrity detection, reused across runs through the D1 detection cache.
+ * Results are keyed by the image's content hash, so the same photo served from
+ * another URL is a hit too. `cached` says whether Rekognition was called.
+ * Fixture providers bypass the cache so their results never mix with live ones.
+ */
+export const detectCelebrities = (env: Env, options?: ToolProviderOptions) => async ({ imageUrl }: { imageUrl: string }): Promise<ImageAnalysisResult> => {
+  const providers = getProviders(env, options);
+  const ttlSeconds = detectionCacheTtlSeconds(env);
+  if (ttlSeconds === 0 || getProviderName(env) === "fixture") {
+    return { ...await providers.celebrityDetection.detectCelebrities(imageUrl), cached: false };
   }
 
-  const client = new CelebrityRekognitionClient({
-    region: env.AWS_REGION || "us-east-1",
-    accessKeyId: env.AWS_ACCESS_KEY_ID,
-    secretAccessKey: env.AWS_SECRET_ACCESS_KEY
-  });
-  
-  return await client.detectCelebrities(imageUrl);
-};
+  const contentHash = await providers.imageHasher.contentHash(imageUrl);
+  try {
+    const cached = await getCachedDetection(env.GRAPH_DB, contentHash);
+    if (cached) return { ...cached, imageUrl, cached: true };
+  } catch (error) {
+    console.warn("[DetectionCache] Lookup failed:", error instanceof Error ? error.message : error);
+  }
 
+  const result = await providers.celebrityDetection.detectCelebrities(imageUrl);
+  try {
+    await cacheDetection(env.GRAPH_DB, contentHash, result, ttlSeconds);
+  } catch (error) {
+    console.warn("[DetectionCache] Store failed:", error instanceof Error ? error.message : error);
+  }
+  return { ...result, cached: false };
+};
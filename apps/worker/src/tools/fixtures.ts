@@ -0,0 +1,339 @@
+import type { ImageAnalysisResult, ImageSearchResponse, PlannerInput, PlannerOutput } from "@visual-degrees/contracts";
+import type { SearchClient, VisualFilterClient, CelebrityDetectionClient } from "@visual-degrees/core";
+import { namesMatch, normalizeName } from "@visual-degrees/core";
+import type { OpenRouterBridgeSuggestion } from "@visual-degrees/integrations";
+
+/**
+ * Offline fixtures - deterministic stand-ins for Google PSE, Rekognition and OpenRouter.
+ *
+ * The fixture world is a small set of fictional people and photos:
+ *
+ *   Avery Stone ── Blake Rivera ── Casey Morgan ── Dana Whitfield
+ *        │              └── Frankie Lane ─────────────────┘
+ *        └── Elliot Park ·· Dana Whitfield (collage + low-confidence only)
+ *
+ * Morgan Hale only has a solo photo, so any query involving them ends in no_path.
+ */
+
+interface FixturePhoto {
+  id: string;
+  title: string;
+  /** People in the photo with the confidence Rekognition would report */
+  people: Array<{ name: string; confidence: number }>;
+  /** False for collages / split screens that the visual filter rejects */
+  realScene: boolean;
+}
+
+const FIXTURE_PHOTOS: FixturePhoto[] = [
+  {
+    id: "p01",
+    title: "Avery Stone and Blake Rivera at the film festival",
+    people: [{ name: "Avery Stone", confidence: 98.1 }, { name: "Blake Rivera", confidence: 95.4 }],
+    realScene: true,
+  },
+  {
+    id: "p02",
+    title: "Blake Rivera and Casey Morgan backstage",
+    people: [{ name: "Blake Rivera", confidence: 96.2 }, { name: "Casey Morgan", confidence: 92.7 }],
+    realScene: true,
+  },
+  {
+    id: "p03",
+    title: "Casey Morgan and Dana Whitfield at the charity gala",
+    people: [{ name: "Casey Morgan", confidence: 93.5 }, { name: "Dana Whitfield", confidence: 90.8 }],
+    realScene: true,
+  },
+  {
+    id: "p04",
+    title: "Avery Stone with Elliot Park",
+    people: [{ name: "Avery Stone", confidence: 97.0 }, { name: "Elliot Park", confidence: 88.3 }],
+    realScene: true,
+  },
+  {
+    id: "p05",
+    title: "Elliot Park vs Dana Whitfield side by side",
+    people: [{ name: "Elliot Park", confidence: 94.1 }, { name: "Dana Whitfield", confidence: 95.6 }],
+    realScene: false,
+  },
+  {
+    id: "p06",
+    title: "Elliot Park and Dana Whitfield in the crowd",
+    people: [{ name: "Elliot Park", confidence: 91.2 }, { name: "Dana Whitfield", confidence: 61.5 }],
+    realScene: true,
+  },
+  {
+    id: "p07",
+    title: "Blake Rivera, Casey Morgan and Frankie Lane at the premiere",
+    people: [
+      { name: "Blake Rivera", confidence: 94.8 },
+      { name: "Casey Morgan", confidence: 89.9 },
+      { name: "Frankie Lane", confidence: 91.3 },
+    ],
+    realScene: true,
+  },
+  {
+    id: "p08",
+    title: "Frankie Lane and Dana Whitfield on stage",
+    people: [{ name: "Frankie Lane", confidence: 90.4 }, { name: "Dana Whitfield", confidence: 92.2 }],
+    realScene: true,
+  },
+  {
+    id: "p09",
+    title: "Avery Stone portrait",
+    people: [{ name: "Avery Stone", confidence: 99.2 }],
+    realScene: true,
+  },
+  {
+    id: "p10",
+    title: "Dana Whitfield portrait",
+    people: [{ name: "Dana Whitfield", confidence: 98.7 }],
+    realScene: true,
+  },
+  {
+    id: "p11",
+    title: "Morgan Hale portrait",
+    people: [{ name: "Morgan Hale", confidence: 97.5 }],
+    realScene: true,
+  },
+];
+
+/** Results per query, same as the live Google PSE client */
+const FIXTURE_RESULTS_PER_QUERY = 5;
+
+const FIXTURE_PEOPLE = [...new Set(FIXTURE_PHOTOS.flatMap((p) => p.people.map((c) => c.name)))];
+
+/**
+ * Inline SVG so fixture images render in the UI without any network access
+ */
+function fixtureImageUrl(photo: FixturePhoto): string {
+  const hue = (parseInt(photo.id.slice(1), 10) * 47) % 360;
+  const lines = photo.people
+    .map((p, i) => `<text x='50%' y='${45 + i * 12}%' font-size='28' text-anchor='middle' fill='white'>${p.name}</text>`)
+    .join("");
+  const svg = `<svg xmlns='http://www.w3.org/2000/svg' width='640' height='427'><rect width='100%' height='100%' fill='hsl(${hue},45%,35%)'/>${lines}</svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+const PHOTOS_BY_URL = new Map(FIXTURE_PHOTOS.map((photo) => [fixtureImageUrl(photo), photo]));
+
+function photoPeople(photo: FixturePhoto): string[] {
+  return photo.people.map((p) => p.name);
+}
+
+/**
+ * Fixture people co-appearing with `name` in real-scene photos
+ */
+function fixtureNeighbors(name: string): string[] {
+  const neighbors = new Set<string>();
+  for (const photo of FIXTURE_PHOTOS) {
+    if (!photo.realScene || !photo.people.some((p) => namesMatch(p.name, name))) continue;
+    for (const other of photoPeople(photo)) {
+      if (!namesMatch(other, name)) neighbors.add(other);
+    }
+  }
+  return [...neighbors];
+}
+
+/**
+ * Hop distance between two fixture people (Infinity if not connected)
+ */
+function fixtureDistance(from: string, to: string): number {
+  if (namesMatch(from, to)) return 0;
+  const visited = new Set([normalizeName(from)]);
+  let frontier = [from];
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const name of frontier) {
+      for (const neighbor of fixtureNeighbors(name)) {
+        if (namesMatch(neighbor, to)) return depth;
+        if (visited.has(normalizeName(neighbor))) continue;
+        visited.add(normalizeName(neighbor));
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+  return Infinity;
+}
+
+/** Where each search provider stub starts its ranking - overlapping lists for fan-out merging */
+const SEARCH_PROVIDER_ROTATION: Record<string, number> = { google: 0, bing: 1, brave: 2, wikimedia: 3 };
+
+/**
+ * Image search over the fixture photos.
+ * Photos showing more of the people named in the query rank first.
+ *
+ * Also the local stub of every search provider: each provider returns the same
+ * photos rotated by a different offset, and a failing stub throws like a
+ * provider that is down or out of quota.
+ */
+export class FixtureSearchClient implements SearchClient {
+  constructor(
+    private readonly provider = "google",
+    private readonly failing = false
+  ) {}
+
+  async searchImages(query: string): Promise<ImageSearchResponse> {
+    if (this.failing) {
+      throw new Error(`Fixture ${this.provider} search is unavailable`);
+    }
+
+    const normalizedQuery = normalizeName(query);
+    const mentioned = FIXTURE_PEOPLE.filter((name) => normalizedQuery.includes(normalizeName(name)));
+
+    const results = FIXTURE_PHOTOS
+      .map((photo) => ({
+        photo,
+        score: photoPeople(photo).filter((name) => mentioned.includes(name)).length,
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || a.photo.id.localeCompare(b.photo.id))
+      .slice(0, FIXTURE_RESULTS_PER_QUERY)
+      .map(({ photo }) => ({
+        imageUrl: fixtureImageUrl(photo),
+        thumbnailUrl: fixtureImageUrl(photo),
+        contextUrl: `https://fixtures.invalid/photos/${photo.id}`,
+        title: photo.title,
+      }));
+
+    const offset = results.length > 0 ? (SEARCH_PROVIDER_ROTATION[this.provider] ?? 0) % results.length : 0;
+    return { query, results: [...results.slice(offset), ...results.slice(0, offset)] };
+  }
+}
+
+/**
+ * Visual filter that rejects the fixture collages
+ */
+export class FixtureVisualFilterClient implements VisualFilterClient {
+  async verifyVisualCopresence(imageUrl: string): Promise<{ isValidScene: boolean; reason: string; rawResponse: string }> {
+    const photo = PHOTOS_BY_URL.get(imageUrl);
+    const isValidScene = photo?.realScene ?? false;
+    const reason = !photo
+      ? "Unknown fixture image"
+      : isValidScene ? "Fixture: single real-world scene" : "Fixture: composite image";
+    return { isValidScene, reason, rawResponse: JSON.stringify({ isValidScene, reason }) };
+  }
+}
+
+/**
+ * Celebrity detection returning the fixture people with fixed confidences
+ */
+export class FixtureCelebrityClient implements CelebrityDetectionClient {
+  async detectCelebrities(imageUrl: string): Promise<ImageAnalysisResult> {
+    const photo = PHOTOS_BY_URL.get(imageUrl);
+    if (!photo) {
+      return { imageUrl, celebrities: [] };
+    }
+
+    const width = 1 / photo.people.length;
+    return {
+      imageUrl,
+      celebrities: photo.people.map((person, i) => ({
+        name: person.name,
+        confidence: person.confidence,
+        boundingBox: { left: i * width + width / 4, top: 0.2, width: width / 2, height: 0.4 },
+        externalId: `fixture_${normalizeName(person.name).replace(/\s+/g, "_")}`,
+        urls: [],
+      })),
+    };
+  }
+
+  /**
+   * Stand-in for the OpenRouter AI fallback - reads the same fixture detections
+   */
+  async verifyCelebritiesInImage(imageUrl: string, personA: string, personB: string) {
+    const photo = PHOTOS_BY_URL.get(imageUrl);
+    const confidenceOf = (name: string) =>
+      photo?.people.find((p) => namesMatch(p.name, name))?.confidence ?? 0;
+
+    const personAConfidence = confidenceOf(personA);
+    const personBConfidence = confidenceOf(personB);
+    const togetherInScene = personAConfidence > 0 && personBConfidence > 0 && (photo?.realScene ?? false);
+
+    return {
+      personAFound: personAConfidence > 0,
+      personAConfidence,
+      personBFound: personBConfidence > 0,
+      personBConfidence,
+      togetherInScene,
+      overallConfidence: togetherInScene ? Math.min(personAConfidence, personBConfidence) : 0,
+      notes: photo ? `Fixture photo ${photo.id}` : "Unknown fixture image",
+    };
+  }
+}
+
+/**
+ * Hashes for the fixture photos - one stable, well-separated perceptual hash per photo
+ */
+export class FixtureImageHasher {
+  async perceptualHash(imageUrl: string): Promise<string | null> {
+    const photo = PHOTOS_BY_URL.get(imageUrl);
+    if (!photo) return null;
+
+    // Two mixed FNV-1a passes with different offsets give 64 pseudo-random bits
+    const fnv = (offset: number) => {
+      let hash = offset;
+      for (const char of photo.id) {
+        hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+      }
+      hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+      hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+      return ((hash ^ (hash >>> 16)) >>> 0).toString(16).padStart(8, "0");
+    };
+    return fnv(0x811c9dc5) + fnv(0x050c5d1f);
+  }
+
+  // Fixture images have no bytes - the URL stands in for the content
+  async contentHash(imageUrl: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(imageUrl));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+  }
+}
+
+/**
+ * Planner that suggests fixture people, closest to the target first
+ */
+export class FixturePlannerClient {
+  async suggestBridgeCandidates(personA: string, personB: string, exclude?: string[]): Promise<OpenRouterBridgeSuggestion[]> {
+    const excluded = exclude ?? [];
+
+    return fixtureNeighbors(personA)
+      .filter((name) => !namesMatch(name, personB) && !excluded.some((e) => namesMatch(e, name)))
+      .map((name) => ({ name, distance: fixtureDistance(name, personB) }))
+      .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+      .map(({ name, distance }) => ({
+        name,
+        reasoning: `Fixture: photographed with ${personA}`,
+        connectionToA: "fixture photo",
+        connectionToB: Number.isFinite(distance) ? `${distance} hop(s) in fixtures` : "not connected in fixtures",
+        confidence: Number.isFinite(distance) ? Math.max(90 - distance * 10, 40) : 20,
+      }));
+  }
+
+  async selectNextExpansion(input: PlannerInput): Promise<PlannerOutput> {
+    const failed = new Set(input.failedCandidates.map((n) => n.toLowerCase()));
+    const available = input.candidates
+      .filter((c) => !failed.has(c.name.toLowerCase()))
+      .sort((a, b) => fixtureDistance(a.name, input.personB) - fixtureDistance(b.name, input.personB)
+        || b.bestCoappearConfidence - a.bestCoappearConfidence);
+
+    if (available.length === 0) {
+      return {
+        nextCandidates: [],
+        searchQueries: [],
+        narration: "No viable candidates remaining.",
+        stop: true,
+        reason: "All candidates exhausted or failed",
+      };
+    }
+
+    const next = available.slice(0, 2).map((c) => c.name);
+    return {
+      nextCandidates: next,
+      searchQueries: [`${next[0]} ${input.personB}`],
+      narration: `Trying expansion via ${next[0]}.`,
+      stop: false,
+      reason: "Fixture: closest candidate to the target",
+    };
+  }
+}
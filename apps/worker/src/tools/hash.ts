@@ -0,0 +1,6 @@
+import { Env } from "../env";
+import { getProviders, type ToolProviderOptions } from "./providers";
+
+export const perceptualHash = (env: Env, options?: ToolProviderOptions) => async ({ imageUrl }: { imageUrl: string }) => {
+  return await getProviders(env, options).imageHasher.perceptualHash(imageUrl);
+};
@@ -0,0 +1,53 @@
+import { Env } from "../env";
+import { ImageFetchCache, MemoryImageBlobStore } from "@visual-degrees/integrations";
+import type { FetchedImage, ImageBlobStore, ImageMimeType } from "@visual-degrees/integrations";
+
+/**
+ * R2-backed image blob store
+ * Bytes live under images/<sha256>; urls/<sha256 of URL> points at them.
+ */
+export class R2ImageBlobStore implements ImageBlobStore {
+  constructor(private readonly bucket: R2Bucket) {}
+
+  async get(sha256: string): Promise<{ bytes: Uint8Array; mimeType: ImageMimeType } | null> {
+    const object = await this.bucket.get(`images/${sha256}`);
+    if (!object) return null;
+    return {
+      bytes: new Uint8Array(await object.arrayBuffer()),
+      mimeType: (object.httpMetadata?.contentType ?? "image/jpeg") as ImageMimeType,
+    };
+  }
+
+  async put(image: FetchedImage): Promise<void> {
+    await this.bucket.put(`images/${image.sha256}`, image.bytes, {
+      httpMetadata: { contentType: image.mimeType },
+      customMetadata: { sourceUrl: image.url },
+    });
+  }
+
+  async lookupUrl(url: string): Promise<string | null> {
+    const object = await this.bucket.get(`urls/${await urlKey(url)}`);
+    return object ? await object.text() : null;
+  }
+
+  async linkUrl(url: string, sha256: string): Promise<void> {
+    await this.bucket.put(`urls/${await urlKey(url)}`, sha256);
+  }
+}
+
+async function urlKey(url: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(url));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Local stand-in when no IMAGE_BLOBS bucket is bound - lives as long as the isolate
+const localBlobStore = new MemoryImageBlobStore();
+
+/**
+ * Image fetch cache for one run, backed by IMAGE_BLOBS (R2) or the in-memory stand-in
+ */
+export function createImageFetchCache(env: Env): ImageFetchCache {
+  return new ImageFetchCache({
+    store: env.IMAGE_BLOBS ? new R2ImageBlobStore(env.IMAGE_BLOBS) : localBlobStore,
+  });
+}
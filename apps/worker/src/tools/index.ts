@@ -3,8 +3,10 @@ import { searchImages } from "./search";
 import { detectCelebrities } from "./detect";
 import { verifyCopresence } from "./verify";
 import { verifyCelebritiesWithAI } from "./verify-celebrities";
+import { perceptualHash } from "./hash";
+import type { ToolProviderOptions } from "./providers";
 
-export const getTools = (env: Env) => [
+export const getTools = (env: Env, options?: ToolProviderOptions) => [
   {
     name: "search_images",
     description: "Search for images of two people together",
@@ -12,10 +14,11 @@ export const getTools = (env: Env) => [
       type: "object",
       properties: {
         query: { type: "string", description: "Search query" },
+        bypassCache: { type: "boolean", description: "Search again instead of reusing cached results" },
       },
       required: ["query"],
     },
-    function: searchImages(env),
+    function: searchImages(env, options),
   },
   {
     name: "detect_celebrities",
@@ -27,7 +30,7 @@ export const getTools = (env: Env) => [
       },
       required: ["imageUrl"],
     },
-    function: detectCelebrities(env),
+    function: detectCelebrities(env, options),
   },
   {
     name: "verify_copresence",
@@ -39,7 +42,7 @@ export const getTools = (env: Env) => [
       },
       required: ["imageUrl"],
     },
-    function: verifyCopresence(env),
+    function: verifyCopresence(env, options),
   },
   {
     name: "verify_celebrities_ai",
@@ -53,6 +56,18 @@ export const getTools = (env: Env) => [
       },
       required: ["imageUrl", "personA", "personB"],
     },
-    function: verifyCelebritiesWithAI(env),
+    function: verifyCelebritiesWithAI(env, options),
+  },
+  {
+    name: "perceptual_hash",
+    description: "Perceptual hash of an image URL for near-duplicate detection",
+    parameters: {
+      type: "object",
+      properties: {
+        imageUrl: { type: "string", description: "Image URL to hash" },
+      },
+      required: ["imageUrl"],
+    },
+    function: perceptualHash(env, options),
   },
 ];
@@ -0,0 +1,266 @@
+import { Env } from "../env";
+import type { PlannerClient, SearchClient, VisualFilterClient, CelebrityDetectionClient } from "@visual-degrees/core";
+import {
+  GooglePSEClient,
+  BingImageSearchClient,
+  BraveImageSearchClient,
+  WikimediaCommonsClient,
+  MultiProviderSearchClient,
+  CelebrityRekognitionClient,
+  OpenRouterClient,
+  GeminiVisualFilterClient,
+  WorkersAIPlannerClient,
+} from "@visual-degrees/integrations";
+import type { ImageFetchCache, ImageSearchProvider, OpenRouterBridgeSuggestion, SearchMode } from "@visual-degrees/integrations";
+import { createImageFetchCache } from "./image-cache";
+import {
+  FixtureSearchClient,
+  FixtureVisualFilterClient,
+  FixtureCelebrityClient,
+  FixturePlannerClient,
+  FixtureImageHasher,
+} from "./fixtures";
+
+/**
+ * AI-based celebrity verification (fallback when Rekognition doesn't recognize someone)
+ */
+export interface CelebrityVerificationClient {
+  verifyCelebritiesInImage(imageUrl: string, personA: string, personB: string): Promise<{
+    personAFound: boolean;
+    personAConfidence: number;
+    personBFound: boolean;
+    personBConfidence: number;
+    togetherInScene: boolean;
+    overallConfidence: number;
+    notes: string;
+  }>;
+}
+
+/**
+ * Planner surface used by the investigation workflow
+ */
+export interface BridgePlannerClient extends PlannerClient {
+  suggestBridgeCandidates(personA: string, personB: string, exclude?: string[]): Promise<OpenRouterBridgeSuggestion[]>;
+}
+
+/**
+ * Hashing of search result images, for near-duplicate detection and cache keys
+ */
+export interface ImageHasherClient {
+  /** 64-bit dHash as 16 hex chars, or null when the image cannot be decoded */
+  perceptualHash(imageUrl: string): Promise<string | null>;
+  /** SHA-256 of the image bytes (hex) */
+  contentHash(imageUrl: string): Promise<string>;
+}
+
+export interface ToolProviders {
+  search: SearchClient;
+  visualFilter: VisualFilterClient;
+  celebrityDetection: CelebrityDetectionClient;
+  celebrityVerification: CelebrityVerificationClient;
+  planner: BridgePlannerClient;
+  imageHasher: ImageHasherClient;
+}
+
+export type ToolProviderName = "live" | "fixture";
+
+export type SearchProviderName = "google" | "bing" | "brave" | "wikimedia";
+
+const SEARCH_PROVIDER_NAMES: SearchProviderName[] = ["google", "bing", "brave", "wikimedia"];
+const SEARCH_MODES: SearchMode[] = ["failover", "fanout"];
+
+export interface ToolProviderOptions {
+  /** Image fetch cache shared by the run's vision calls (a fresh one per call if omitted) */
+  imageCache?: ImageFetchCache;
+}
+
+/**
+ * Image search providers selected by SEARCH_PROVIDERS, in priority order (defaults to "google")
+ */
+export function getSearchProviderNames(env: Env): SearchProviderName[] {
+  const names = (env.SEARCH_PROVIDERS || "google").split(",").map(name => name.trim().toLowerCase()).filter(Boolean);
+  for (const name of names) {
+    if (!SEARCH_PROVIDER_NAMES.includes(name as SearchProviderName)) {
+      throw new Error(`Unknown search provider "${name}" in SEARCH_PROVIDERS (expected: ${SEARCH_PROVIDER_NAMES.join(", ")})`);
+    }
+  }
+  return [...new Set(names)] as SearchProviderName[];
+}
+
+/**
+ * How several search providers are combined, from SEARCH_MODE (defaults to "failover")
+ */
+export function getSearchMode(env: Env): SearchMode {
+  const mode = env.SEARCH_MODE?.trim().toLowerCase() || "failover";
+  if (!SEARCH_MODES.includes(mode as SearchMode)) {
+    throw new Error(`Unknown SEARCH_MODE "${env.SEARCH_MODE}" (expected: ${SEARCH_MODES.join(", ")})`);
+  }
+  return mode as SearchMode;
+}
+
+/**
+ * One search client over the selected providers - a single provider is used directly
+ */
+function createSearchClient(env: Env, clientFor: (name: SearchProviderName) => ImageSearchProvider): SearchClient {
+  const names = getSearchProviderNames(env);
+  if (names.length === 1) {
+    return clientFor(names[0]);
+  }
+  return new MultiProviderSearchClient({
+    providers: names.map(name => ({ name, client: clientFor(name) })),
+    mode: getSearchMode(env),
+  });
+}
+
+/**
+ * Live image search clients. Missing credentials surface as errors on the
+ * first call, so failover moves on to the next provider.
+ */
+const LIVE_SEARCH_PROVIDERS: Record<SearchProviderName, (env: Env) => ImageSearchProvider> = {
+  google: env => ({
+    async searchImages(query) {
+      if (!env.GOOGLE_API_KEY || !env.GOOGLE_CX) {
+        throw new Error("Missing Google API configuration");
+      }
+      const client = new GooglePSEClient({
+        apiKey: env.GOOGLE_API_KEY,
+        searchEngineId: env.GOOGLE_CX,
+        numResults: 5,
+      });
+      return await client.searchImages(query);
+    },
+  }),
+  bing: env => ({
+    async searchImages(query) {
+      if (!env.BING_API_KEY) {
+        throw new Error("Missing BING_API_KEY");
+      }
+      const client = new BingImageSearchClient({
+        apiKey: env.BING_API_KEY,
+        endpoint: env.BING_SEARCH_ENDPOINT,
+        numResults: 5,
+      });
+      return await client.searchImages(query);
+    },
+  }),
+  brave: env => ({
+    async searchImages(query) {
+      if (!env.BRAVE_API_KEY) {
+        throw new Error("Missing BRAVE_API_KEY");
+      }
+      const client = new BraveImageSearchClient({ apiKey: env.BRAVE_API_KEY, numResults: 5 });
+      return await client.searchImages(query);
+    },
+  }),
+  wikimedia: () => new WikimediaCommonsClient({ numResults: 5 }),
+};
+
+/**
+ * Live providers - Google PSE (or other search providers), Rekognition and OpenRouter/Gemini.
+ * Missing credentials surface as errors on the first call, not at construction.
+ */
+function createLiveProviders(env: Env, options: ToolProviderOptions): ToolProviders {
+  // Rekognition, OpenRouter and Gemini read each image from one download
+  const imageCache = options.imageCache ?? createImageFetchCache(env);
+
+  const openRouter = () => {
+    if (!env.OPENROUTER_API_KEY) {
+      throw new Error("Missing OPENROUTER_API_KEY");
+    }
+    return new OpenRouterClient({
+      apiKey: env.OPENROUTER_API_KEY,
+      model: "google/gemini-2.0-flash-001",
+      imageCache,
+    });
+  };
+
+  return {
+    search: createSearchClient(env, name => LIVE_SEARCH_PROVIDERS[name](env)),
+    visualFilter: {
+      async verifyVisualCopresence(imageUrl) {
+        // Use OpenRouter if available, otherwise fall back to direct Gemini
+        if (env.OPENROUTER_API_KEY) {
+          return await openRouter().verifyVisualCopresence(imageUrl);
+        }
+        if (!env.GEMINI_API_KEY) {
+          throw new Error("Missing OPENROUTER_API_KEY or GEMINI_API_KEY");
+        }
+        const client = new GeminiVisualFilterClient({
+          apiKey: env.GEMINI_API_KEY,
+          gatewayUrl: env.GEMINI_GATEWAY_URL,
+          imageCache,
+        });
+        return await client.verifyVisualCopresence(imageUrl);
+      },
+    },
+    celebrityDetection: {
+      async detectCelebrities(imageUrl) {
+        if (!env.AWS_ACCESS_KEY_ID || !env.AWS_SECRET_ACCESS_KEY) {
+          throw new Error("Missing AWS configuration");
+        }
+        const client = new CelebrityRekognitionClient({
+          region: env.AWS_REGION || "us-east-1",
+          accessKeyId: env.AWS_ACCESS_KEY_ID,
+          secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+          imageCache,
+        });
+        return await client.detectCelebrities(imageUrl);
+      },
+    },
+    celebrityVerification: {
+      async verifyCelebritiesInImage(imageUrl, personA, personB) {
+        return await openRouter().verifyCelebritiesInImage(imageUrl, personA, personB);
+      },
+    },
+    // Planner - use OpenRouter (Gemini 3 Flash) if available, otherwise Workers AI
+    planner: env.OPENROUTER_API_KEY
+      ? openRouter()
+      : new WorkersAIPlannerClient(env.AI as any),
+    // Hashes the same downloaded bytes the vision providers read
+    imageHasher: {
+      async perceptualHash(imageUrl) {
+        return await imageCache.perceptualHash(imageUrl);
+      },
+      async contentHash(imageUrl) {
+        return (await imageCache.fetch(imageUrl)).sha256;
+      },
+    },
+  };
+}
+
+/**
+ * Fixture providers - deterministic, no network (see ./fixtures)
+ * Search uses the stub of each selected provider; FIXTURE_FAILING_SEARCH_PROVIDERS makes stubs fail.
+ */
+function createFixtureProviders(env: Env): ToolProviders {
+  const celebrities = new FixtureCelebrityClient();
+  const failing = (env.FIXTURE_FAILING_SEARCH_PROVIDERS ?? "").split(",").map(name => name.trim().toLowerCase());
+  return {
+    search: createSearchClient(env, name => new FixtureSearchClient(name, failing.includes(name))),
+    visualFilter: new FixtureVisualFilterClient(),
+    celebrityDetection: celebrities,
+    celebrityVerification: celebrities,
+    planner: new FixturePlannerClient(),
+    imageHasher: new FixtureImageHasher(),
+  };
+}
+
+const PROVIDER_REGISTRY: Record<ToolProviderName, (env: Env, options: ToolProviderOptions) => ToolProviders> = {
+  live: createLiveProviders,
+  fixture: createFixtureProviders,
+};
+
+/**
+ * Provider set selected by TOOL_PROVIDER (defaults to "live")
+ */
+export function getProviderName(env: Env): ToolProviderName {
+  const name = env.TOOL_PROVIDER?.trim().toLowerCase() || "live";
+  if (!(name in PROVIDER_REGISTRY)) {
+    throw new Error(`Unknown TOOL_PROVIDER "${env.TOOL_PROVIDER}" (expected: ${Object.keys(PROVIDER_REGISTRY).join(", ")})`);
+  }
+  return name as ToolProviderName;
+}
+
+export function getProviders(env: Env, options: ToolProviderOptions = {}): ToolProviders {
+  return PROVIDER_REGISTRY[getProviderName(env)](env, options);
+}
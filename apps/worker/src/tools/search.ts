@@ -1,17 +1,59 @@
 import { Env } from "../env";
-import { GooglePSEClient } from "@visual-degrees/integrations";
+import type { ImageSearchResponse } from "@visual-degrees/contracts";
+import { normalizeQuery } from "@visual-degrees/core";
+import { getCachedSearch, cacheSearch } from "../graph-db";
+import { getProviders, getProviderName, getSearchProviderNames, getSearchMode, type ToolProviderOptions } from "./providers";
 
-export const searchImages = (env: Env) => async ({ query }: { query: string }) => {
-  if (!env.GOOGLE_API_KEY || !env.GOOGLE_CX) {
-    throw new Error("Missing Google API configuration");
+const DEFAULT_SEARCH_CACHE_TTL_HOURS = 24;
+
+function searchCacheTtlSeconds(env: Env): number {
+  const hours = Number(env.SEARCH_CACHE_TTL_HOURS ?? DEFAULT_SEARCH_CACHE_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 3600 : 0;
+}
+
+/**
+ * Cache key of a query: results depend on which providers answered it and how
+ * they were combined, so e.g. "google:failover|tom hanks" and
+ * "google,bing:fanout|tom hanks" are separate entries
+ */
+function searchCacheKey(env: Env, normalizedQuery: string): string {
+  const source = getProviderName(env) === "fixture"
+    ? "fixture"
+    : `${getSearchProviderNames(env).join(",")}:${getSearchMode(env)}`;
+  return `${source}|${normalizedQuery}`;
+}
+
+/**
+ * Image search behind the D1 query cache.
+ * Queries differing only in case or whitespace share an entry as long as the
+ * search providers and mode are the same; `bypassCache`
+ * searches again (and refreshes the entry). Empty results are not cached.
+ */
+export const searchImages = (env: Env, options?: ToolProviderOptions) => async ({ query, bypassCache }: { query: string; bypassCache?: boolean }): Promise<ImageSearchResponse> => {
+  const search = getProviders(env, options).search;
+  const ttlSeconds = searchCacheTtlSeconds(env);
+  if (ttlSeconds === 0) {
+    const { results } = await search.searchImages(query);
+    return { query, results, cache: "bypass" };
   }
-  
-  const client = new GooglePSEClient({
-    apiKey: env.GOOGLE_API_KEY,
-    searchEngineId: env.GOOGLE_CX,
-    numResults: 5
-  });
-  
-  return await client.searchImages(query);
-};
 
+  const cacheKey = searchCacheKey(env, normalizeQuery(query));
+  if (!bypassCache) {
+    try {
+      const cached = await getCachedSearch(env.GRAPH_DB, cacheKey);
+      if (cached) return { query, results: cached, cache: "hit" };
+    } catch (error) {
+      console.warn("[SearchCache] Lookup failed:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  const { results } = await search.searchImages(query);
+  if (results.length > 0) {
+    try {
+      await cacheSearch(env.GRAPH_DB, cacheKey, query, results, ttlSeconds);
+    } catch (error) {
+      console.warn("[SearchCache] Store failed:", error instanceof Error ? error.message : error);
+    }
+  }
+  return { query, results, cache: bypassCache ? "bypass" : "miss" };
+};
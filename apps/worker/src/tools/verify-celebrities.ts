@@ -1,10 +1,10 @@
 import { Env } from "../env";
-import { OpenRouterClient } from "@visual-degrees/integrations";
+import { getProviders, type ToolProviderOptions } from "./providers";
 
 /**
  * AI-based celebrity verification - use when Rekognition doesn't recognize someone
  */
-export const verifyCelebritiesWithAI = (env: Env) => async ({
+export const verifyCelebritiesWithAI = (env: Env, options?: ToolProviderOptions) => async ({
   imageUrl,
   personA,
   personB,
@@ -13,14 +13,5 @@ export const verifyCelebritiesWithAI = (env: Env) => async ({
   personA: string;
   personB: string;
 }) => {
-  if (!env.OPENROUTER_API_KEY) {
-    throw new Error("Missing OPENROUTER_API_KEY");
-  }
-
-  const client = new OpenRouterClient({
-    apiKey: env.OPENROUTER_API_KEY,
-    model: "google/gemini-2.0-flash-001",
-  });
-
-  return await client.verifyCelebritiesInImage(imageUrl, personA, personB);
+  return await getProviders(env, options).celebrityVerification.verifyCelebritiesInImage(imageUrl, personA, personB);
 };
@@ -1,17 +1,25 @@
 import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep } from "cloudflare:workers";
 import { Env } from "../env";
 import { getTools } from "../tools";
-import { WorkersAIPlannerClient, OpenRouterClient } from "@visual-degrees/integrations";
+import { getProviders } from "../tools/providers";
+import { createImageFetchCache } from "../tools/image-cache";
 import {
   InvestigationState,
+  InvestigationBudgets,
   DEFAULT_BUDGETS,
-  DEFAULT_CONFIG,
+  DEFAULT_PRESET,
+  INVESTIGATION_PRESETS,
+  EffectiveRunConfig,
   VerifiedEdge,
   InvestigationResult,
   InvestigationEvent,
   InvestigationEventType,
   InvestigationStepId,
   EvidenceRecord,
+  ImageSearchResult,
+  ImageSearchResponse,
+  ImageAnalysisResult,
+  Candidate,
 } from "@visual-degrees/contracts";
 import {
   directQuery,
@@ -19,19 +27,48 @@ import {
   bridgeQueries,
   isValidEvidence,
   createEvidenceRecord,
+  createAIEvidenceRecord,
   createVerifiedEdge,
   calculatePathConfidence,
   namesMatch,
+  createAliasRegistry,
+  CassetteTape,
+  PhotoDeduplicator,
+  aggregateCandidates,
+  mergeCandidateSources,
 } from "@visual-degrees/core";
-import { upsertEdge } from "../graph-db";
+import type { AnalysisWithContext, AliasRegistry } from "@visual-degrees/core";
+import {
+  upsertEdge,
+  findEdge,
+  findPath,
+  getAliases,
+  saveCassette,
+  getCassette,
+  createRun,
+  addRunEdge,
+  finishRun,
+} from "../graph-db";
+import type { GraphEdge, PathStep } from "../graph-db";
+import { refreshGraphAnalytics } from "../graph-analytics";
 import type { GraphEdgeUpdate } from "../durable-objects/graph-broadcaster";
+import type { ImageFetchCache } from "@visual-degrees/integrations";
 
 interface Params {
   personA: string;
   personB: string;
   runId: string;
+  /** Replay the cassette recorded for this earlier run instead of calling external services */
+  replayOf?: string;
+  /** Effective config/budget limits resolved by the API (defaults to the standard preset) */
+  runConfig?: EffectiveRunConfig;
 }
 
+const DEFAULT_RUN_CONFIG: EffectiveRunConfig = {
+  preset: DEFAULT_PRESET,
+  ...INVESTIGATION_PRESETS[DEFAULT_PRESET],
+};
+
 /**
  * Step definitions for clear UI progression
  */
@@ -48,6 +85,13 @@ const STEP_DEFINITIONS: Record<InvestigationStepId, { number: number; title: str
 const EVENT_INDEX_PADDING = 6;  // Supports up to 999,999 events per run
 const EVENT_TTL_SECONDS = 3600; // 1 hour expiration
 
+/**
+ * Bidirectional search limits for the frontier grown from the target
+ */
+const BACKWARD_CANDIDATES_PER_ROUND = 2;  // People verified per target-side round
+const MAX_BACKWARD_DEPTH = 2;             // Hops from the target on its side
+const BACKWARD_STEP_SHARE = 0.5;          // Max share of the step budget for the target side
+
 /**
  * Creates an event emitter that broadcasts events via Durable Object
  * and optionally persists to KV for debugging/fallback
@@ -55,10 +99,12 @@ const EVENT_TTL_SECONDS = 3600; // 1 hour expiration
 function createEventEmitter(
   env: Env,
   runId: string,
-  options: { persistToKV?: boolean } = { persistToKV: false }
+  options: { persistToKV?: boolean; runConfig?: EffectiveRunConfig } = { persistToKV: false }
 ) {
   let eventIndex = 0;
   let currentStepNumber = 0;
+  // Budget usage stamped on every event (lets a cancel refund the unspent share)
+  let getBudgets: (() => InvestigationBudgets) | null = null;
 
   const emitRaw = async (
     type: InvestigationEventType,
@@ -75,6 +121,9 @@ function createEventEmitter(
       message,
       data: {
         ...data,
+        budget: data?.budget ?? getBudgets?.(),
+        // Echo the effective run config with the outcome
+        config: data?.config ?? (type === "final" || type === "no_path" ? options.runConfig : undefined),
         eventId, // Unique ID for frontend deduplication
       },
     };
@@ -116,6 +165,11 @@ function createEventEmitter(
   return {
     emit: emitRaw,
 
+    // Attach the run's budget usage to all following events
+    trackBudgets: (getter: () => InvestigationBudgets) => {
+      getBudgets = getter;
+    },
+
     // Start a new step
     startStep: async (
       stepId: InvestigationStepId,
@@ -159,11 +213,115 @@ function createEventEmitter(
   };
 }
 
+/**
+ * Convert stored graph steps into VerifiedEdges, renaming the endpoints
+ * to the names used in this run so path bookkeeping stays consistent
+ */
+function graphStepsToEdges(steps: PathStep[], from: string, to: string): VerifiedEdge[] {
+  return steps.map((s, i) => {
+    const edgeFrom = i === 0 ? from : s.fromName;
+    const edgeTo = i === steps.length - 1 ? to : s.toName;
+    const record: EvidenceRecord = {
+      from: edgeFrom,
+      to: edgeTo,
+      imageUrl: s.evidenceUrl ?? "",
+      thumbnailUrl: s.thumbnailUrl ?? s.evidenceUrl ?? "",
+      contextUrl: s.contextUrl ?? "",
+      title: "",
+      detectedCelebs: [],
+      imageScore: s.confidence,
+    };
+    return createVerifiedEdge(edgeFrom, edgeTo, [record])!;
+  });
+}
+
 export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
+  /** Cassette the run records into (CASSETTE_MODE=record) or replays from (replayOf) */
+  private tape: CassetteTape | null = null;
+
+  /** Config and budget limits for this run (preset + overrides, bounded by RUN_CONFIG_LIMITS) */
+  private runConfig: EffectiveRunConfig = DEFAULT_RUN_CONFIG;
+  // Name matching for this run: the D1 alias registry, or the built-in aliases if it is unavailable
+  private aliases: AliasRegistry = createAliasRegistry([]);
+
+  /** Budget usage of the run in progress (recorded in the runs table when it ends) */
+  private budgets: InvestigationBudgets | null = null;
+
+  /** Run ID the graph edges written by this run are linked to */
+  private runId = "";
+
+  /**
+   * Route an external call through the run's cassette, if any
+   */
+  private async taped<R>(call: string, args: unknown[], fn: () => Promise<R>): Promise<R> {
+    return this.tape ? await this.tape.run(call, args, fn) : await fn();
+  }
+
+  /**
+   * Replays re-run a recorded investigation without touching the shared graph:
+   * no edge writes, no graph broadcasts, no analytics refresh
+   */
+  private get isReplay(): boolean {
+    return this.tape?.mode === "replay";
+  }
+
+  /**
+   * Look up an already-verified path in the graph database
+   * Only edges at the run's confidence threshold count, and paths longer than
+   * maxHops (the run's hop limit by default) are ignored. Returns null if the
+   * graph has no such path (or the lookup fails)
+   */
+  private async lookupGraphPath(
+    step: WorkflowStep,
+    stepName: string,
+    from: string,
+    to: string,
+    maxHops: number = this.runConfig.config.hopLimit
+  ): Promise<VerifiedEdge[] | null> {
+    return await step.do(stepName, async () => {
+      try {
+        const { confidenceThreshold } = this.runConfig.config;
+        const pathResult = await this.taped("graph.findPath", [from, to], () =>
+          findPath(this.env.GRAPH_DB, from, to, "shortest", undefined, confidenceThreshold)
+        );
+        if (!pathResult.found || pathResult.steps.length === 0 || pathResult.steps.length > maxHops) return null;
+        return graphStepsToEdges(pathResult.steps, from, to);
+      } catch (error) {
+        // Graph lookup is an optimization - fall back to live verification
+        console.warn("[Investigation] Graph path lookup failed:", error instanceof Error ? error.message : error);
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Look up an already-verified edge between two people in the graph database
+   * Edges below the run's confidence threshold are ignored
+   */
+  private async lookupGraphEdge(
+    step: WorkflowStep,
+    stepName: string,
+    from: string,
+    to: string
+  ): Promise<VerifiedEdge | null> {
+    return await step.do(stepName, async () => {
+      try {
+        const graphStep = await this.taped("graph.findEdge", [from, to], () =>
+          findEdge(this.env.GRAPH_DB, from, to, this.runConfig.config.confidenceThreshold)
+        );
+        return graphStep ? graphStepsToEdges([graphStep], from, to)[0] : null;
+      } catch (error) {
+        console.warn("[Investigation] Graph edge lookup failed:", error instanceof Error ? error.message : error);
+        return null;
+      }
+    });
+  }
+
   /**
    * Broadcast a new edge to all connected WebSocket clients
    */
   private async broadcastEdge(edge: GraphEdgeUpdate): Promise<void> {
+    if (this.isReplay) return;
     try {
       const id = this.env.GRAPH_BROADCASTER.idFromName("global");
       const stub = this.env.GRAPH_BROADCASTER.get(id);
@@ -178,13 +336,147 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
     }
   }
 
+  /**
+   * Persist a verified edge to the graph and, if that inserted it or raised
+   * its confidence, link it to this run's record
+   * Returns null for replays, which leave the graph alone.
+   */
+  private async persistEdge(
+    sourceName: string,
+    targetName: string,
+    confidence: number,
+    bestEvidenceUrl?: string,
+    bestEvidenceThumbnail?: string,
+    contextUrl?: string,
+    evidence: EvidenceRecord[] = []
+  ): Promise<GraphEdge | null> {
+    if (this.isReplay) return null;
+
+    const edge = await upsertEdge(
+      this.env.GRAPH_DB,
+      sourceName,
+      targetName,
+      confidence,
+      bestEvidenceUrl,
+      bestEvidenceThumbnail,
+      contextUrl,
+      evidence
+    );
+    if (!edge.changed) return edge;
+    try {
+      await addRunEdge(this.env.GRAPH_DB, this.runId, edge.id);
+    } catch (error) {
+      console.warn("[Investigation] Failed to link edge to run:", error instanceof Error ? error.message : error);
+    }
+    return edge;
+  }
+
+  /**
+   * Record how the run ended in the runs table, then bring graph analytics up to date
+   */
+  private async recordRunOutcome(
+    step: WorkflowStep,
+    outcome: InvestigationResult | { status: "error"; message: string }
+  ): Promise<void> {
+    const budgets = this.budgets ? { ...this.budgets } : undefined;
+    await step.do("record-run-outcome", async () => {
+      try {
+        await finishRun(this.env.GRAPH_DB, this.runId, {
+          status: outcome.status,
+          budgets,
+          result: outcome.status === "success" ? outcome.result : undefined,
+          message: outcome.status === "success" ? undefined : outcome.message,
+        });
+      } catch (error) {
+        console.warn("[Investigation] Failed to record run outcome:", error instanceof Error ? error.message : error);
+      }
+    });
+
+    if (this.isReplay) return;
+
+    // Recompute cached analytics if the run upserted edges (no-op otherwise)
+    await step.do("refresh-graph-analytics", async () => {
+      try {
+        await refreshGraphAnalytics(this.env.GRAPH_DB);
+      } catch (error) {
+        console.warn("[Investigation] Failed to refresh graph analytics:", error instanceof Error ? error.message : error);
+      }
+    });
+  }
+
   async run(event: WorkflowEvent<Params>, step: WorkflowStep) {
+    const { personA, personB, runId, replayOf, runConfig } = event.payload;
+    this.runConfig = runConfig ?? DEFAULT_RUN_CONFIG;
+    this.runId = runId;
+
+    if (replayOf) {
+      const cassette = await getCassette(this.env.GRAPH_DB, replayOf);
+      if (!cassette) {
+        throw new Error(`No cassette recorded for run ${replayOf}`);
+      }
+      this.tape = CassetteTape.replay(cassette);
+      // Replay with the recorded run's config so the same calls are made
+      this.runConfig = runConfig ?? (cassette.meta.runConfig as EffectiveRunConfig | undefined) ?? DEFAULT_RUN_CONFIG;
+    } else if (this.env.CASSETTE_MODE === "record") {
+      this.tape = CassetteTape.record({ runId, personA, personB, runConfig: this.runConfig });
+    }
+
+    // Run history - parameters now, outcome and budget usage when the run ends
+    await step.do("record-run-start", async () => {
+      try {
+        await createRun(this.env.GRAPH_DB, {
+          runId,
+          instanceId: event.instanceId,
+          personA,
+          personB,
+          config: this.runConfig,
+          replayOf,
+        });
+      } catch (error) {
+        console.warn("[Investigation] Failed to record run:", error instanceof Error ? error.message : error);
+      }
+    });
+
+    try {
+      // Images are downloaded once per run and shared by Rekognition, OpenRouter and Gemini
+      const imageCache = createImageFetchCache(this.env);
+      const result = await this.investigate(event, step, imageCache);
+      await this.recordRunOutcome(step, result);
+      return result;
+    } catch (error) {
+      await this.recordRunOutcome(step, {
+        status: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      const tape = this.tape;
+      if (tape?.mode === "record") {
+        // Steps restored from a previous invocation are not re-run, so a resumed
+        // instance only records the calls made after it resumed
+        await step.do("save-cassette", async () => {
+          try {
+            await saveCassette(this.env.GRAPH_DB, runId, personA, personB, tape.toCassette());
+            return tape.size;
+          } catch (error) {
+            console.warn("[Investigation] Failed to save cassette:", error instanceof Error ? error.message : error);
+            return 0;
+          }
+        });
+      }
+    }
+  }
+
+  private async investigate(event: WorkflowEvent<Params>, step: WorkflowStep, imageCache: ImageFetchCache) {
     const { personA, personB, runId } = event.payload;
-    const tools = getTools(this.env);
+    const providerOptions = { imageCache };
+    const tools = getTools(this.env, providerOptions);
+    const config = this.runConfig.config;
 
     // Create event emitter with step helpers
     // Events are broadcast via Durable Object WebSocket; KV persistence disabled for performance
-    const { emit, startStep: rawStartStep, updateStep, completeStep: rawCompleteStep } = createEventEmitter(this.env, runId);
+    const { emit, trackBudgets, startStep: rawStartStep, updateStep, completeStep: rawCompleteStep } =
+      createEventEmitter(this.env, runId, { runConfig: this.runConfig });
 
     // Track currently running step to ensure it's completed before no_path
     let currentRunningStep: InvestigationStepId | null = null;
@@ -232,7 +524,7 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
       };
     }
 
-    if (namesMatch(trimmedA, trimmedB)) {
+    if (namesMatch(trimmedA, trimmedB, this.aliases)) {
       // Same person - return immediate success with 0 hops
       await emit("final", `${trimmedA} is the same person - no path needed!`, {
         result: {
@@ -253,14 +545,15 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
           confidence: { pathBottleneck: 100, pathCumulative: 1 },
         },
         disclaimer: "Same person specified for both endpoints.",
+        config: this.runConfig,
       };
     }
 
-    // Tool wrappers
-    const searchImages = tools.find(t => t.name === "search_images")!.function as unknown as (args: { query: string }) => Promise<any>;
-    const detectCelebrities = tools.find(t => t.name === "detect_celebrities")!.function as unknown as (args: { imageUrl: string }) => Promise<any>;
-    const verifyCopresence = tools.find(t => t.name === "verify_copresence")!.function as unknown as (args: { imageUrl: string }) => Promise<any>;
-    const verifyCelebritiesAI = tools.find(t => t.name === "verify_celebrities_ai")!.function as unknown as (args: { imageUrl: string; personA: string; personB: string }) => Promise<{
+    // Tool wrappers (recorded/replayed through the run's cassette, if any)
+    const searchTool = tools.find(t => t.name === "search_images")!.function as unknown as (args: { query: string; bypassCache?: boolean }) => Promise<ImageSearchResponse>;
+    const detectTool = tools.find(t => t.name === "detect_celebrities")!.function as unknown as (args: { imageUrl: string }) => Promise<ImageAnalysisResult>;
+    const copresenceTool = tools.find(t => t.name === "verify_copresence")!.function as unknown as (args: { imageUrl: string }) => Promise<any>;
+    const verifyCelebritiesTool = tools.find(t => t.name === "verify_celebrities_ai")!.function as unknown as (args: { imageUrl: string; personA: string; personB: string }) => Promise<{
       personAFound: boolean;
       personAConfidence: number;
       personBFound: boolean;
@@ -269,14 +562,137 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
       overallConfidence: number;
       notes: string;
     }>;
+    const hashTool = tools.find(t => t.name === "perceptual_hash")!.function as unknown as (args: { imageUrl: string }) => Promise<string | null>;
+    const perceptualHash = (args: { imageUrl: string }) =>
+      this.taped("imageHasher.perceptualHash", [args.imageUrl], () => hashTool(args));
+
+    // Near-duplicate photos (the same shot on several sites, crops, resizes) are analyzed once per run:
+    // copies are skipped for a pair that already saw the photo, and other pairs reuse its analysis
+    const seenPhotos = new PhotoDeduplicator();
+    const canonicalPhotoUrl = new Map<string, string>();
+    const photosByPair = new Map<string, Set<string>>();
+    const skipDuplicatePhoto = async (img: ImageSearchResult, from: string, to: string): Promise<boolean> => {
+      let hash: string | null;
+      try {
+        hash = await perceptualHash({ imageUrl: img.imageUrl });
+      } catch {
+        // Unreachable images fail again in the visual check, which reports them
+        return false;
+      }
+      if (!hash) return false;
+
+      img.perceptualHash = hash;
+      const canonicalUrl = seenPhotos.check(img.imageUrl, hash) ?? img.imageUrl;
+      canonicalPhotoUrl.set(img.imageUrl, canonicalUrl);
+
+      const pairKey = [from, to].map(name => name.toLowerCase()).sort().join("|");
+      const pairPhotos = photosByPair.get(pairKey) ?? new Set<string>();
+      photosByPair.set(pairKey, pairPhotos);
+      if (!pairPhotos.has(canonicalUrl)) {
+        pairPhotos.add(canonicalUrl);
+        return false;
+      }
 
-    // Planner - use OpenRouter (Gemini 3 Flash) if available, otherwise Workers AI
-    const planner = this.env.OPENROUTER_API_KEY
-      ? new OpenRouterClient({
-          apiKey: this.env.OPENROUTER_API_KEY,
-          model: "google/gemini-2.0-flash-001",
-        })
-      : new WorkersAIPlannerClient(this.env.AI as any);
+      await emit("image_result", "Duplicate - already analyzed this photo", {
+        imageUrl: img.thumbnailUrl,
+        status: "duplicate",
+        reason: canonicalUrl === img.imageUrl ? "Same image URL" : `Near-duplicate of ${canonicalUrl}`,
+      });
+      return true;
+    };
+
+    // Analyses are shared by all copies of a photo
+    const photoAnalyses = new Map<string, Promise<unknown>>();
+    const analyzeOnce = <R>(call: string, imageUrl: string, extra: string[], fn: (imageUrl: string) => Promise<R>): Promise<R> => {
+      const photoUrl = canonicalPhotoUrl.get(imageUrl) ?? imageUrl;
+      const key = [call, photoUrl, ...extra].join("\u0000");
+      if (!photoAnalyses.has(key)) {
+        // Failed calls are not cached, so a later copy can retry
+        photoAnalyses.set(key, fn(photoUrl).catch(error => {
+          photoAnalyses.delete(key);
+          throw error;
+        }));
+      }
+      return photoAnalyses.get(key) as Promise<R>;
+    };
+
+    // Searches and vision calls spend a subrequest only when they reach a provider: copies of a
+    // photo reuse the memoized analysis and search/detection cache hits are free. Failed calls still count.
+    const trackedCall = async <R>(fn: () => Promise<R>, external: (result: R) => boolean = () => true): Promise<R> => {
+      let result: R;
+      try {
+        result = await fn();
+      } catch (error) {
+        trackSubrequest();
+        throw error;
+      }
+      if (external(result)) trackSubrequest();
+      return result;
+    };
+
+    // Every photo analyzed this run, mined for people seen next to a frontier
+    const photoContexts = new Map<string, string>();
+    const analyzedPhotos: AnalysisWithContext[] = [];
+    // Photos analyzed by the verification step in progress; they are returned with the
+    // step's result so a replayed step restores them without running again
+    let stepPhotos: AnalysisWithContext[] | null = null;
+
+    const searchImages = async (args: { query: string }) => {
+      const response = await trackedCall(
+        () => this.taped("search.searchImages", [args.query], () => searchTool({ ...args, bypassCache: this.runConfig.bypassSearchCache })),
+        result => result.cache !== "hit"
+      );
+      await emit("research", `Image search "${args.query}"${response.cache === "hit" ? " (cached)" : ""}: ${response.results.length} result(s)`, {
+        query: args.query,
+        searchCache: response.cache,
+        resultCount: response.results.length,
+      });
+      for (const result of response.results) {
+        if (!photoContexts.has(result.imageUrl)) photoContexts.set(result.imageUrl, result.contextUrl);
+      }
+      return response;
+    };
+    const detectCelebrities = (args: { imageUrl: string }) =>
+      analyzeOnce("detect", args.imageUrl, [], async imageUrl => {
+        const analysis = await trackedCall(
+          () => this.taped("celebrityDetection.detectCelebrities", [imageUrl], () => detectTool({ imageUrl })),
+          result => !result.cached
+        );
+        if (analysis.cached) {
+          state.budgets.detectionCacheHits = (state.budgets.detectionCacheHits ?? 0) + 1;
+        } else {
+          state.budgets.detectionCacheMisses = (state.budgets.detectionCacheMisses ?? 0) + 1;
+        }
+        (stepPhotos ?? analyzedPhotos).push({ analysis, contextUrl: photoContexts.get(imageUrl) ?? imageUrl });
+        return analysis;
+      });
+
+    // Run a step that searches and verifies photos, keeping the photos it analyzed
+    const verificationStep = async (name: string, verify: () => Promise<VerifiedEdge | null>): Promise<VerifiedEdge | null> => {
+      const { edge, photos } = await step.do(name, async () => {
+        const photos: AnalysisWithContext[] = [];
+        stepPhotos = photos;
+        try {
+          return { edge: await verify(), photos };
+        } finally {
+          stepPhotos = null;
+        }
+      });
+      for (const photo of photos) {
+        if (!analyzedPhotos.some(p => p.analysis.imageUrl === photo.analysis.imageUrl)) analyzedPhotos.push(photo);
+      }
+      return edge;
+    };
+    const verifyCopresence = (args: { imageUrl: string }) =>
+      analyzeOnce("copresence", args.imageUrl, [], imageUrl => trackedCall(() =>
+        this.taped("visualFilter.verifyVisualCopresence", [imageUrl], () => copresenceTool({ imageUrl }))));
+    const verifyCelebritiesAI = (args: { imageUrl: string; personA: string; personB: string }) =>
+      analyzeOnce("verifyCelebrities", args.imageUrl, [args.personA, args.personB], imageUrl => trackedCall(() =>
+        this.taped("celebrityVerification.verifyCelebritiesInImage", [imageUrl, args.personA, args.personB], () => verifyCelebritiesTool({ ...args, imageUrl }))));
+
+    // Planner - OpenRouter or Workers AI, or the offline fixture planner (TOOL_PROVIDER=fixture)
+    const providers = getProviders(this.env, providerOptions);
+    const planner = this.tape ? this.tape.wrapClient("planner", providers.planner) : providers.planner;
 
     // Initial State (must be initialized before using state.budgets)
     let state: InvestigationState = {
@@ -287,9 +703,11 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
       path: [personA],
       verifiedEdges: [],
       failedCandidates: [],
-      budgets: { ...DEFAULT_BUDGETS },
+      budgets: { ...DEFAULT_BUDGETS, ...this.runConfig.budgets, detectionCacheHits: 0, detectionCacheMisses: 0 },
       status: "running",
     };
+    trackBudgets(() => state.budgets);
+    this.budgets = state.budgets;
 
     // Helper to check budget - returns true if we can continue
     const checkBudget = () => {
@@ -309,13 +727,360 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
       state.budgets.stepsUsed++;
     };
 
+    // Load the alias registry so name matching recognizes stage names and variants
+    const aliases = await step.do("load-aliases", async () => {
+      try {
+        const entries = await this.taped("graph.getAliases", [], () => getAliases(this.env.GRAPH_DB));
+        return entries.map(a => ({ alias: a.alias, canonical: a.canonicalName }));
+      } catch (error) {
+        console.warn("[Investigation] Alias registry unavailable:", error instanceof Error ? error.message : error);
+        return null;
+      }
+    });
+    // D1 is seeded with the built-in aliases, so it replaces them (deleted aliases stay deleted)
+    this.aliases = aliases ? createAliasRegistry(aliases, []) : createAliasRegistry([]);
+
     // Emit initial status
     await emit("status", `Starting investigation: ${personA} → ${personB}`, {
       hop: 0,
       frontier: personA,
       budget: state.budgets,
+      config: this.runConfig,
     });
 
+    // Emit a hop reused from the persisted graph (no budget spent, nothing to persist)
+    const emitGraphEvidence = async (edge: VerifiedEdge) => {
+      await emit("evidence", `From graph: ${edge.from} ↔ ${edge.to}`, {
+        edge: {
+          from: edge.from,
+          to: edge.to,
+          confidence: edge.edgeConfidence,
+          evidenceUrl: edge.bestEvidence.imageUrl,
+          thumbnailUrl: edge.bestEvidence.thumbnailUrl,
+          contextUrl: edge.bestEvidence.contextUrl,
+          fromGraph: true,
+        },
+      });
+    };
+
+    // Look up a graph path from a bridge to the target that doesn't revisit the current path
+    // and fits in the hops the current path leaves (the bridge is the path's last person)
+    const lookupGraphTail = async (stepName: string, from: string): Promise<VerifiedEdge[] | null> => {
+      const remainingHops = config.hopLimit - (state.path.length - 1);
+      if (remainingHops <= 0) return null;
+      const tail = await this.lookupGraphPath(step, stepName, from, personB, remainingHops);
+      if (!tail) return null;
+      const revisits = tail.slice(0, -1).some(e => state.path.some(p => namesMatch(p, e.to, this.aliases)));
+      return revisits ? null : tail;
+    };
+
+    // Complete the path with graph edges from the current bridge to the target
+    const finishWithGraphTail = async (tail: VerifiedEdge[]): Promise<InvestigationResult> => {
+      for (const edge of tail) {
+        state.verifiedEdges.push(edge);
+        state.path.push(edge.to);
+        await emitGraphEvidence(edge);
+      }
+
+      await completeStep("connect_target", true, `Connection to ${personB} found in the graph!`);
+
+      await emit("path_update", `Path complete: ${state.path.join(" → ")}`, {
+        path: state.path,
+        hopDepth: state.path.length - 1,
+      });
+
+      const result = this.finalizeSuccess(state);
+      const confidence = calculatePathConfidence(state.verifiedEdges);
+      await emit("final", `Investigation complete! Found ${state.path.length - 1}-hop connection with ${Math.round(confidence.pathBottleneck)}% confidence.`, {
+        result: result.status === "success" ? result.result : undefined,
+      });
+      return result;
+    };
+
+    // ========================================================================
+    // Bidirectional search: a second frontier grown from personB
+    // ========================================================================
+
+    // People verified to reach personB, with their chain of edges to personB
+    const backwardReached = new Map<string, { name: string; depth: number; chain: VerifiedEdge[] }>([
+      [personB.toLowerCase(), { name: personB, depth: 0, chain: [] }],
+    ]);
+    const backwardQueue: string[] = [personB];
+    let backwardRound = 0;
+
+    // Chain from a person to personB if the target side reached them, it doesn't revisit the
+    // path and, after the hops needed to reach that person, stays within the hop limit
+    const findBackwardChain = (name: string, hopsBefore: number): VerifiedEdge[] | null => {
+      for (const entry of backwardReached.values()) {
+        if (entry.chain.length === 0 || !namesMatch(entry.name, name, this.aliases)) continue;
+        if (hopsBefore + entry.chain.length > config.hopLimit) continue;
+        const revisits = entry.chain.slice(0, -1).some(e => state.path.some(p => namesMatch(p, e.to, this.aliases)));
+        if (!revisits) return entry.chain;
+      }
+      return null;
+    };
+
+    // Try people the target side already reached first - verifying them (one more hop
+    // from the current path) closes the path
+    const meetCandidatesFirst = (names: string[]): string[] => [
+      ...names.filter(name => findBackwardChain(name, state.path.length)),
+      ...names.filter(name => !findBackwardChain(name, state.path.length)),
+    ];
+
+    // Join the forward path (up to the meeting point) with the target-side chain
+    const finishWithMeet = async (meetIndex: number, chain: VerifiedEdge[]): Promise<InvestigationResult> => {
+      const meetingPoint = state.path[meetIndex];
+      const forwardPath = state.path.slice(0, meetIndex + 1);
+      const backwardPath = [meetingPoint, ...chain.map(e => e.to)];
+
+      state.path = [...forwardPath, ...chain.map(e => e.to)];
+      state.verifiedEdges = [...state.verifiedEdges.slice(0, meetIndex), ...chain];
+      state.hopDepth = state.path.length - 1;
+
+      // Close the forward step in progress - the target side finished the path
+      if (currentRunningStep) {
+        await completeStep(currentRunningStep, true, `Frontiers met at ${meetingPoint}`);
+      }
+
+      await emit("strategy_update", `Frontiers met at ${meetingPoint}`, {
+        confirmedBridge: meetingPoint,
+        progressPct: 100,
+      });
+
+      await emit("path_update", `Path complete: ${forwardPath.join(" → ")} ⇄ ${backwardPath.join(" → ")}`, {
+        path: state.path,
+        hopDepth: state.hopDepth,
+        forwardPath,
+        backwardPath,
+        meetingPoint,
+      });
+
+      const result = this.finalizeSuccess(state);
+      const confidence = calculatePathConfidence(state.verifiedEdges);
+      await emit("final", `Investigation complete! Frontiers met at ${meetingPoint} - ${state.hopDepth}-hop connection with ${Math.round(confidence.pathBottleneck)}% confidence.`, {
+        result: result.status === "success" ? result.result : undefined,
+      });
+      return result;
+    };
+
+    // Search for photos of two people together and verify them: Rekognition first, AI
+    // verification as the fallback. Stops at the first piece of evidence.
+    const verifyPair = async (from: string, to: string): Promise<VerifiedEdge | null> => {
+      const evidence: EvidenceRecord[] = [];
+      let validImageIndex = 0;
+
+      for (const q of verificationQueries(from, to)) {
+        if (!checkBudget()) break;
+        try {
+          const searchRes = await searchImages({ query: q });
+          const images = searchRes.results.slice(0, config.imagesPerQuery);
+
+          for (const img of images) {
+            if (!checkBudget()) break;
+            if (await skipDuplicatePhoto(img, from, to)) continue;
+
+            try {
+              const visual = await verifyCopresence({ imageUrl: img.imageUrl });
+              if (!visual.isValidScene) {
+                // Collages are not counted
+                await emit("image_result", `Collage - ${visual.reason}`, {
+                  imageUrl: img.thumbnailUrl,
+                  status: "collage",
+                  reason: visual.reason,
+                });
+                continue;
+              }
+
+              validImageIndex++;
+              const analysis = await detectCelebrities({ imageUrl: img.imageUrl });
+              const celebs = analysis.celebrities.map(c => ({ name: c.name, confidence: Math.round(c.confidence) }));
+
+              const record = isValidEvidence(analysis.celebrities, from, to, config.confidenceThreshold, this.aliases)
+                ? createEvidenceRecord(img, analysis, from, to, this.aliases)
+                : null;
+              if (record) {
+                evidence.push(record);
+                await emit("image_result", `[${validImageIndex}] ✓ Evidence - ${from} & ${to}`, {
+                  imageIndex: validImageIndex,
+                  imageUrl: img.thumbnailUrl,
+                  status: "evidence",
+                  celebrities: celebs,
+                });
+                break;
+              }
+
+              // Rekognition did not recognize both - ask the AI (unavailable AI is just no match)
+              try {
+                const aiVerification = await verifyCelebritiesAI({ imageUrl: img.imageUrl, personA: from, personB: to });
+                if (aiVerification.togetherInScene && aiVerification.overallConfidence >= config.confidenceThreshold) {
+                  evidence.push(createAIEvidenceRecord(img, aiVerification, from, to));
+                  await emit("image_result", `[${validImageIndex}] ✓ AI Evidence - ${from} & ${to}`, {
+                    imageIndex: validImageIndex,
+                    imageUrl: img.thumbnailUrl,
+                    status: "evidence",
+                    celebrities: [
+                      { name: from, confidence: aiVerification.personAConfidence },
+                      { name: to, confidence: aiVerification.personBConfidence },
+                    ],
+                    aiVerified: true,
+                    aiNotes: aiVerification.notes,
+                  });
+                  break;
+                }
+              } catch (aiError) {
+                console.warn("[Investigation] AI verification failed:", aiError instanceof Error ? aiError.message : aiError);
+              }
+
+              await emit("image_result", `[${validImageIndex}] No match`, {
+                imageIndex: validImageIndex,
+                imageUrl: img.thumbnailUrl,
+                status: "no_match",
+                celebrities: celebs,
+              });
+            } catch (imgError) {
+              // Errors are not counted either
+              await emit("image_result", `Error - ${imgError instanceof Error ? imgError.message : 'Unknown'}`, {
+                imageUrl: img.thumbnailUrl,
+                status: "error",
+                reason: imgError instanceof Error ? imgError.message : String(imgError),
+              });
+            }
+          }
+        } catch (searchError) {
+          console.warn(`[Investigation] Search failed for query "${q}":`, searchError instanceof Error ? searchError.message : searchError);
+          continue;
+        }
+
+        // One photo is enough evidence for an edge
+        if (evidence.length >= 1) break;
+      }
+
+      return evidence.length > 0 ? createVerifiedEdge(from, to, evidence) : null;
+    };
+
+    // Grow the target-side frontier by one round; returns a result if the frontiers meet
+    const growBackwardFrontier = async (): Promise<InvestigationResult | null> => {
+      // Keep most of the step budget for the forward side
+      if (state.budgets.stepsUsed >= state.budgets.maxSteps * BACKWARD_STEP_SHARE || !checkBudget()) {
+        return null;
+      }
+
+      const anchor = backwardQueue.shift();
+      if (!anchor) return null;
+      const anchorEntry = backwardReached.get(anchor.toLowerCase())!;
+      if (anchorEntry.depth >= MAX_BACKWARD_DEPTH) return null;
+
+      const round = backwardRound++;
+      const suggestions = await step.do(`suggest-backward-${round}-${anchor}`, async () => {
+        trackSubrequest(); // LLM call
+        try {
+          return await planner.suggestBridgeCandidates(anchor, personA);
+        } catch (error) {
+          console.warn("[Investigation] Target-side suggestions failed:", error instanceof Error ? error.message : error);
+          return [];
+        }
+      });
+
+      // People on the forward path first - verifying them meets the frontiers
+      const onForwardPath = (name: string) => state.path.slice(1).some(p => namesMatch(p, name, this.aliases));
+      const candidates = suggestions
+        .map(c => c.name)
+        .filter(name => !namesMatch(name, personA, this.aliases) && ![...backwardReached.values()].some(e => namesMatch(e.name, name, this.aliases)))
+        .sort((a, b) => Number(onForwardPath(b)) - Number(onForwardPath(a)))
+        .slice(0, BACKWARD_CANDIDATES_PER_ROUND);
+
+      if (candidates.length === 0) return null;
+
+      await emit("candidate_discovery", `Searching from ${personB}'s side: ${candidates.join(", ")} (via ${anchor})`, {
+        candidates: candidates.map(name => ({ name })),
+      });
+
+      for (const candidateName of candidates) {
+        if (!checkBudget()) break;
+
+        const graphEdge = await this.lookupGraphEdge(step, `graph-edge-backward-${round}-${candidateName}`, candidateName, anchor);
+        if (!graphEdge) incrementStep();
+
+        // Target-side work is reported with detail events so the forward step sequence stays intact
+        if (!graphEdge) {
+          await emit("research", `Searching from ${personB}'s side: "${candidateName} ${anchor}"`, {
+            query: `${candidateName} ${anchor}`,
+            fromPerson: candidateName,
+            toPerson: anchor,
+          });
+        }
+
+        const edge = graphEdge ?? await verificationStep(`verify-backward-${round}-${candidateName}`, () =>
+          verifyPair(candidateName, anchor)
+        );
+
+        if (!edge) {
+          await emit("thinking", `Could not verify ${candidateName} ↔ ${anchor} from ${personB}'s side`);
+          continue;
+        }
+
+        await emit("evidence", `${graphEdge ? "From graph" : "Verified"}: ${candidateName} ↔ ${anchor}`, {
+          edge: {
+            from: candidateName,
+            to: anchor,
+            confidence: edge.edgeConfidence,
+            evidenceUrl: edge.bestEvidence.imageUrl,
+            thumbnailUrl: edge.bestEvidence.thumbnailUrl,
+            contextUrl: edge.bestEvidence.contextUrl,
+            fromGraph: !!graphEdge,
+          },
+        });
+
+        // Persist freshly verified edges to social graph database
+        if (!graphEdge) {
+          try {
+            const stored = await this.persistEdge(
+              candidateName,
+              anchor,
+              edge.edgeConfidence,
+              edge.bestEvidence.imageUrl,
+              edge.bestEvidence.thumbnailUrl,
+              edge.bestEvidence.contextUrl,
+              edge.evidence
+            );
+            await this.broadcastEdge({
+              source: candidateName,
+              target: anchor,
+              confidence: edge.edgeConfidence,
+              evidenceUrl: edge.bestEvidence.imageUrl,
+              thumbnailUrl: edge.bestEvidence.thumbnailUrl,
+              contextUrl: edge.bestEvidence.contextUrl,
+              version: stored?.version,
+            });
+          } catch (error) {
+            // Non-fatal
+            console.warn("[Investigation] Failed to persist target-side edge:", error instanceof Error ? error.message : error);
+          }
+        }
+
+        const chain = [edge, ...anchorEntry.chain];
+        const backwardPath = [candidateName, ...chain.map(e => e.to)];
+        backwardReached.set(candidateName.toLowerCase(), { name: candidateName, depth: anchorEntry.depth + 1, chain });
+        backwardQueue.push(candidateName);
+
+        await emit("path_update", `Target side: ${backwardPath.join(" → ")}`, {
+          path: state.path,
+          hopDepth: state.hopDepth,
+          forwardPath: state.path,
+          backwardPath,
+        });
+
+        // Frontiers meet when the forward path already contains this person
+        const meetIndex = state.path.findIndex(p => namesMatch(p, candidateName, this.aliases));
+        const meetChain = meetIndex > 0 ? findBackwardChain(candidateName, meetIndex) : null;
+        if (meetChain) {
+          return await finishWithMeet(meetIndex, meetChain);
+        }
+      }
+
+      return null;
+    };
+
     // ========================================================================
     // STEP 1: Direct Connection Check
     // ========================================================================
@@ -324,26 +1089,52 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
       toPerson: personB,
     });
 
+    // Graph-first: reuse an already-verified path before spending search budget
+    await updateStep(`Checking the social graph for a known path...`);
+    const graphPath = await this.lookupGraphPath(step, "graph-path", personA, personB);
+
+    if (graphPath) {
+      state.verifiedEdges = [...graphPath];
+      state.path = [personA, ...graphPath.map(e => e.to)];
+
+      for (const edge of graphPath) {
+        await emitGraphEvidence(edge);
+      }
+
+      await completeStep("direct_check", true, `Found a ${graphPath.length}-hop connection already verified in the graph`);
+
+      await emit("path_update", `Path complete: ${state.path.join(" → ")}`, {
+        path: state.path,
+        hopDepth: graphPath.length,
+      });
+
+      const result = this.finalizeSuccess(state);
+      const confidence = calculatePathConfidence(state.verifiedEdges);
+      await emit("final", `Investigation complete! Found ${graphPath.length}-hop connection from the graph with ${Math.round(confidence.pathBottleneck)}% confidence.`, {
+        result: result.status === "success" ? result.result : undefined,
+      });
+
+      return result;
+    }
+
     await updateStep(`Searching for "${personA} ${personB}" images...`, {
       query: directQuery(personA, personB),
     });
 
-    const directEdge = await step.do("direct-attempt", async () => {
+    const directEdge = await verificationStep("direct-attempt", async () => {
       const query = directQuery(personA, personB);
-      trackSubrequest(); // Google Image Search
-
       try {
         const searchRes = await searchImages({ query });
-        const images = searchRes.results.slice(0, DEFAULT_CONFIG.imagesPerQuery);
+        const images = searchRes.results.slice(0, config.imagesPerQuery);
         const evidence = [];
         let validImageIndex = 0;
 
         for (const img of images) {
           if (!checkBudget()) break;
+          if (await skipDuplicatePhoto(img, personA, personB)) continue;
 
           try {
             // Visual check (LLM call)
-            trackSubrequest();
             const visual = await verifyCopresence({ imageUrl: img.imageUrl });
             if (!visual.isValidScene) {
               // Don't count collages - just emit without incrementing
@@ -359,11 +1150,10 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
             validImageIndex++;
 
             // Detect celebrities with Rekognition
-            trackSubrequest(); // AWS Rekognition
             const analysis = await detectCelebrities({ imageUrl: img.imageUrl });
 
-            if (isValidEvidence(analysis.celebrities, personA, personB, DEFAULT_CONFIG.confidenceThreshold)) {
-              const record = createEvidenceRecord(img, analysis, personA, personB);
+            if (isValidEvidence(analysis.celebrities, personA, personB, config.confidenceThreshold, this.aliases)) {
+              const record = createEvidenceRecord(img, analysis, personA, personB, this.aliases);
               if (record) {
                 evidence.push(record);
                 const celebs = analysis.celebrities.map((c: any) => ({ name: c.name, confidence: Math.round(c.confidence) }));
@@ -381,24 +1171,11 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
 
               // Try AI verification (with error handling - don't fail if AI is unavailable)
               try {
-                trackSubrequest(); // LLM AI verification
                 const aiVerification = await verifyCelebritiesAI({ imageUrl: img.imageUrl, personA, personB });
 
-                if (aiVerification.togetherInScene && aiVerification.overallConfidence >= DEFAULT_CONFIG.confidenceThreshold) {
+                if (aiVerification.togetherInScene && aiVerification.overallConfidence >= config.confidenceThreshold) {
                   // AI found both people - create evidence record
-                  const aiRecord = {
-                    from: personA,
-                    to: personB,
-                    imageUrl: img.imageUrl,
-                    thumbnailUrl: img.thumbnailUrl,
-                    contextUrl: img.contextUrl,
-                    title: img.title,
-                    detectedCelebs: [
-                      { name: personA, confidence: aiVerification.personAConfidence },
-                      { name: personB, confidence: aiVerification.personBConfidence },
-                    ],
-                    imageScore: aiVerification.overallConfidence,
-                  };
+                  const aiRecord = createAIEvidenceRecord(img, aiVerification, personA, personB);
                   evidence.push(aiRecord);
                   await emit("image_result", `[${validImageIndex}] ✓ AI Evidence - ${personA} & ${personB}`, {
                     imageIndex: validImageIndex,
@@ -469,14 +1246,14 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
 
       // Persist edge to social graph database
       try {
-        await upsertEdge(
-          this.env.GRAPH_DB,
+        const stored = await this.persistEdge(
           personA,
           personB,
           directEdge.edgeConfidence,
           directEdge.bestEvidence.imageUrl,
           directEdge.bestEvidence.thumbnailUrl,
-          directEdge.bestEvidence.contextUrl
+          directEdge.bestEvidence.contextUrl,
+          directEdge.evidence
         );
         // Broadcast to connected WebSocket clients
         await this.broadcastEdge({
@@ -486,6 +1263,7 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
           evidenceUrl: directEdge.bestEvidence.imageUrl, // HD image
           thumbnailUrl: directEdge.bestEvidence.thumbnailUrl,
           contextUrl: directEdge.bestEvidence.contextUrl,
+          version: stored?.version,
         });
       } catch (error) {
         // Failed to persist edge to graph DB - non-fatal
@@ -552,6 +1330,9 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
     let pendingCandidatesToTry: string[] = [];
     let useRemainingCandidates = false;
 
+    // Candidate discovery rounds so far
+    let expansionCount = 0;
+
     // Backtrack helper - returns true if we found more candidates to try
     const backtrack = async (): Promise<boolean> => {
       while (dfsStack.length > 0) {
@@ -614,13 +1395,17 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
       }
 
       // Check hop limit
-      if (dfsStack.length >= DEFAULT_CONFIG.hopLimit) {
-        await emit("thinking", `Reached hop limit (${DEFAULT_CONFIG.hopLimit}), backtracking...`);
+      if (dfsStack.length >= config.hopLimit) {
+        await emit("thinking", `Reached hop limit (${config.hopLimit}), backtracking...`);
         if (!await backtrack()) break;
         currentFrontier = state.frontier;
         continue;
       }
 
+      // Bidirectional: grow the target-side frontier one round per forward expansion
+      const meetResult = await growBackwardFrontier();
+      if (meetResult) return meetResult;
+
       // Check if we have remaining candidates from backtracking
       // If so, skip discovery and use them directly
       if (useRemainingCandidates && pendingCandidatesToTry.length > 0) {
@@ -652,7 +1437,10 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
 
           // Mark as globally tried and increment step counter
           globalTriedCandidates.add(candidateName.toLowerCase());
-          incrementStep();
+
+          // Reuse a verified graph edge as a free hop - only live verification costs a step
+          const graphEdge = await this.lookupGraphEdge(step, `graph-edge-backtrack-${dfsStack.length}-${currentFrontier}-${candidateName}`, currentFrontier, candidateName);
+          if (!graphEdge) incrementStep();
 
           // Verify bridge connection (same logic as main loop)
           await startStep("verify_bridge", `Verifying: ${currentFrontier} ↔ ${candidateName}`, {
@@ -660,28 +1448,30 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
             toPerson: candidateName,
           });
 
-          await updateStep(`Searching for "${currentFrontier} ${candidateName}" images...`, {
-            query: `${currentFrontier} ${candidateName}`,
-          });
+          if (graphEdge) {
+            await updateStep(`Reusing verified connection from the graph: ${currentFrontier} ↔ ${candidateName}`);
+          } else {
+            await updateStep(`Searching for "${currentFrontier} ${candidateName}" images...`, {
+              query: `${currentFrontier} ${candidateName}`,
+            });
+          }
 
-          const edgeToCandidate = await step.do(`verify-backtrack-${dfsStack.length}-${candidateName}`, async () => {
+          const edgeToCandidate = graphEdge ?? await verificationStep(`verify-backtrack-${dfsStack.length}-${candidateName}`, async () => {
             const queries = verificationQueries(currentFrontier, candidateName);
             const evidence: EvidenceRecord[] = [];
             let validImageIndex = 0;
 
             for (const q of queries) {
               if (!checkBudget()) break;
-              trackSubrequest(); // Google Image Search
-
               try {
                 const searchRes = await searchImages({ query: q });
-                const images = searchRes.results.slice(0, DEFAULT_CONFIG.imagesPerQuery);
+                const images = searchRes.results.slice(0, config.imagesPerQuery);
 
                 for (const img of images) {
                   if (!checkBudget()) break;
+                  if (await skipDuplicatePhoto(img, currentFrontier, candidateName)) continue;
 
                   try {
-                    trackSubrequest(); // LLM verifyCopresence
                     const visual = await verifyCopresence({ imageUrl: img.imageUrl });
                     if (!visual.isValidScene) {
                       await emit("image_result", `Collage - ${visual.reason}`, {
@@ -693,11 +1483,10 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
                     }
 
                     validImageIndex++;
-                    trackSubrequest(); // AWS Rekognition
                     const analysis = await detectCelebrities({ imageUrl: img.imageUrl });
 
-                    if (isValidEvidence(analysis.celebrities, currentFrontier, candidateName, DEFAULT_CONFIG.confidenceThreshold)) {
-                      const record = createEvidenceRecord(img, analysis, currentFrontier, candidateName);
+                    if (isValidEvidence(analysis.celebrities, currentFrontier, candidateName, config.confidenceThreshold, this.aliases)) {
+                      const record = createEvidenceRecord(img, analysis, currentFrontier, candidateName, this.aliases);
                       if (record) {
                         evidence.push(record);
                         const celebs = analysis.celebrities.map((c: any) => ({ name: c.name, confidence: Math.round(c.confidence) }));
@@ -712,22 +1501,9 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
                     } else {
                       const celebs = analysis.celebrities.map((c: any) => ({ name: c.name, confidence: Math.round(c.confidence) }));
                       try {
-                        trackSubrequest(); // LLM AI verification
                         const aiVerification = await verifyCelebritiesAI({ imageUrl: img.imageUrl, personA: currentFrontier, personB: candidateName });
-                        if (aiVerification.togetherInScene && aiVerification.overallConfidence >= DEFAULT_CONFIG.confidenceThreshold) {
-                          const aiRecord: EvidenceRecord = {
-                            from: currentFrontier,
-                            to: candidateName,
-                            imageUrl: img.imageUrl,
-                            thumbnailUrl: img.thumbnailUrl,
-                            contextUrl: img.contextUrl,
-                            title: img.title,
-                            detectedCelebs: [
-                              { name: currentFrontier, confidence: aiVerification.personAConfidence },
-                              { name: candidateName, confidence: aiVerification.personBConfidence },
-                            ],
-                            imageScore: aiVerification.overallConfidence,
-                          };
+                        if (aiVerification.togetherInScene && aiVerification.overallConfidence >= config.confidenceThreshold) {
+                          const aiRecord = createAIEvidenceRecord(img, aiVerification, currentFrontier, candidateName);
                           evidence.push(aiRecord);
                           await emit("image_result", `[${validImageIndex}] ✓ AI Evidence - ${currentFrontier} & ${candidateName}`, {
                             imageIndex: validImageIndex,
@@ -801,7 +1577,7 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
           state.frontier = candidateName;
           currentFrontier = candidateName;
 
-          await emit("evidence", `Verified: ${frame.frontier} ↔ ${candidateName}`, {
+          await emit("evidence", `${graphEdge ? "From graph" : "Verified"}: ${frame.frontier} ↔ ${candidateName}`, {
             edge: {
               from: frame.frontier,
               to: candidateName,
@@ -809,30 +1585,35 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
               evidenceUrl: edgeToCandidate.bestEvidence.imageUrl,
               thumbnailUrl: edgeToCandidate.bestEvidence.thumbnailUrl,
               contextUrl: edgeToCandidate.bestEvidence.contextUrl,
+              fromGraph: !!graphEdge,
             },
           });
 
-          try {
-            await upsertEdge(
-              this.env.GRAPH_DB,
-              frame.frontier,
-              candidateName,
-              edgeToCandidate.edgeConfidence,
-              edgeToCandidate.bestEvidence.imageUrl,
-              edgeToCandidate.bestEvidence.thumbnailUrl,
-              edgeToCandidate.bestEvidence.contextUrl
-            );
-            await this.broadcastEdge({
-              source: frame.frontier,
-              target: candidateName,
-              confidence: edgeToCandidate.edgeConfidence,
-              evidenceUrl: edgeToCandidate.bestEvidence.imageUrl,
-              thumbnailUrl: edgeToCandidate.bestEvidence.thumbnailUrl,
-              contextUrl: edgeToCandidate.bestEvidence.contextUrl,
-            });
-          } catch (error) {
-            // Non-fatal
-            console.warn("[Investigation] Failed to persist bridge edge:", error instanceof Error ? error.message : error);
+          // Graph edges are already persisted - only store freshly verified ones
+          if (!graphEdge) {
+            try {
+              const stored = await this.persistEdge(
+                frame.frontier,
+                candidateName,
+                edgeToCandidate.edgeConfidence,
+                edgeToCandidate.bestEvidence.imageUrl,
+                edgeToCandidate.bestEvidence.thumbnailUrl,
+                edgeToCandidate.bestEvidence.contextUrl,
+                edgeToCandidate.evidence
+              );
+              await this.broadcastEdge({
+                source: frame.frontier,
+                target: candidateName,
+                confidence: edgeToCandidate.edgeConfidence,
+                evidenceUrl: edgeToCandidate.bestEvidence.imageUrl,
+                thumbnailUrl: edgeToCandidate.bestEvidence.thumbnailUrl,
+                contextUrl: edgeToCandidate.bestEvidence.contextUrl,
+                version: stored?.version,
+              });
+            } catch (error) {
+              // Non-fatal
+              console.warn("[Investigation] Failed to persist bridge edge:", error instanceof Error ? error.message : error);
+            }
           }
 
           await completeStep("verify_bridge", true, `Connection verified with ${Math.round(edgeToCandidate.edgeConfidence)}% confidence`);
@@ -842,59 +1623,55 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
             hopDepth: state.hopDepth,
           });
 
+          // Bidirectional: the frontiers meet if the target side already reached this candidate
+          const backwardChain = findBackwardChain(candidateName, state.path.length - 1);
+          if (backwardChain) {
+            return await finishWithMeet(state.path.length - 1, backwardChain);
+          }
+
           // Now try to connect to target
           await startStep("connect_target", `Connecting: ${candidateName} ↔ ${personB}`, {
             fromPerson: candidateName,
             toPerson: personB,
           });
 
-          const bridgeEdge = await step.do(`bridge-backtrack-${dfsStack.length}-${candidateName}`, async () => {
+          const graphTail = await lookupGraphTail(`graph-tail-backtrack-${dfsStack.length}-${candidateName}`, candidateName);
+          if (graphTail) {
+            return await finishWithGraphTail(graphTail);
+          }
+
+          const bridgeEdge = await verificationStep(`bridge-backtrack-${dfsStack.length}-${candidateName}`, async () => {
             const queries = bridgeQueries(candidateName, personB);
             const evidence: EvidenceRecord[] = [];
             let validImageIndex = 0;
 
             for (const q of queries) {
               if (!checkBudget()) break;
-              trackSubrequest(); // Google Image Search
               try {
                 const searchRes = await searchImages({ query: q });
-                const images = searchRes.results.slice(0, DEFAULT_CONFIG.imagesPerQuery);
+                const images = searchRes.results.slice(0, config.imagesPerQuery);
 
                 for (const img of images) {
                   if (!checkBudget()) break;
+                  if (await skipDuplicatePhoto(img, candidateName, personB)) continue;
                   try {
-                    trackSubrequest(); // LLM verifyCopresence
                     const visual = await verifyCopresence({ imageUrl: img.imageUrl });
                     if (!visual.isValidScene) continue;
 
                     validImageIndex++;
-                    trackSubrequest(); // AWS Rekognition
                     const analysis = await detectCelebrities({ imageUrl: img.imageUrl });
 
-                    if (isValidEvidence(analysis.celebrities, candidateName, personB, DEFAULT_CONFIG.confidenceThreshold)) {
-                      const record = createEvidenceRecord(img, analysis, candidateName, personB);
+                    if (isValidEvidence(analysis.celebrities, candidateName, personB, config.confidenceThreshold, this.aliases)) {
+                      const record = createEvidenceRecord(img, analysis, candidateName, personB, this.aliases);
                       if (record) {
                         evidence.push(record);
                         break; // Early exit - evidence found!
                       }
                     } else {
                       try {
-                        trackSubrequest(); // LLM AI verification
                         const aiVerification = await verifyCelebritiesAI({ imageUrl: img.imageUrl, personA: candidateName, personB });
-                        if (aiVerification.togetherInScene && aiVerification.overallConfidence >= DEFAULT_CONFIG.confidenceThreshold) {
-                          evidence.push({
-                            from: candidateName,
-                            to: personB,
-                            imageUrl: img.imageUrl,
-                            thumbnailUrl: img.thumbnailUrl,
-                            contextUrl: img.contextUrl,
-                            title: img.title,
-                            detectedCelebs: [
-                              { name: candidateName, confidence: aiVerification.personAConfidence },
-                              { name: personB, confidence: aiVerification.personBConfidence },
-                            ],
-                            imageScore: aiVerification.overallConfidence,
-                          });
+                        if (aiVerification.togetherInScene && aiVerification.overallConfidence >= config.confidenceThreshold) {
+                          evidence.push(createAIEvidenceRecord(img, aiVerification, candidateName, personB));
                           break; // Early exit - evidence found!
                         }
                       } catch (aiError) {
@@ -934,14 +1711,14 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
             });
 
             try {
-              await upsertEdge(
-                this.env.GRAPH_DB,
+              const stored = await this.persistEdge(
                 candidateName,
                 personB,
                 bridgeEdge.edgeConfidence,
                 bridgeEdge.bestEvidence.imageUrl,
                 bridgeEdge.bestEvidence.thumbnailUrl,
-                bridgeEdge.bestEvidence.contextUrl
+                bridgeEdge.bestEvidence.contextUrl,
+                bridgeEdge.evidence
               );
               await this.broadcastEdge({
                 source: candidateName,
@@ -950,6 +1727,7 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
                 evidenceUrl: bridgeEdge.bestEvidence.imageUrl,
                 thumbnailUrl: bridgeEdge.bestEvidence.thumbnailUrl,
                 contextUrl: bridgeEdge.bestEvidence.contextUrl,
+                version: stored?.version,
               });
             } catch (error) {
               // Non-fatal
@@ -1015,15 +1793,38 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
         }
       }
 
-      // Filter out already tried candidates
-      let availableCandidates = currentBridges
-        .filter((s) => !globalTriedCandidates.has(s.name.toLowerCase()))
-        .map((s) => ({
-          name: s.name,
+      // Co-appearances: people Rekognition recognized next to the frontier in photos analyzed so far
+      // (numbered per expansion - backtracking can return to the same frontier at the same depth)
+      const notCandidates = [...Array.from(globalTriedCandidates), ...state.path, personB];
+      const coappearing = await step.do(`coappear-${++expansionCount}-${dfsStack.length}-${currentFrontier}`, async () => {
+        return aggregateCandidates(analyzedPhotos, currentFrontier, notCandidates, config.confidenceThreshold, this.aliases);
+      });
+
+      // Merge with the AI suggestions, filtering out already tried candidates
+      let availableCandidates: Candidate[] = mergeCandidateSources(
+        coappearing,
+        currentBridges
+          .filter((s) => !globalTriedCandidates.has(s.name.toLowerCase()))
+          .map((s) => ({
+            name: s.name,
+            coappearCount: 0,
+            bestCoappearConfidence: s.confidence ?? 80,
+            evidenceContextUrls: [],
+          })),
+        this.aliases
+      );
+
+      // Bidirectional: people already connected to the target are candidates too
+      for (const entry of backwardReached.values()) {
+        if (entry.chain.length === 0 || globalTriedCandidates.has(entry.name.toLowerCase())) continue;
+        if (availableCandidates.some(c => namesMatch(c.name, entry.name, this.aliases))) continue;
+        availableCandidates.push({
+          name: entry.name,
           coappearCount: 1,
-          bestCoappearConfidence: s.confidence ?? 80,
+          bestCoappearConfidence: entry.chain[0].edgeConfidence,
           evidenceContextUrls: [],
-        }));
+        });
+      }
 
       // If no candidates available, ask LLM for more suggestions
       if (availableCandidates.length === 0 && checkBudget()) {
@@ -1052,7 +1853,7 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
           // Add new candidates to available list
           availableCandidates = newCandidates.map((s) => ({
             name: s.name,
-            coappearCount: 1,
+            coappearCount: 0,
             bestCoappearConfidence: s.confidence ?? 80,
             evidenceContextUrls: [],
           }));
@@ -1066,8 +1867,19 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
         continue;
       }
 
+      const seenWith = availableCandidates.filter(c => c.coappearCount > 0);
+      await emit("candidate_discovery", seenWith.length > 0
+        ? `Seen with ${currentFrontier} in analyzed photos: ${seenWith.map(c => `${c.name} (${c.coappearCount})`).join(", ")}`
+        : `No one else recognized with ${currentFrontier} yet - using AI suggestions`, {
+        candidates: availableCandidates.map(c => ({
+          name: c.name,
+          score: c.bestCoappearConfidence,
+          coappearCount: c.coappearCount,
+        })),
+      });
+
       await updateStep(`Found ${availableCandidates.length} potential bridge candidates`, {
-        candidates: availableCandidates.slice(0, 5).map(c => ({ name: c.name })),
+        candidates: availableCandidates.slice(0, 5).map(c => ({ name: c.name, coappearCount: c.coappearCount })),
       });
 
       // LLM Selection - still part of find_bridges step
@@ -1080,8 +1892,8 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
           personB: state.personB,
           frontier: currentFrontier,
           hopUsed: dfsStack.length,
-          hopLimit: DEFAULT_CONFIG.hopLimit,
-          confidenceThreshold: DEFAULT_CONFIG.confidenceThreshold,
+          hopLimit: config.hopLimit,
+          confidenceThreshold: config.confidenceThreshold,
           budgets: {
             stepsRemaining: state.budgets.maxSteps - state.budgets.stepsUsed,
             subrequestsRemaining: state.budgets.maxSubrequests - state.budgets.subrequestsUsed,
@@ -1108,7 +1920,8 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
       // This ensures we try more people if the first few fail
       // Sort by: LLM-selected first (in order), then remaining by confidence
       const llmSelectedSet = new Set(plan.nextCandidates.map(n => n.toLowerCase()));
-      const candidatesToTry = [
+      // People the target side already reached go first - verifying them meets the frontiers
+      const candidatesToTry = meetCandidatesFirst([
         // First: LLM-selected candidates in order
         ...plan.nextCandidates.filter(name => !globalTriedCandidates.has(name.toLowerCase())),
         // Then: remaining candidates sorted by confidence
@@ -1116,7 +1929,7 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
           .filter(c => !llmSelectedSet.has(c.name.toLowerCase()) && !globalTriedCandidates.has(c.name.toLowerCase()))
           .sort((a, b) => b.bestCoappearConfidence - a.bestCoappearConfidence)
           .map(c => c.name)
-      ];
+      ]);
 
       if (candidatesToTry.length === 0) {
         await completeStep("find_bridges", false, "All candidates already explored");
@@ -1144,7 +1957,10 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
 
         // Mark as globally tried and increment step counter
         globalTriedCandidates.add(candidateName.toLowerCase());
-        incrementStep();
+
+        // Reuse a verified graph edge as a free hop - only live verification costs a step
+        const graphEdge = await this.lookupGraphEdge(step, `graph-edge-${dfsStack.length}-${currentFrontier}-${candidateName}`, currentFrontier, candidateName);
+        if (!graphEdge) incrementStep();
 
         // ========================================================================
         // STEP 3: Verify Bridge Connection
@@ -1155,28 +1971,30 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
         });
 
         // Step 4: Verify Edge to Candidate
-        await updateStep(`Searching for "${currentFrontier} ${candidateName}" images...`, {
-          query: `${currentFrontier} ${candidateName}`,
-        });
+        if (graphEdge) {
+          await updateStep(`Reusing verified connection from the graph: ${currentFrontier} ↔ ${candidateName}`);
+        } else {
+          await updateStep(`Searching for "${currentFrontier} ${candidateName}" images...`, {
+            query: `${currentFrontier} ${candidateName}`,
+          });
+        }
 
-        const edgeToCandidate = await step.do(`verify-${dfsStack.length}-${candidateName}`, async () => {
+        const edgeToCandidate = graphEdge ?? await verificationStep(`verify-${dfsStack.length}-${candidateName}`, async () => {
           const queries = verificationQueries(currentFrontier, candidateName);
           const evidence = [];
           let validImageIndex = 0;
 
           for (const q of queries) {
             if (!checkBudget()) break;
-            trackSubrequest(); // Google Image Search
-
             try {
               const searchRes = await searchImages({ query: q });
-              const images = searchRes.results.slice(0, DEFAULT_CONFIG.imagesPerQuery);
+              const images = searchRes.results.slice(0, config.imagesPerQuery);
 
               for (const img of images) {
                 if (!checkBudget()) break;
+                if (await skipDuplicatePhoto(img, currentFrontier, candidateName)) continue;
 
                 try {
-                  trackSubrequest(); // LLM verifyCopresence
                   const visual = await verifyCopresence({ imageUrl: img.imageUrl });
                   if (!visual.isValidScene) {
                     await emit("image_result", `Collage - ${visual.reason}`, {
@@ -1188,11 +2006,10 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
                   }
 
                   validImageIndex++;
-                  trackSubrequest(); // AWS Rekognition
                   const analysis = await detectCelebrities({ imageUrl: img.imageUrl });
 
-                  if (isValidEvidence(analysis.celebrities, currentFrontier, candidateName, DEFAULT_CONFIG.confidenceThreshold)) {
-                    const record = createEvidenceRecord(img, analysis, currentFrontier, candidateName);
+                  if (isValidEvidence(analysis.celebrities, currentFrontier, candidateName, config.confidenceThreshold, this.aliases)) {
+                    const record = createEvidenceRecord(img, analysis, currentFrontier, candidateName, this.aliases);
                     if (record) {
                       evidence.push(record);
                       const celebs = analysis.celebrities.map((c: any) => ({ name: c.name, confidence: Math.round(c.confidence) }));
@@ -1209,23 +2026,10 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
                     const celebs = analysis.celebrities.map((c: any) => ({ name: c.name, confidence: Math.round(c.confidence) }));
 
                     try {
-                      trackSubrequest(); // LLM AI verification
                       const aiVerification = await verifyCelebritiesAI({ imageUrl: img.imageUrl, personA: currentFrontier, personB: candidateName });
 
-                      if (aiVerification.togetherInScene && aiVerification.overallConfidence >= DEFAULT_CONFIG.confidenceThreshold) {
-                        const aiRecord = {
-                          from: currentFrontier,
-                          to: candidateName,
-                          imageUrl: img.imageUrl,
-                          thumbnailUrl: img.thumbnailUrl,
-                          contextUrl: img.contextUrl,
-                          title: img.title,
-                          detectedCelebs: [
-                            { name: currentFrontier, confidence: aiVerification.personAConfidence },
-                            { name: candidateName, confidence: aiVerification.personBConfidence },
-                          ],
-                          imageScore: aiVerification.overallConfidence,
-                        };
+                      if (aiVerification.togetherInScene && aiVerification.overallConfidence >= config.confidenceThreshold) {
+                        const aiRecord = createAIEvidenceRecord(img, aiVerification, currentFrontier, candidateName);
                         evidence.push(aiRecord);
                         await emit("image_result", `[${validImageIndex}] ✓ AI Evidence - ${currentFrontier} & ${candidateName}`, {
                           imageIndex: validImageIndex,
@@ -1310,7 +2114,7 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
         state.hopDepth = dfsStack.length;
         state.frontier = candidateName;
 
-        await emit("evidence", `Verified: ${currentFrontier} ↔ ${candidateName}`, {
+        await emit("evidence", `${graphEdge ? "From graph" : "Verified"}: ${currentFrontier} ↔ ${candidateName}`, {
           edge: {
             from: currentFrontier,
             to: candidateName,
@@ -1318,32 +2122,36 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
             evidenceUrl: edgeToCandidate.bestEvidence.imageUrl,
             thumbnailUrl: edgeToCandidate.bestEvidence.thumbnailUrl,
             contextUrl: edgeToCandidate.bestEvidence.contextUrl,
+            fromGraph: !!graphEdge,
           },
         });
 
-        // Persist edge to social graph database
-        try {
-          await upsertEdge(
-            this.env.GRAPH_DB,
-            currentFrontier,
-            candidateName,
-            edgeToCandidate.edgeConfidence,
-            edgeToCandidate.bestEvidence.imageUrl,
-            edgeToCandidate.bestEvidence.thumbnailUrl,
-            edgeToCandidate.bestEvidence.contextUrl
-          );
-          // Broadcast to connected WebSocket clients
-          await this.broadcastEdge({
-            source: currentFrontier,
-            target: candidateName,
-            confidence: edgeToCandidate.edgeConfidence,
-            evidenceUrl: edgeToCandidate.bestEvidence.imageUrl,
-            thumbnailUrl: edgeToCandidate.bestEvidence.thumbnailUrl,
-            contextUrl: edgeToCandidate.bestEvidence.contextUrl,
-          });
-        } catch (error) {
-          // Failed to persist edge to graph DB - non-fatal
-          console.warn("[Investigation] Failed to persist edge to DB:", error instanceof Error ? error.message : error);
+        // Persist freshly verified edges to social graph database (graph edges are already stored)
+        if (!graphEdge) {
+          try {
+            const stored = await this.persistEdge(
+              currentFrontier,
+              candidateName,
+              edgeToCandidate.edgeConfidence,
+              edgeToCandidate.bestEvidence.imageUrl,
+              edgeToCandidate.bestEvidence.thumbnailUrl,
+              edgeToCandidate.bestEvidence.contextUrl,
+              edgeToCandidate.evidence
+            );
+            // Broadcast to connected WebSocket clients
+            await this.broadcastEdge({
+              source: currentFrontier,
+              target: candidateName,
+              confidence: edgeToCandidate.edgeConfidence,
+              evidenceUrl: edgeToCandidate.bestEvidence.imageUrl,
+              thumbnailUrl: edgeToCandidate.bestEvidence.thumbnailUrl,
+              contextUrl: edgeToCandidate.bestEvidence.contextUrl,
+              version: stored?.version,
+            });
+          } catch (error) {
+            // Failed to persist edge to graph DB - non-fatal
+            console.warn("[Investigation] Failed to persist edge to DB:", error instanceof Error ? error.message : error);
+          }
         }
 
         await completeStep("verify_bridge", true, `Connection verified with ${Math.round(edgeToCandidate.edgeConfidence)}% confidence`);
@@ -1353,6 +2161,12 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
           hopDepth: state.hopDepth,
         });
 
+        // Bidirectional: the frontiers meet if the target side already reached this candidate
+        const backwardChain = findBackwardChain(candidateName, state.path.length - 1);
+        if (backwardChain) {
+          return await finishWithMeet(state.path.length - 1, backwardChain);
+        }
+
         // ========================================================================
         // STEP 4: Connect to Target
         // ========================================================================
@@ -1361,11 +2175,17 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
           toPerson: personB,
         });
 
+        // Reuse a verified graph path to the target before searching
+        const graphTail = await lookupGraphTail(`graph-tail-${dfsStack.length}-${candidateName}`, candidateName);
+        if (graphTail) {
+          return await finishWithGraphTail(graphTail);
+        }
+
         await updateStep(`Searching for "${candidateName} ${personB}" images...`, {
           query: `${candidateName} ${personB}`,
         });
 
-        const bridgeEdge = await step.do(`bridge-${dfsStack.length}-${candidateName}`, async () => {
+        const bridgeEdge = await verificationStep(`bridge-${dfsStack.length}-${candidateName}`, async () => {
           const queries = bridgeQueries(candidateName, personB);
           const evidence: EvidenceRecord[] = [];
           let validImageIndex = 0;
@@ -1373,16 +2193,15 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
 
           for (const q of queries) {
             if (!checkBudget()) break;
-            trackSubrequest(); // Google Image Search
             try {
               const searchRes = await searchImages({ query: q });
-              const images = searchRes.results.slice(0, DEFAULT_CONFIG.imagesPerQuery);
+              const images = searchRes.results.slice(0, config.imagesPerQuery);
 
               for (const img of images) {
                 if (!checkBudget()) break;
+                if (await skipDuplicatePhoto(img, candidateName, personB)) continue;
 
                 try {
-                  trackSubrequest(); // LLM verifyCopresence
                   const visual = await verifyCopresence({ imageUrl: img.imageUrl });
                   if (!visual.isValidScene) {
                     await emit("image_result", `Collage - ${visual.reason}`, {
@@ -1394,11 +2213,10 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
                   }
 
                   validImageIndex++;
-                  trackSubrequest(); // AWS Rekognition
                   const analysis = await detectCelebrities({ imageUrl: img.imageUrl });
 
-                  if (isValidEvidence(analysis.celebrities, candidateName, personB, DEFAULT_CONFIG.confidenceThreshold)) {
-                    const record = createEvidenceRecord(img, analysis, candidateName, personB);
+                  if (isValidEvidence(analysis.celebrities, candidateName, personB, config.confidenceThreshold, this.aliases)) {
+                    const record = createEvidenceRecord(img, analysis, candidateName, personB, this.aliases);
                     if (record) {
                       evidence.push(record);
                       const celebs = analysis.celebrities.map((c: any) => ({ name: c.name, confidence: Math.round(c.confidence) }));
@@ -1415,23 +2233,10 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
                     const celebs = analysis.celebrities.map((c: any) => ({ name: c.name, confidence: Math.round(c.confidence) }));
 
                     try {
-                      trackSubrequest(); // LLM AI verification
                       const aiVerification = await verifyCelebritiesAI({ imageUrl: img.imageUrl, personA: candidateName, personB });
 
-                      if (aiVerification.togetherInScene && aiVerification.overallConfidence >= DEFAULT_CONFIG.confidenceThreshold) {
-                        const aiRecord: EvidenceRecord = {
-                          from: candidateName,
-                          to: personB,
-                          imageUrl: img.imageUrl,
-                          thumbnailUrl: img.thumbnailUrl,
-                          contextUrl: img.contextUrl,
-                          title: img.title,
-                          detectedCelebs: [
-                            { name: candidateName, confidence: aiVerification.personAConfidence },
-                            { name: personB, confidence: aiVerification.personBConfidence },
-                          ],
-                          imageScore: aiVerification.overallConfidence,
-                        };
+                      if (aiVerification.togetherInScene && aiVerification.overallConfidence >= config.confidenceThreshold) {
+                        const aiRecord = createAIEvidenceRecord(img, aiVerification, candidateName, personB);
                         evidence.push(aiRecord);
                         console.log(`[DEBUG] AI Evidence found and pushed! evidence.length=${evidence.length}, confidence=${aiVerification.overallConfidence}`);
                         await emit("image_result", `[${validImageIndex}] ✓ AI Evidence - ${candidateName} & ${personB}`, {
@@ -1511,14 +2316,14 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
 
           // Persist edge to social graph database
           try {
-            await upsertEdge(
-              this.env.GRAPH_DB,
+            const stored = await this.persistEdge(
               candidateName,
               personB,
               bridgeEdge.edgeConfidence,
               bridgeEdge.bestEvidence.imageUrl,
               bridgeEdge.bestEvidence.thumbnailUrl,
-              bridgeEdge.bestEvidence.contextUrl
+              bridgeEdge.bestEvidence.contextUrl,
+              bridgeEdge.evidence
             );
             // Broadcast to connected WebSocket clients
             await this.broadcastEdge({
@@ -1528,6 +2333,7 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
               evidenceUrl: bridgeEdge.bestEvidence.imageUrl,
               thumbnailUrl: bridgeEdge.bestEvidence.thumbnailUrl,
               contextUrl: bridgeEdge.bestEvidence.contextUrl,
+              version: stored?.version,
             });
           } catch (error) {
             // Failed to persist edge to graph DB - non-fatal
@@ -1601,7 +2407,7 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
     // Ensure any running step is completed before emitting no_path
     await completeRunningStepIfAny("Investigation ended - no path found");
 
-    await emit("no_path", `Investigation complete. No verified connection found within ${DEFAULT_CONFIG.hopLimit} degrees. Try again or search for different people!`, {
+    await emit("no_path", `Investigation complete. No verified connection found within ${config.hopLimit} degrees. Try again or search for different people!`, {
       path: state.path,
       hopDepth: state.hopDepth,
     });
@@ -1622,7 +2428,8 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
         edges,
         confidence: calculatePathConfidence(edges),
       },
-      disclaimer: "This result shows visual co-presence in public images, not necessarily a personal relationship."
+      disclaimer: "This result shows visual co-presence in public images, not necessarily a personal relationship.",
+      config: this.runConfig,
     };
   }
 
@@ -1631,7 +2438,8 @@ export class InvestigationWorkflow extends WorkflowEntrypoint<Env, Params> {
       status: "no_path",
       personA: state.personA,
       personB: state.personB,
-      message: `No verified visual connection found within ${DEFAULT_CONFIG.hopLimit} degrees at ≥${DEFAULT_CONFIG.confidenceThreshold}% confidence. Try again or search for different people!`,
+      message: `No verified visual connection found within ${this.runConfig.config.hopLimit} degrees at ≥${this.runConfig.config.confidenceThreshold}% confidence. Try again or search for different people!`,
+      config: this.runConfig,
     };
   }
 }
@@ -0,0 +1,29 @@
+/**
+ * Local D1 databases for tests, backed by Miniflare
+ */
+
+import { readFileSync } from 'node:fs';
+import { Miniflare } from 'miniflare';
+
+export interface TestDatabase {
+  db: D1Database;
+  dispose: () => Promise<void>;
+}
+
+/**
+ * A fresh, empty database with schema.sql applied
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch: () => new Response(null) }',
+    d1Databases: ['GRAPH_DB'],
+  });
+  const db = await mf.getD1Database('GRAPH_DB') as unknown as D1Database;
+
+  // exec() runs one statement per line - flatten the schema, keeping trigger bodies intact
+  const schema = readFileSync(new URL('../schema.sql', import.meta.url), 'utf8');
+  await db.exec(schema.replace(/--[^\n]*/g, '').replace(/\s+/g, ' '));
+
+  return { db, dispose: () => mf.dispose() };
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { generateEdgeId, generateExternalNodeId, upsertNode } from '../src/graph-db';
+import { importGraph, parseGraphmlImport, parseJsonImport } from '../src/graph-import';
+import { createTestDatabase, type TestDatabase } from './d1';
+
+describe('parseJsonImport', () => {
+  it('reads the GET /api/graph shape', () => {
+    const payload = parseJsonImport({
+      nodes: [{ id: 'n1', name: ' Tom Hanks ', thumbnailUrl: 'https://x/t.jpg', externalUrls: ['https://imdb', 3] }],
+      edges: [{ source: 'n1', target: 'n2', confidence: 91, evidenceUrl: 'https://x/e.jpg' }],
+    });
+    expect(payload).toEqual({
+      nodes: [{ id: 'n1', name: 'Tom Hanks', thumbnailUrl: 'https://x/t.jpg', externalId: undefined, externalUrls: ['https://imdb'] }],
+      edges: [{ source: 'n1', target: 'n2', confidence: 91, evidenceUrl: 'https://x/e.jpg', thumbnailUrl: undefined, contextUrl: undefined }],
+    });
+  });
+
+  it('accepts { from, to, edgeConfidence } edges keyed by name', () => {
+    const { nodes, edges } = parseJsonImport({ edges: [{ from: 'Tom Hanks', to: 'Meg Ryan', edgeConfidence: '88' }] });
+    expect(nodes).toEqual([]);
+    expect(edges[0]).toMatchObject({ source: 'Tom Hanks', target: 'Meg Ryan', confidence: 88 });
+  });
+
+  it.each([
+    [null, 'Expected a JSON object with "nodes" and/or "edges"'],
+    [{ nodes: {} }, '"nodes" must be an array'],
+    [{ edges: 'a-b' }, '"edges" must be an array'],
+  ])('rejects %j', (body, error) => {
+    expect(() => parseJsonImport(body)).toThrow(error);
+  });
+});
+
+describe('parseGraphmlImport', () => {
+  it('maps keys by attr.name and decodes entities', () => {
+    const payload = parseGraphmlImport(`<?xml version="1.0"?>
+      <graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+        <key id="d0" for="node" attr.name="name" attr.type="string"/>
+        <key id="d1" for="node" attr.name="external_urls" attr.type="string"/>
+        <key id="d2" for="edge" attr.name="confidence" attr.type="double"/>
+        <graph edgedefault="undirected">
+          <node id="a"><data key="d0">Simon &amp; Garfunkel</data><data key="d1">https://a https://b</data></node>
+          <node id="b"><data key="d0"><![CDATA[Beyoncé]]></data></node>
+          <edge source="a" target="b"><data key="d2">87.5</data></edge>
+        </graph>
+      </graphml>`);
+    expect(payload.nodes).toEqual([
+      { id: 'a', name: 'Simon & Garfunkel', thumbnailUrl: undefined, externalId: undefined, externalUrls: ['https://a', 'https://b'] },
+      { id: 'b', name: 'Beyoncé', thumbnailUrl: undefined, externalId: undefined, externalUrls: undefined },
+    ]);
+    expect(payload.edges).toEqual([
+      { source: 'a', target: 'b', confidence: 87.5, evidenceUrl: undefined, thumbnailUrl: undefined, contextUrl: undefined },
+    ]);
+  });
+
+  it('falls back to labels, node ids and edge weights', () => {
+    const payload = parseGraphmlImport(`<graphml>
+      <key id="label" for="node"/>
+      <graph>
+        <node id="n0"><data key="label">Meg Ryan</data></node>
+        <node id="Tom Hanks"/>
+        <edge source="n0" target="Tom Hanks" weight="70"/>
+      </graph>
+    </graphml>`);
+    expect(payload.nodes.map(node => node.name)).toEqual(['Meg Ryan', 'Tom Hanks']);
+    expect(payload.edges[0].confidence).toBe(70);
+  });
+
+  it('rejects documents that are not GraphML', () => {
+    expect(() => parseGraphmlImport('<gexf/>')).toThrow('Not a GraphML document');
+  });
+});
+
+describe('importGraph', () => {
+  let testDb: TestDatabase;
+  let db: D1Database;
+
+  beforeEach(async () => {
+    testDb = await createTestDatabase();
+    db = testDb.db;
+  });
+
+  afterEach(() => testDb?.dispose());
+
+  const edgeConfidence = async (id: string) =>
+    (await db.prepare('SELECT confidence FROM edges WHERE id = ?').bind(id).first<{ confidence: number }>())?.confidence;
+
+  it('keeps the higher confidence and reports what changed', async () => {
+    await importGraph(db, parseJsonImport({ edges: [{ from: 'Tom Hanks', to: 'Meg Ryan', confidence: 80 }, { from: 'Tom Hanks', to: 'Rita Wilson', confidence: 90 }] }));
+
+    const { report, changedEdges } = await importGraph(db, parseJsonImport({
+      edges: [
+        { from: 'tom hanks', to: 'Meg Ryan', confidence: 85 },
+        { from: 'Tom Hanks', to: 'Rita Wilson', confidence: 60 },
+        { from: 'Meg Ryan', to: 'Billy Crystal', confidence: 75 },
+      ],
+    }));
+
+    expect(report).toEqual({
+      nodes: { inserted: 0, updated: 0 },
+      edges: { inserted: 1, updated: 1, unchanged: 1 },
+      rejected: [],
+    });
+    expect(changedEdges.map(edge => [edge.source, edge.target, edge.confidence])).toEqual([
+      ['tom hanks', 'Meg Ryan', 85],
+      ['Meg Ryan', 'Billy Crystal', 75],
+    ]);
+    expect(changedEdges.every(edge => typeof edge.version === 'number')).toBe(true);
+  });
+
+  it('rejects invalid rows and keeps the valid ones', async () => {
+    const { report } = await importGraph(db, parseJsonImport({
+      nodes: [{ name: '' }, { name: 'Tom Hanks', thumbnailUrl: 'ftp://x' }],
+      edges: [
+        { from: 'Tom Hanks', to: 'TOM  HANKS', confidence: 90 },
+        { from: 'Tom Hanks', to: 'Meg Ryan', confidence: 120 },
+        { from: 'Tom Hanks', to: 'Meg Ryan', confidence: 90, evidenceUrl: 'javascript:alert(1)' },
+        { from: 'Tom Hanks', to: 'Meg Ryan', confidence: 90 },
+      ],
+    }));
+
+    expect(report.rejected).toEqual([
+      { kind: 'node', index: 0, reason: 'Missing name' },
+      { kind: 'node', index: 1, reason: 'thumbnailUrl must be an http(s) URL' },
+      { kind: 'edge', index: 0, reason: 'Source and target are the same person' },
+      { kind: 'edge', index: 1, reason: 'confidence must be a number between 0 and 100' },
+      { kind: 'edge', index: 2, reason: 'Evidence URLs must be http(s) URLs' },
+    ]);
+    expect(report.edges.inserted).toBe(1);
+  });
+
+  it('links edges to payload nodes resolved by external identity', async () => {
+    const existing = await upsertNode(db, 'Tom Hanks', undefined, { externalId: 'T1' });
+
+    await importGraph(db, parseJsonImport({
+      nodes: [
+        // Same external identity as the stored node, under another name
+        { id: 'p1', name: 'Thomas Hanks', externalId: 'T1' },
+        // Same name as the stored node, but a different person
+        { id: 'p2', name: 'Tom Hanks', externalId: 'T2' },
+      ],
+      edges: [
+        { source: 'p1', target: 'Rita Wilson', confidence: 90 },
+        { source: 'p2', target: 'Meg Ryan', confidence: 80 },
+      ],
+    }));
+
+    const namesake = generateExternalNodeId('T2');
+    const rita = (await db.prepare("SELECT id FROM nodes WHERE name = 'Rita Wilson'").first<{ id: string }>())!.id;
+    const meg = (await db.prepare("SELECT id FROM nodes WHERE name = 'Meg Ryan'").first<{ id: string }>())!.id;
+    expect(await edgeConfidence(generateEdgeId(existing.id, rita))).toBe(90);
+    expect(await edgeConfidence(generateEdgeId(namesake, meg))).toBe(80);
+
+    const toms = await db.prepare("SELECT id, external_id FROM nodes WHERE name = 'Tom Hanks' ORDER BY id").all();
+    expect(toms.results).toEqual(expect.arrayContaining([
+      { id: existing.id, external_id: 'T1' },
+      { id: namesake, external_id: 'T2' },
+    ]));
+    expect(toms.results).toHaveLength(2);
+  });
+});
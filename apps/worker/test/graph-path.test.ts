@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { findPath, upsertEdge } from '../src/graph-db';
+import { createTestDatabase, type TestDatabase } from './d1';
+
+describe('findPath', () => {
+  let testDb: TestDatabase;
+  let db: D1Database;
+
+  // Ann - Dan directly at 50, through Bob at 90/90, through Cat at 60/99
+  // and through Eve and Fay at 92/92/92
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    db = testDb.db;
+    const edges: Array<[string, string, number]> = [
+      ['Ann', 'Dan', 50],
+      ['Ann', 'Bob', 90],
+      ['Bob', 'Dan', 90],
+      ['Ann', 'Cat', 60],
+      ['Cat', 'Dan', 99],
+      ['Ann', 'Eve', 92],
+      ['Eve', 'Fay', 92],
+      ['Fay', 'Dan', 92],
+    ];
+    for (const [from, to, confidence] of edges) {
+      await upsertEdge(db, from, to, confidence);
+    }
+  });
+
+  afterAll(() => testDb?.dispose());
+
+  it('takes the fewest hops by default', async () => {
+    const result = await findPath(db, 'Ann', 'Dan');
+    expect(result.found).toBe(true);
+    expect(result.path).toEqual(['Ann', 'Dan']);
+    expect(result.minConfidence).toBe(50);
+  });
+
+  it('maximizes the weakest edge in widest mode', async () => {
+    const result = await findPath(db, 'Ann', 'Dan', 'widest');
+    expect(result.path).toEqual(['Ann', 'Eve', 'Fay', 'Dan']);
+    expect(result.minConfidence).toBe(92);
+  });
+
+  it('maximizes the product of confidences in reliable mode', async () => {
+    const result = await findPath(db, 'Ann', 'Dan', 'reliable');
+    expect(result.path).toEqual(['Ann', 'Bob', 'Dan']);
+    expect(result.cumulativeConfidence).toBeCloseTo(0.81);
+  });
+
+  it('lists fewest-hop alternatives first in k-shortest mode', async () => {
+    const result = await findPath(db, 'Ann', 'Dan', 'k-shortest', 3);
+    const paths = result.alternatives!.map(alternative => alternative.path);
+    expect(paths).toHaveLength(3);
+    expect(paths[0]).toEqual(['Ann', 'Dan']);
+    expect(paths.slice(1)).toEqual(expect.arrayContaining([['Ann', 'Bob', 'Dan'], ['Ann', 'Cat', 'Dan']]));
+    expect(result.path).toEqual(paths[0]);
+  });
+
+  it('ignores edges below the minimum confidence', async () => {
+    const result = await findPath(db, 'Ann', 'Dan', 'shortest', undefined, 80);
+    expect(result.hops).toBe(2);
+    expect(result.path).toEqual(['Ann', 'Bob', 'Dan']);
+  });
+
+  it('resolves names case-insensitively and handles the same person', async () => {
+    const result = await findPath(db, 'ann', 'ANN');
+    expect(result).toMatchObject({ found: true, path: ['Ann'], hops: 0 });
+  });
+
+  it('reports unknown people as not found', async () => {
+    const result = await findPath(db, 'Ann', 'Nobody');
+    expect(result.found).toBe(false);
+  });
+});
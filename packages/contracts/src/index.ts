@@ -14,14 +14,26 @@ export interface ImageSearchResult {
   contextUrl: string;
   /** Image title (optional display) */
   title: string;
+  /** 64-bit dHash (16 hex chars), set by the workflow before analysis */
+  perceptualHash?: string;
+  /** Search provider that returned the image (multi-provider search only) */
+  source?: string;
 }
 
 /**
- * Response from a PSE search query
+ * Where search results came from: the query cache, a new search that was
+ * cached, or a new search that skipped the cache
+ */
+export type SearchCacheStatus = "hit" | "miss" | "bypass";
+
+/**
+ * Response from an image search query
  */
 export interface ImageSearchResponse {
   query: string;
   results: ImageSearchResult[];
+  /** Set by the search_images tool */
+  cache?: SearchCacheStatus;
 }
 
 // ============================================================================
@@ -48,6 +60,10 @@ export interface DetectedCelebrity {
   confidence: number;
   /** Face bounding box in the image */
   boundingBox: BoundingBox;
+  /** Stable Rekognition celebrity Id (same person across name variants) */
+  externalId?: string;
+  /** Reference URLs for the celebrity (Wikidata, IMDb) */
+  urls?: string[];
 }
 
 /**
@@ -58,6 +74,8 @@ export interface ImageAnalysisResult {
   imageUrl: string;
   /** All celebrities detected in the image */
   celebrities: DetectedCelebrity[];
+  /** True when served from the detection cache instead of a new Rekognition call */
+  cached?: boolean;
 }
 
 // ============================================================================
@@ -80,10 +98,42 @@ export interface EvidenceRecord {
   contextUrl: string;
   /** Image title */
   title: string;
-  /** Celebrities detected in this image */
-  detectedCelebs: Array<{ name: string; confidence: number }>;
+  /** Celebrities detected in this image (bounding box and identifiers when detected by Rekognition) */
+  detectedCelebs: Array<{
+    name: string;
+    confidence: number;
+    boundingBox?: BoundingBox;
+    externalId?: string;
+    urls?: string[];
+  }>;
   /** Per-image evidence score: min(confP, confQ) */
   imageScore: number;
+  /** Rekognition celebrity Id of the source person, when known */
+  fromExternalId?: string;
+  /** Rekognition celebrity Id of the target person, when known */
+  toExternalId?: string;
+  /** 64-bit dHash of the photo - copies on other sites, crops and resizes share (nearly) the same hash */
+  perceptualHash?: string;
+}
+
+/**
+ * An evidence image persisted for a graph edge
+ */
+export interface StoredEvidence {
+  id: string;
+  edgeId: string;
+  imageUrl: string;
+  thumbnailUrl: string;
+  contextUrl: string;
+  title: string;
+  /** Per-image evidence score: min(confP, confQ) */
+  imageScore: number;
+  /** Per-person confidences and bounding boxes */
+  detectedCelebs: EvidenceRecord["detectedCelebs"];
+  /** 64-bit dHash of the photo, when computed */
+  perceptualHash: string | null;
+  /** ISO-8601 timestamp of when the image was first stored */
+  discoveredAt: string;
 }
 
 /**
@@ -148,13 +198,8 @@ export interface GraphEdge {
 export interface GraphPayload {
   nodes: GraphNode[];
   edges: GraphEdge[];
-  evidence: Array<{
-    id: string;
-    imageUrl: string;
-    thumbnailUrl: string;
-    contextUrl: string;
-    title: string;
-  }>;
+  /** All stored evidence images, referenced by GraphEdge.evidenceRefs */
+  evidence: StoredEvidence[];
 }
 
 // ============================================================================
@@ -195,6 +240,10 @@ export interface InvestigationBudgets {
   maxSubrequests: number;
   /** Subrequests used so far (tracks ALL external calls) */
   subrequestsUsed: number;
+  /** Celebrity detections served from the detection cache (no subrequest spent) */
+  detectionCacheHits?: number;
+  /** Celebrity detections sent to Rekognition */
+  detectionCacheMisses?: number;
 }
 
 export const DEFAULT_BUDGETS: InvestigationBudgets = {
@@ -204,6 +253,116 @@ export const DEFAULT_BUDGETS: InvestigationBudgets = {
   subrequestsUsed: 0,
 };
 
+// ============================================================================
+// Run Configuration (per-request overrides)
+// ============================================================================
+
+/**
+ * Named configuration presets selectable per run
+ */
+export type InvestigationPreset = "quick" | "standard" | "deep";
+
+/**
+ * Budget limits that can be overridden per run
+ */
+export type BudgetLimits = Pick<InvestigationBudgets, "maxSteps" | "maxSubrequests">;
+
+/**
+ * Optional overrides accepted by POST /api/chat/query.
+ * The preset is applied first, then individual values, then the server caps.
+ */
+export interface RunConfigOverrides {
+  preset?: InvestigationPreset;
+  config?: Partial<InvestigationConfig>;
+  budgets?: Partial<BudgetLimits>;
+  /** Search again instead of reusing cached image search results */
+  bypassSearchCache?: boolean;
+}
+
+/**
+ * Configuration a run actually uses after presets, overrides and caps
+ */
+export interface EffectiveRunConfig {
+  preset: InvestigationPreset;
+  config: InvestigationConfig;
+  budgets: BudgetLimits;
+  bypassSearchCache?: boolean;
+}
+
+export const DEFAULT_PRESET: InvestigationPreset = "standard";
+
+export const INVESTIGATION_PRESETS: Record<InvestigationPreset, Omit<EffectiveRunConfig, "preset">> = {
+  quick: {
+    config: { hopLimit: 4, confidenceThreshold: 80, imagesPerQuery: 2 },
+    budgets: { maxSteps: 6, maxSubrequests: 300 },
+  },
+  standard: {
+    config: { ...DEFAULT_CONFIG },
+    budgets: { maxSteps: DEFAULT_BUDGETS.maxSteps, maxSubrequests: DEFAULT_BUDGETS.maxSubrequests },
+  },
+  deep: {
+    config: { hopLimit: 15, confidenceThreshold: 80, imagesPerQuery: 5 },
+    budgets: { maxSteps: 30, maxSubrequests: 900 },
+  },
+};
+
+/**
+ * Server-side caps (inclusive) - overrides outside these bounds are clamped.
+ * maxSubrequests stays under the Cloudflare limit of 1000.
+ */
+export const RUN_CONFIG_LIMITS: Record<keyof InvestigationConfig | keyof BudgetLimits, { min: number; max: number }> = {
+  hopLimit: { min: 1, max: 15 },
+  confidenceThreshold: { min: 50, max: 99 },
+  imagesPerQuery: { min: 1, max: 5 },
+  maxSteps: { min: 1, max: 30 },
+  maxSubrequests: { min: 50, max: 900 },
+};
+
+// ============================================================================
+// Run History Types
+// ============================================================================
+
+export type InvestigationRunStatus = "running" | "success" | "no_path" | "error" | "cancelled";
+
+/**
+ * A persisted investigation run (GET /api/runs/:runId)
+ */
+export interface InvestigationRun {
+  runId: string;
+  /** Workflow instance ID */
+  instanceId: string | null;
+  personA: string;
+  personB: string;
+  /** Effective config the run used */
+  config: EffectiveRunConfig | null;
+  /** Run whose cassette this run replayed */
+  replayOf: string | null;
+  status: InvestigationRunStatus;
+  /** ISO-8601 timestamps */
+  startedAt: string;
+  completedAt: string | null;
+  durationMs: number | null;
+  /** Budget usage when the run ended */
+  budgets: InvestigationBudgets | null;
+  /** Hops in the found path (success only) */
+  hopCount: number | null;
+  /** Path bottleneck confidence (success only) */
+  pathConfidence: number | null;
+  /** Verified path (success only) */
+  result: VerifiedPath | null;
+  /** no_path reason, error or cancel message */
+  message: string | null;
+  /** IDs of the graph edges the run wrote */
+  edgesCreated: string[];
+}
+
+/**
+ * Run list entry (GET /api/runs) - the record without its path payload
+ */
+export type InvestigationRunSummary = Omit<InvestigationRun, "result" | "edgesCreated"> & {
+  edgesCreatedCount: number;
+};
+
 // ============================================================================
 // Candidate Types (for LLM Planner)
 // ============================================================================
@@ -310,8 +469,8 @@ export type DirectEdgeResult =
  * Result of a full investigation
  */
 export type InvestigationResult =
-  | { status: "success"; result: VerifiedPath; disclaimer: string }
-  | { status: "no_path"; personA: string; personB: string; message: string };
+  | { status: "success"; result: VerifiedPath; disclaimer: string; config?: EffectiveRunConfig }
+  | { status: "no_path"; personA: string; personB: string; message: string; config?: EffectiveRunConfig };
 
 // ============================================================================
 // Streaming Event Types (for Chain-of-Thought UI)
@@ -326,7 +485,7 @@ export type InvestigationEventType =
   | "step_update"        // Progress update within a step
   | "step_complete"      // Step completed
   // Detail events (nested within steps)
-  | "research"           // Starting a search query
+  | "research"           // Image search query and its cache status
   | "thinking"           // LLM reasoning/thoughts
   | "strategy"           // Initial strategy decision
   | "strategy_update"    // Strategy updated based on findings
@@ -339,6 +498,7 @@ export type InvestigationEventType =
   | "status"             // General status update
   | "final"              // Investigation completed successfully
   | "no_path"            // Investigation completed with no path
+  | "cancelled"          // Investigation stopped by the user
   | "error";             // Error occurred
 
 /**
@@ -381,6 +541,8 @@ export interface InvestigationEvent {
     toPerson?: string;
     // For research events
     query?: string;
+    searchCache?: SearchCacheStatus;
+    resultCount?: number;
     // For thinking events
     reasoning?: string;
     /** Streaming chunk of AI thinking (append to previous chunks) */
@@ -393,7 +555,7 @@ export interface InvestigationEvent {
     imageIndex?: number;
     totalImages?: number;
     imageUrl?: string;
-    status?: "collage" | "no_match" | "evidence" | "error";
+    status?: "collage" | "no_match" | "evidence" | "error" | "duplicate";
     reason?: string;
     celebrities?: Array<{ name: string; confidence: number }>;
     /** Whether this evidence was verified by AI (vs Rekognition) */
@@ -408,10 +570,18 @@ export interface InvestigationEvent {
       evidenceUrl?: string;
       thumbnailUrl?: string;
       contextUrl?: string;
+      /** Whether this edge was reused from the persisted graph instead of freshly verified */
+      fromGraph?: boolean;
     };
     // For path_update events
     path?: string[];
     hopDepth?: number;
+    /** Bidirectional search: half grown from personA (ends at the meeting point once met) */
+    forwardPath?: string[];
+    /** Bidirectional search: half grown from personB, ordered toward personB */
+    backwardPath?: string[];
+    /** Bidirectional search: person where both halves joined */
+    meetingPoint?: string;
     // For strategy_update events
     confirmedBridge?: string;
     progressPct?: number;
@@ -419,6 +589,8 @@ export interface InvestigationEvent {
     hop?: number;
     frontier?: string;
     budget?: InvestigationBudgets;
+    /** Effective run configuration (first status event, final and no_path events) */
+    config?: EffectiveRunConfig;
     // For backtrack events
     from?: string;
     to?: string;
@@ -436,10 +608,12 @@ export interface InvestigationEvent {
 export interface EventsResponse {
   /** Run ID */
   runId: string;
-  /** All events (or events after cursor) */
+  /** Events after the cursor, one page at most */
   events: InvestigationEvent[];
-  /** Whether the investigation is complete */
+  /** Whether the investigation is complete and this page reaches its last event */
   complete: boolean;
-  /** Cursor for next poll (timestamp of last event) */
+  /** Cursor for next poll (index of the next event in the run's buffer) */
   cursor?: string;
+  /** Whether more buffered events are waiting past this page */
+  hasMore?: boolean;
 }
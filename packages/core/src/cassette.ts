@@ -0,0 +1,166 @@
+/**
+ * Record/replay cassettes for external calls
+ *
+ * A cassette captures every external response of a run (image search, visual
+ * filter, celebrity detection, planner) keyed by call name + JSON arguments.
+ * Replaying the cassette feeds the same responses back in the same order, so a
+ * run can be reproduced deterministically without network access.
+ *
+ * Call names are shared between the worker workflow and InvestigationOrchestrator
+ * ("search.searchImages", "visualFilter.verifyVisualCopresence",
+ * "celebrityDetection.detectCelebrities", "planner.<method>"), so a cassette
+ * recorded in production can be replayed through either.
+ */
+
+import type { OrchestratorClients } from "./orchestrator.js";
+
+export const CASSETTE_VERSION = 1;
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteInteraction {
+  /** Call name + serialized arguments */
+  key: string;
+  call: string;
+  args: unknown[];
+  /** Recorded response (absent when the call threw) */
+  response?: unknown;
+  /** Recorded error message when the call threw */
+  error?: string;
+}
+
+export interface Cassette {
+  version: number;
+  recordedAt: string;
+  /** Free-form run metadata (personA, personB, runId, ...) */
+  meta: Record<string, unknown>;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Thrown in replay mode when the cassette has no response for a call
+ */
+export class CassetteMissError extends Error {
+  constructor(public readonly key: string) {
+    super(`No recorded response for ${key}`);
+    this.name = "CassetteMissError";
+  }
+}
+
+export function cassetteKey(call: string, args: unknown[]): string {
+  return `${call}(${JSON.stringify(args)})`;
+}
+
+/**
+ * A cassette being recorded or replayed.
+ *
+ * Identical calls are replayed in recorded order; once exhausted, the last
+ * recorded response for that key is reused.
+ */
+export class CassetteTape {
+  readonly mode: CassetteMode;
+  private readonly meta: Record<string, unknown>;
+  private readonly interactions: CassetteInteraction[] = [];
+  private readonly queues = new Map<string, CassetteInteraction[]>();
+  private readonly lastPlayed = new Map<string, CassetteInteraction>();
+
+  private constructor(mode: CassetteMode, meta: Record<string, unknown>) {
+    this.mode = mode;
+    this.meta = meta;
+  }
+
+  static record(meta: Record<string, unknown> = {}): CassetteTape {
+    return new CassetteTape("record", meta);
+  }
+
+  static replay(cassette: Cassette): CassetteTape {
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new Error(`Unsupported cassette version ${cassette.version} (expected ${CASSETTE_VERSION})`);
+    }
+    const tape = new CassetteTape("replay", cassette.meta);
+    for (const interaction of cassette.interactions) {
+      const queue = tape.queues.get(interaction.key) ?? [];
+      queue.push(interaction);
+      tape.queues.set(interaction.key, queue);
+    }
+    return tape;
+  }
+
+  /** Number of interactions recorded so far */
+  get size(): number {
+    return this.interactions.length;
+  }
+
+  /**
+   * Run an external call through the tape: record its outcome, or replay it
+   */
+  async run<T>(call: string, args: unknown[], fn: () => Promise<T>): Promise<T> {
+    const key = cassetteKey(call, args);
+
+    if (this.mode === "replay") {
+      const interaction = this.queues.get(key)?.shift() ?? this.lastPlayed.get(key);
+      if (!interaction) {
+        throw new CassetteMissError(key);
+      }
+      this.lastPlayed.set(key, interaction);
+      if (interaction.error !== undefined) {
+        throw new Error(interaction.error);
+      }
+      return interaction.response as T;
+    }
+
+    try {
+      const response = await fn();
+      // Store the JSON form so replay returns exactly what was recorded
+      const stored = response === undefined ? undefined : JSON.parse(JSON.stringify(response));
+      this.interactions.push({ key, call, args, response: stored });
+      return response;
+    } catch (error) {
+      this.interactions.push({ key, call, args, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Wrap a single function so each call goes through the tape
+   */
+  wrapFunction<A extends unknown[], R>(call: string, fn: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+    return (...args: A) => this.run(call, args, () => fn(...args));
+  }
+
+  /**
+   * Wrap every method of a client as "<prefix>.<method>".
+   * In replay mode the underlying client is never called.
+   */
+  wrapClient<T extends object>(prefix: string, client: T): T {
+    return new Proxy(client, {
+      get: (target, prop, receiver) => {
+        const value = Reflect.get(target, prop, receiver);
+        if (typeof value !== "function" || typeof prop !== "string") return value;
+        return (...args: unknown[]) =>
+          this.run(`${prefix}.${prop}`, args, () => value.apply(target, args));
+      },
+    });
+  }
+
+  /**
+   * Wrap all InvestigationOrchestrator clients
+   */
+  wrapClients(clients: OrchestratorClients): OrchestratorClients {
+    return {
+      search: this.wrapClient("search", clients.search),
+      visualFilter: this.wrapClient("visualFilter", clients.visualFilter),
+      celebrityDetection: this.wrapClient("celebrityDetection", clients.celebrityDetection),
+      planner: this.wrapClient("planner", clients.planner),
+    };
+  }
+
+  toCassette(): Cassette {
+    return {
+      version: CASSETTE_VERSION,
+      recordedAt: new Date().toISOString(),
+      meta: this.meta,
+      interactions: this.interactions,
+    };
+  }
+}
@@ -33,58 +33,118 @@ export function normalizeName(name: string): string {
 }
 
 /**
- * Known celebrity aliases - maps aliases to canonical names
- * This helps match "Ye" to "Kanye West", "P. Diddy" to "Sean Combs", etc.
+ * An alias for a person, mapped to their canonical name
  */
-const CELEBRITY_ALIASES: Record<string, string[]> = {
-  "kanye west": ["ye", "kanye"],
-  "sean combs": ["p. diddy", "puff daddy", "diddy", "puffy"],
-  "dwayne johnson": ["the rock", "rock"],
-  "stefani germanotta": ["lady gaga", "gaga"],
-  "marshall mathers": ["eminem", "slim shady"],
-  "curtis jackson": ["50 cent", "50cent", "fiddy"],
-  "shawn carter": ["jay-z", "jay z", "jayz", "hov", "hova"],
-  "beyoncé knowles": ["beyonce", "beyoncé", "queen bey"],
-  "robyn fenty": ["rihanna", "riri"],
-  "onika maraj": ["nicki minaj", "nicki"],
-  "aubrey graham": ["drake", "drizzy", "champagnepapi"],
-  "abel tesfaye": ["the weeknd", "weeknd"],
-  "calvin broadus": ["snoop dogg", "snoop", "snoop lion"],
-  "william adams": ["will.i.am", "william"],
-  "cordozar broadus": ["snoop dogg", "snoop"],
-  "belcalis almanzar": ["cardi b", "cardi"],
-  "melissa jefferson": ["lizzo"],
-  "donald glover": ["childish gambino", "gambino"],
-  "o'shea jackson": ["ice cube", "cube"],
-  "andre young": ["dr. dre", "dr dre", "dre"],
-  "alicia cook": ["alicia keys", "keys"],
-  "prince rogers nelson": ["prince"],
-  "michael jackson": ["mj", "king of pop"],
-  "elvis presley": ["elvis", "the king"],
-  "reginald dwight": ["elton john", "elton"],
-  "farrokh bulsara": ["freddie mercury", "freddie"],
-  "paul hewson": ["bono"],
-  "david bowie": ["ziggy stardust", "bowie"],
-};
+export interface AliasEntry {
+  alias: string;
+  canonical: string;
+}
 
 /**
- * Check if two names might be aliases of the same person
+ * Alias registry - maps normalized aliases (and canonical names) to normalized canonical names
  */
-function areAliases(name1: string, name2: string): boolean {
-  const n1 = normalizeName(name1);
-  const n2 = normalizeName(name2);
+export type AliasRegistry = ReadonlyMap<string, string>;
 
-  // Check if both names map to the same canonical name
-  for (const [canonical, aliases] of Object.entries(CELEBRITY_ALIASES)) {
-    const allNames = [canonical, ...aliases];
-    const n1Match = allNames.some(a => n1.includes(a) || a.includes(n1));
-    const n2Match = allNames.some(a => n2.includes(a) || a.includes(n2));
-    if (n1Match && n2Match) {
-      return true;
-    }
+/**
+ * Well-known stage names and legal names, so "Ye" matches "Kanye West" even
+ * without the database registry (the worker seeds node_aliases with the same list)
+ */
+export const DEFAULT_ALIASES: readonly AliasEntry[] = [
+  { alias: "ye", canonical: "Kanye West" },
+  { alias: "kanye", canonical: "Kanye West" },
+  { alias: "p. diddy", canonical: "Sean Combs" },
+  { alias: "puff daddy", canonical: "Sean Combs" },
+  { alias: "diddy", canonical: "Sean Combs" },
+  { alias: "puffy", canonical: "Sean Combs" },
+  { alias: "the rock", canonical: "Dwayne Johnson" },
+  { alias: "rock", canonical: "Dwayne Johnson" },
+  { alias: "stefani germanotta", canonical: "Lady Gaga" },
+  { alias: "gaga", canonical: "Lady Gaga" },
+  { alias: "marshall mathers", canonical: "Eminem" },
+  { alias: "slim shady", canonical: "Eminem" },
+  { alias: "curtis jackson", canonical: "50 Cent" },
+  { alias: "50cent", canonical: "50 Cent" },
+  { alias: "fiddy", canonical: "50 Cent" },
+  { alias: "shawn carter", canonical: "Jay-Z" },
+  { alias: "jay z", canonical: "Jay-Z" },
+  { alias: "jayz", canonical: "Jay-Z" },
+  { alias: "hov", canonical: "Jay-Z" },
+  { alias: "hova", canonical: "Jay-Z" },
+  { alias: "beyoncé knowles", canonical: "Beyoncé" },
+  { alias: "queen bey", canonical: "Beyoncé" },
+  { alias: "robyn fenty", canonical: "Rihanna" },
+  { alias: "riri", canonical: "Rihanna" },
+  { alias: "onika maraj", canonical: "Nicki Minaj" },
+  { alias: "nicki", canonical: "Nicki Minaj" },
+  { alias: "aubrey graham", canonical: "Drake" },
+  { alias: "drizzy", canonical: "Drake" },
+  { alias: "champagnepapi", canonical: "Drake" },
+  { alias: "abel tesfaye", canonical: "The Weeknd" },
+  { alias: "weeknd", canonical: "The Weeknd" },
+  { alias: "calvin broadus", canonical: "Snoop Dogg" },
+  { alias: "cordozar broadus", canonical: "Snoop Dogg" },
+  { alias: "snoop", canonical: "Snoop Dogg" },
+  { alias: "snoop lion", canonical: "Snoop Dogg" },
+  { alias: "william adams", canonical: "will.i.am" },
+  { alias: "belcalis almanzar", canonical: "Cardi B" },
+  { alias: "cardi", canonical: "Cardi B" },
+  { alias: "melissa jefferson", canonical: "Lizzo" },
+  { alias: "childish gambino", canonical: "Donald Glover" },
+  { alias: "gambino", canonical: "Donald Glover" },
+  { alias: "o'shea jackson", canonical: "Ice Cube" },
+  { alias: "cube", canonical: "Ice Cube" },
+  { alias: "andre young", canonical: "Dr. Dre" },
+  { alias: "dr dre", canonical: "Dr. Dre" },
+  { alias: "dre", canonical: "Dr. Dre" },
+  { alias: "alicia cook", canonical: "Alicia Keys" },
+  { alias: "keys", canonical: "Alicia Keys" },
+  { alias: "prince rogers nelson", canonical: "Prince" },
+  { alias: "mj", canonical: "Michael Jackson" },
+  { alias: "king of pop", canonical: "Michael Jackson" },
+  { alias: "elvis", canonical: "Elvis Presley" },
+  { alias: "the king", canonical: "Elvis Presley" },
+  { alias: "reginald dwight", canonical: "Elton John" },
+  { alias: "elton", canonical: "Elton John" },
+  { alias: "farrokh bulsara", canonical: "Freddie Mercury" },
+  { alias: "freddie", canonical: "Freddie Mercury" },
+  { alias: "paul hewson", canonical: "Bono" },
+  { alias: "ziggy stardust", canonical: "David Bowie" },
+  { alias: "bowie", canonical: "David Bowie" },
+];
+
+/**
+ * Build an alias registry from the given entries on top of the built-in defaults
+ * Registries are immutable: each run builds its own, nothing is shared between runs.
+ */
+export function createAliasRegistry(
+  entries: AliasEntry[],
+  base: readonly AliasEntry[] = DEFAULT_ALIASES
+): AliasRegistry {
+  const registry = new Map<string, string>();
+  for (const { alias, canonical } of [...base, ...entries]) {
+    const normalizedCanonical = normalizeName(canonical);
+    registry.set(normalizedCanonical, normalizedCanonical);
+    registry.set(normalizeName(alias), normalizedCanonical);
   }
+  return registry;
+}
 
-  return false;
+/** Registry used when callers do not pass their own */
+const defaultAliasRegistry = createAliasRegistry([]);
+
+/**
+ * Resolve a name to its normalized canonical name, if it is a known alias
+ */
+export function resolveAlias(name: string, aliases: AliasRegistry = defaultAliasRegistry): string | undefined {
+  return aliases.get(normalizeName(name));
+}
+
+/**
+ * Check if two names are aliases of the same person
+ */
+function areAliases(name1: string, name2: string, aliases: AliasRegistry): boolean {
+  const canonical1 = resolveAlias(name1, aliases);
+  return canonical1 !== undefined && canonical1 === resolveAlias(name2, aliases);
 }
 
 /**
@@ -123,7 +183,11 @@ function wordsContainedIn(shorter: string, longer: string): boolean {
  * 4. Word containment (e.g., "Donald Trump" contains all words in "Trump")
  * 5. Surname + first name match (e.g., "Donald Trump" vs "Donald J. Trump")
  */
-export function namesMatch(name1: string, name2: string): boolean {
+export function namesMatch(
+  name1: string,
+  name2: string,
+  aliases: AliasRegistry = defaultAliasRegistry
+): boolean {
   const n1 = normalizeName(name1);
   const n2 = normalizeName(name2);
 
@@ -131,7 +195,7 @@ export function namesMatch(name1: string, name2: string): boolean {
   if (n1 === n2) return true;
 
   // Known celebrity aliases (e.g., "Kanye West" vs "Ye")
-  if (areAliases(name1, name2)) return true;
+  if (areAliases(name1, name2, aliases)) return true;
 
   // Reversed name order (e.g., "Obama Barack" vs "Barack Obama")
   const parts1 = n1.split(" ");
@@ -168,7 +232,8 @@ export function namesMatch(name1: string, name2: string): boolean {
  */
 export function findCelebrity(
   celebrities: DetectedCelebrity[],
-  targetName: string
+  targetName: string,
+  aliases: AliasRegistry = defaultAliasRegistry
 ): DetectedCelebrity | undefined {
   // First try exact match
   const exactMatch = celebrities.find(
@@ -177,7 +242,7 @@ export function findCelebrity(
   if (exactMatch) return exactMatch;
 
   // Then try flexible matching
-  return celebrities.find((c) => namesMatch(c.name, targetName));
+  return celebrities.find((c) => namesMatch(c.name, targetName, aliases));
 }
 
 /**
@@ -188,10 +253,11 @@ export function isValidEvidence(
   celebrities: DetectedCelebrity[],
   personP: string,
   personQ: string,
-  confidenceThreshold: number = 80
+  confidenceThreshold: number = 80,
+  aliases: AliasRegistry = defaultAliasRegistry
 ): boolean {
-  const celebP = findCelebrity(celebrities, personP);
-  const celebQ = findCelebrity(celebrities, personQ);
+  const celebP = findCelebrity(celebrities, personP, aliases);
+  const celebQ = findCelebrity(celebrities, personQ, aliases);
 
   if (!celebP || !celebQ) {
     return false;
@@ -209,10 +275,11 @@ export function isValidEvidence(
 export function calculateImageScore(
   celebrities: DetectedCelebrity[],
   personP: string,
-  personQ: string
+  personQ: string,
+  aliases: AliasRegistry = defaultAliasRegistry
 ): number | null {
-  const celebP = findCelebrity(celebrities, personP);
-  const celebQ = findCelebrity(celebrities, personQ);
+  const celebP = findCelebrity(celebrities, personP, aliases);
+  const celebQ = findCelebrity(celebrities, personQ, aliases);
 
   if (!celebP || !celebQ) {
     return null;
@@ -228,16 +295,17 @@ export function createEvidenceRecord(
   searchResult: ImageSearchResult,
   analysis: ImageAnalysisResult,
   personP: string,
-  personQ: string
+  personQ: string,
+  aliases: AliasRegistry = defaultAliasRegistry
 ): EvidenceRecord | null {
-  const imageScore = calculateImageScore(analysis.celebrities, personP, personQ);
+  const imageScore = calculateImageScore(analysis.celebrities, personP, personQ, aliases);
 
   if (imageScore === null) {
     return null;
   }
 
-  const celebP = findCelebrity(analysis.celebrities, personP);
-  const celebQ = findCelebrity(analysis.celebrities, personQ);
+  const celebP = findCelebrity(analysis.celebrities, personP, aliases);
+  const celebQ = findCelebrity(analysis.celebrities, personQ, aliases);
 
   if (!celebP || !celebQ) {
     return null;
@@ -251,10 +319,51 @@ export function createEvidenceRecord(
     contextUrl: searchResult.contextUrl,
     title: searchResult.title,
     detectedCelebs: [
-      { name: celebP.name, confidence: celebP.confidence },
-      { name: celebQ.name, confidence: celebQ.confidence },
+      {
+        name: celebP.name,
+        confidence: celebP.confidence,
+        boundingBox: celebP.boundingBox,
+        externalId: celebP.externalId,
+        urls: celebP.urls,
+      },
+      {
+        name: celebQ.name,
+        confidence: celebQ.confidence,
+        boundingBox: celebQ.boundingBox,
+        externalId: celebQ.externalId,
+        urls: celebQ.urls,
+      },
     ],
     imageScore,
+    fromExternalId: celebP.externalId,
+    toExternalId: celebQ.externalId,
+    perceptualHash: searchResult.perceptualHash,
+  };
+}
+
+/**
+ * Create an evidence record from an AI verification of a search result
+ * (the fallback when Rekognition does not recognize both people)
+ */
+export function createAIEvidenceRecord(
+  searchResult: ImageSearchResult,
+  verification: { personAConfidence: number; personBConfidence: number; overallConfidence: number },
+  personP: string,
+  personQ: string
+): EvidenceRecord {
+  return {
+    from: personP,
+    to: personQ,
+    imageUrl: searchResult.imageUrl,
+    thumbnailUrl: searchResult.thumbnailUrl,
+    contextUrl: searchResult.contextUrl,
+    title: searchResult.title,
+    detectedCelebs: [
+      { name: personP, confidence: verification.personAConfidence },
+      { name: personQ, confidence: verification.personBConfidence },
+    ],
+    imageScore: verification.overallConfidence,
+    perceptualHash: searchResult.perceptualHash,
   };
 }
 
@@ -329,9 +438,10 @@ export function calculatePathConfidence(edges: VerifiedEdge[]): PathConfidence {
 export function getCoAppearingCelebrities(
   analysis: ImageAnalysisResult,
   targetPerson: string,
-  confidenceThreshold: number = 80
+  confidenceThreshold: number = 80,
+  aliases: AliasRegistry = defaultAliasRegistry
 ): DetectedCelebrity[] {
-  const target = findCelebrity(analysis.celebrities, targetPerson);
+  const target = findCelebrity(analysis.celebrities, targetPerson, aliases);
 
   // Target must be present at threshold
   if (!target || target.confidence < confidenceThreshold) {
@@ -341,7 +451,7 @@ export function getCoAppearingCelebrities(
   // Return all other celebrities at threshold
   return analysis.celebrities.filter(
     (c) =>
-      !namesMatch(c.name, targetPerson) && c.confidence >= confidenceThreshold
+      !namesMatch(c.name, targetPerson, aliases) && c.confidence >= confidenceThreshold
   );
 }
 
@@ -362,13 +472,15 @@ export interface AnalysisWithContext {
  * @param frontier - The current frontier person being expanded
  * @param excludeNames - Names to exclude (e.g., people already in the path)
  * @param confidenceThreshold - Minimum confidence to consider (default: 80)
+ * @param aliases - Alias registry for name matching (default: built-in aliases)
  * @returns Sorted array of candidates (highest confidence first)
  */
 export function aggregateCandidates(
   analyses: AnalysisWithContext[],
   frontier: string,
   excludeNames: string[] = [],
-  confidenceThreshold: number = 80
+  confidenceThreshold: number = 80,
+  aliases: AliasRegistry = defaultAliasRegistry
 ): Candidate[] {
   // Build a map of candidate name (normalized) -> aggregated data
   const candidateMap = new Map<
@@ -392,7 +504,8 @@ export function aggregateCandidates(
     const coAppearing = getCoAppearingCelebrities(
       analysis,
       frontier,
-      confidenceThreshold
+      confidenceThreshold,
+      aliases
     );
 
     for (const celeb of coAppearing) {
@@ -406,7 +519,7 @@ export function aggregateCandidates(
       // Check if this matches an existing candidate (flexible matching)
       let matchedKey: string | null = null;
       for (const [key] of candidateMap) {
-        if (namesMatch(celeb.name, key)) {
+        if (namesMatch(celeb.name, key, aliases)) {
           matchedKey = key;
           break;
         }
@@ -453,3 +566,41 @@ export function aggregateCandidates(
   return candidates;
 }
 
+/**
+ * Merge co-appearance candidates with planner suggestions into one ranked list
+ * People found both ways rank first, then people photographed with the
+ * frontier, then suggestions without photo evidence (coappearCount 0).
+ * Each group keeps its source order.
+ *
+ * @param coappearing - Candidates from aggregateCandidates (photo evidence)
+ * @param suggested - Candidates suggested by the planner
+ * @param aliases - Alias registry for name matching (default: built-in aliases)
+ * @returns Ranked candidates, one per person
+ */
+export function mergeCandidateSources(
+  coappearing: Candidate[],
+  suggested: Candidate[],
+  aliases: AliasRegistry = defaultAliasRegistry
+): Candidate[] {
+  const both: Candidate[] = [];
+  const photoOnly: Candidate[] = [];
+
+  for (const candidate of coappearing) {
+    const suggestion = suggested.find((s) => namesMatch(s.name, candidate.name, aliases));
+    if (suggestion) {
+      both.push({
+        ...candidate,
+        bestCoappearConfidence: Math.max(candidate.bestCoappearConfidence, suggestion.bestCoappearConfidence),
+      });
+    } else {
+      photoOnly.push(candidate);
+    }
+  }
+
+  const suggestedOnly = suggested
+    .filter((s) => !coappearing.some((c) => namesMatch(c.name, s.name, aliases)))
+    .map((s) => ({ ...s, coappearCount: 0 }));
+
+  return [...both, ...photoOnly, ...suggestedOnly];
+}
+
@@ -1,18 +1,23 @@
 // Confidence scoring
 export {
   normalizeName,
+  createAliasRegistry,
+  DEFAULT_ALIASES,
+  resolveAlias,
   namesMatch,
   findCelebrity,
   isValidEvidence,
   calculateImageScore,
   createEvidenceRecord,
+  createAIEvidenceRecord,
   calculateEdgeConfidence,
   createVerifiedEdge,
   calculatePathConfidence,
   getCoAppearingCelebrities,
   aggregateCandidates,
+  mergeCandidateSources,
 } from "./confidence.js";
-export type { AnalysisWithContext } from "./confidence.js";
+export type { AnalysisWithContext, AliasEntry, AliasRegistry } from "./confidence.js";
 
 // Query templates
 export {
@@ -20,8 +25,25 @@ export {
   discoveryQueries,
   verificationQueries,
   bridgeQueries,
+  normalizeQuery,
 } from "./query-templates.js";
 
+// Near-duplicate photo detection
+export {
+  hammingDistance,
+  isNearDuplicate,
+  PhotoDeduplicator,
+  NEAR_DUPLICATE_DISTANCE,
+} from "./photo-dedup.js";
+
+// Per-run configuration
+export { resolveRunConfig, isInvestigationPreset } from "./run-config.js";
+export type { RunConfigResolution } from "./run-config.js";
+
+// Record/replay cassettes
+export { CassetteTape, CassetteMissError, cassetteKey, CASSETTE_VERSION } from "./cassette.js";
+export type { Cassette, CassetteInteraction, CassetteMode } from "./cassette.js";
+
 // Orchestrator (state machine)
 export { InvestigationOrchestrator } from "./orchestrator.js";
 export type {
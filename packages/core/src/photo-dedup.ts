@@ -0,0 +1,57 @@
+/**
+ * Near-duplicate photo detection
+ *
+ * Image search returns the same photo from several sites, crops and
+ * resolutions. Each copy has a different URL but (nearly) the same 64-bit
+ * perceptual hash, so photos are compared by Hamming distance.
+ */
+
+/** Hashes at most this many bits apart are treated as the same photo */
+export const NEAR_DUPLICATE_DISTANCE = 10;
+
+const POPCOUNT_4BIT = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ * Returns Infinity for hashes that cannot be compared
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = parseInt(a[i], 16);
+    const y = parseInt(b[i], 16);
+    if (Number.isNaN(x) || Number.isNaN(y)) return Infinity;
+    distance += POPCOUNT_4BIT[x ^ y];
+  }
+  return distance;
+}
+
+export function isNearDuplicate(a: string, b: string, maxDistance = NEAR_DUPLICATE_DISTANCE): boolean {
+  return hammingDistance(a, b) <= maxDistance;
+}
+
+/**
+ * Photos already seen in a run, keyed by perceptual hash
+ */
+export class PhotoDeduplicator {
+  private readonly seen: Array<{ hash: string; imageUrl: string }> = [];
+
+  constructor(private readonly maxDistance = NEAR_DUPLICATE_DISTANCE) {}
+
+  /**
+   * URL of an earlier near-duplicate of this photo, or null (and the photo is remembered)
+   */
+  check(imageUrl: string, hash: string): string | null {
+    const match = this.seen.find(photo => isNearDuplicate(photo.hash, hash, this.maxDistance));
+    if (match) return match.imageUrl;
+
+    this.seen.push({ hash, imageUrl });
+    return null;
+  }
+
+  get size(): number {
+    return this.seen.length;
+  }
+}
@@ -48,3 +48,10 @@ export function bridgeQueries(intermediate: string, target: string): string[] {
   return [`${intermediate} ${target}`, `${intermediate} ${target} together`];
 }
 
+/**
+ * Cache key for a search query
+ * Case and whitespace differences don't change search results; accents can.
+ */
+export function normalizeQuery(query: string): string {
+  return query.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
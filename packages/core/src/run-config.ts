@@ -0,0 +1,101 @@
+/**
+ * Per-run configuration
+ *
+ * Resolves the optional preset / config / budget / cache overrides of a query request
+ * into the EffectiveRunConfig a run uses. Values are applied in order
+ * preset → overrides → RUN_CONFIG_LIMITS, so the server caps always win.
+ */
+
+import type {
+  BudgetLimits,
+  EffectiveRunConfig,
+  InvestigationConfig,
+  InvestigationPreset,
+  RunConfigOverrides,
+} from "@visual-degrees/contracts";
+import { DEFAULT_PRESET, INVESTIGATION_PRESETS, RUN_CONFIG_LIMITS } from "@visual-degrees/contracts";
+
+export type RunConfigResolution =
+  | { ok: true; value: EffectiveRunConfig }
+  | { ok: false; error: string };
+
+const CONFIG_KEYS: Array<keyof InvestigationConfig> = ["hopLimit", "confidenceThreshold", "imagesPerQuery"];
+const BUDGET_KEYS: Array<keyof BudgetLimits> = ["maxSteps", "maxSubrequests"];
+
+export function isInvestigationPreset(value: unknown): value is InvestigationPreset {
+  return typeof value === "string" && value in INVESTIGATION_PRESETS;
+}
+
+function clampToLimit(key: keyof typeof RUN_CONFIG_LIMITS, value: number): number {
+  const { min, max } = RUN_CONFIG_LIMITS[key];
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+/**
+ * Copy validated numeric overrides from `source` onto `target`.
+ * Returns an error message for the first invalid field.
+ */
+function applyOverrides<K extends keyof typeof RUN_CONFIG_LIMITS & string>(
+  section: string,
+  source: unknown,
+  keys: K[],
+  target: Record<K, number>
+): string | null {
+  if (source === undefined || source === null) return null;
+  if (typeof source !== "object" || Array.isArray(source)) {
+    return `${section} must be an object`;
+  }
+
+  const record = source as Record<string, unknown>;
+  for (const field of Object.keys(record)) {
+    if (!keys.includes(field as K)) {
+      return `Unknown ${section} field "${field}" (expected: ${keys.join(", ")})`;
+    }
+  }
+
+  for (const key of keys) {
+    const value = record[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return `${section}.${key} must be a number`;
+    }
+    target[key] = value;
+  }
+  return null;
+}
+
+/**
+ * Resolve request overrides into an effective run configuration.
+ * Unknown presets, unknown fields and non-numeric values are rejected;
+ * numbers outside RUN_CONFIG_LIMITS are clamped.
+ */
+export function resolveRunConfig(overrides: RunConfigOverrides | undefined): RunConfigResolution {
+  const preset = overrides?.preset ?? DEFAULT_PRESET;
+  if (!isInvestigationPreset(preset)) {
+    return {
+      ok: false,
+      error: `Unknown preset "${String(preset)}" (expected: ${Object.keys(INVESTIGATION_PRESETS).join(", ")})`,
+    };
+  }
+
+  const base = INVESTIGATION_PRESETS[preset];
+  const config: InvestigationConfig = { ...base.config };
+  const budgets: BudgetLimits = { ...base.budgets };
+
+  const error =
+    applyOverrides("config", overrides?.config, CONFIG_KEYS, config) ??
+    applyOverrides("budgets", overrides?.budgets, BUDGET_KEYS, budgets);
+  if (error) {
+    return { ok: false, error };
+  }
+
+  const bypassSearchCache = overrides?.bypassSearchCache;
+  if (bypassSearchCache !== undefined && typeof bypassSearchCache !== "boolean") {
+    return { ok: false, error: "bypassSearchCache must be a boolean" };
+  }
+
+  for (const key of CONFIG_KEYS) config[key] = clampToLimit(key, config[key]);
+  for (const key of BUDGET_KEYS) budgets[key] = clampToLimit(key, budgets[key]);
+
+  return { ok: true, value: { preset, config, budgets, ...(bypassSearchCache && { bypassSearchCache }) } };
+}
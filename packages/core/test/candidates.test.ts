@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { Candidate } from "@visual-degrees/contracts";
+import { createAliasRegistry, mergeCandidateSources } from "../src/confidence.js";
+
+function candidate(name: string, bestCoappearConfidence: number, coappearCount = 1): Candidate {
+  return { name, coappearCount, bestCoappearConfidence, evidenceContextUrls: [] };
+}
+
+describe("mergeCandidateSources", () => {
+  it("ranks people found both ways first, then photo-only, then suggestions", () => {
+    const merged = mergeCandidateSources(
+      [candidate("Meg Ryan", 95, 3), candidate("Tom Hanks", 90, 2)],
+      [candidate("Rita Wilson", 80), candidate("Tom Hanks", 99)]
+    );
+
+    expect(merged).toEqual([
+      candidate("Tom Hanks", 99, 2),
+      candidate("Meg Ryan", 95, 3),
+      candidate("Rita Wilson", 80, 0),
+    ]);
+  });
+
+  it("keeps one entry per person when names differ by alias or spelling", () => {
+    const merged = mergeCandidateSources(
+      [candidate("Kanye West", 92, 2), candidate("Beyoncé", 97)],
+      [candidate("Ye", 70), candidate("BEYONCE", 60)]
+    );
+
+    expect(merged.map((c) => [c.name, c.bestCoappearConfidence, c.coappearCount])).toEqual([
+      ["Kanye West", 92, 2],
+      ["Beyoncé", 97, 1],
+    ]);
+  });
+
+  it("uses the provided alias registry", () => {
+    const aliases = createAliasRegistry([{ alias: "Marky Mark", canonical: "Mark Wahlberg" }]);
+    const merged = mergeCandidateSources([candidate("Mark Wahlberg", 90)], [candidate("Marky Mark", 75)], aliases);
+
+    expect(merged).toEqual([candidate("Mark Wahlberg", 90)]);
+  });
+
+  it("handles empty sources", () => {
+    expect(mergeCandidateSources([], [])).toEqual([]);
+    expect(mergeCandidateSources([], [candidate("Meg Ryan", 50)])).toEqual([candidate("Meg Ryan", 50, 0)]);
+  });
+});
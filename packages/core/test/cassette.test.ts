@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import { CassetteMissError, CassetteTape, cassetteKey } from "../src/cassette.js";
+
+describe("cassetteKey", () => {
+  it("keys calls by name and JSON arguments", () => {
+    expect(cassetteKey("search.searchImages", [{ query: "a b" }])).toBe('search.searchImages([{"query":"a b"}])');
+  });
+
+  it("tells apart different arguments to the same call", () => {
+    expect(cassetteKey("search.searchImages", [{ query: "a" }]))
+      .not.toBe(cassetteKey("search.searchImages", [{ query: "b" }]));
+  });
+});
+
+describe("CassetteTape", () => {
+  it("replays recorded responses without calling through", async () => {
+    const recorder = CassetteTape.record({ personA: "A" });
+    await recorder.run("detect", ["x.jpg"], async () => ({ celebrities: ["A"] }));
+
+    const player = CassetteTape.replay(recorder.toCassette());
+    const fn = vi.fn();
+    await expect(player.run("detect", ["x.jpg"], fn)).resolves.toEqual({ celebrities: ["A"] });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("replays identical calls in recorded order, then repeats the last one", async () => {
+    const recorder = CassetteTape.record();
+    let count = 0;
+    await recorder.run("planner.next", [], async () => ++count);
+    await recorder.run("planner.next", [], async () => ++count);
+
+    const player = CassetteTape.replay(recorder.toCassette());
+    const replayed = [];
+    for (let i = 0; i < 3; i++) {
+      replayed.push(await player.run("planner.next", [], async () => 0));
+    }
+    expect(replayed).toEqual([1, 2, 2]);
+  });
+
+  it("replays recorded errors", async () => {
+    const recorder = CassetteTape.record();
+    await expect(recorder.run("search", ["q"], async () => { throw new Error("quota"); })).rejects.toThrow("quota");
+
+    const player = CassetteTape.replay(recorder.toCassette());
+    await expect(player.run("search", ["q"], async () => "live")).rejects.toThrow("quota");
+  });
+
+  it("fails calls the cassette has no response for", async () => {
+    const player = CassetteTape.replay(CassetteTape.record().toCassette());
+    await expect(player.run("search", ["q"], async () => "live")).rejects.toBeInstanceOf(CassetteMissError);
+  });
+
+  it("rejects cassettes from another version", () => {
+    const cassette = { ...CassetteTape.record().toCassette(), version: 99 };
+    expect(() => CassetteTape.replay(cassette)).toThrow("Unsupported cassette version 99");
+  });
+
+  it("routes client methods through the tape by prefix", async () => {
+    const recorder = CassetteTape.record();
+    const client = recorder.wrapClient("search", { searchImages: async (query: string) => [query] });
+    await client.searchImages("a");
+    expect(recorder.toCassette().interactions.map(i => i.key)).toEqual(['search.searchImages(["a"])']);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { NEAR_DUPLICATE_DISTANCE, PhotoDeduplicator, hammingDistance, isNearDuplicate } from "../src/photo-dedup.js";
+
+describe("hammingDistance", () => {
+  it("counts differing bits per hex digit", () => {
+    expect(hammingDistance("ffff0000ffff0000", "ffff0000ffff0000")).toBe(0);
+    expect(hammingDistance("0000000000000000", "000000000000000f")).toBe(4);
+    expect(hammingDistance("a", "5")).toBe(4);
+    expect(hammingDistance("8000000000000001", "0000000000000000")).toBe(2);
+  });
+
+  it("ignores hex case", () => {
+    expect(hammingDistance("ABCDEF", "abcdef")).toBe(0);
+  });
+
+  it("returns Infinity for hashes that cannot be compared", () => {
+    expect(hammingDistance("abc", "abcd")).toBe(Infinity);
+    expect(hammingDistance("abcg", "abcd")).toBe(Infinity);
+  });
+});
+
+describe("isNearDuplicate", () => {
+  it("accepts hashes up to the threshold", () => {
+    // 0x3ff differs from 0x000 in exactly 10 bits
+    expect(isNearDuplicate("0000000000000000", "00000000000003ff")).toBe(true);
+    expect(isNearDuplicate("0000000000000000", "00000000000007ff")).toBe(false);
+    expect(isNearDuplicate("0000000000000000", "0000000000000003", 1)).toBe(false);
+    expect(NEAR_DUPLICATE_DISTANCE).toBe(10);
+  });
+});
+
+describe("PhotoDeduplicator", () => {
+  it("returns the first URL seen for a near-duplicate photo", () => {
+    const dedup = new PhotoDeduplicator();
+    expect(dedup.check("https://a/original.jpg", "f0f0f0f0f0f0f0f0")).toBeNull();
+    expect(dedup.check("https://b/resized.jpg", "f0f0f0f0f0f0f0f1")).toBe("https://a/original.jpg");
+    expect(dedup.check("https://c/other.jpg", "0f0f0f0f0f0f0f0f")).toBeNull();
+    expect(dedup.size).toBe(2);
+  });
+
+  it("uses the configured threshold", () => {
+    const dedup = new PhotoDeduplicator(0);
+    expect(dedup.check("https://a/1.jpg", "0000000000000000")).toBeNull();
+    expect(dedup.check("https://a/2.jpg", "0000000000000001")).toBeNull();
+    expect(dedup.check("https://a/3.jpg", "0000000000000000")).toBe("https://a/1.jpg");
+    expect(dedup.size).toBe(2);
+  });
+});
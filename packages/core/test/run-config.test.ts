@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { INVESTIGATION_PRESETS, RUN_CONFIG_LIMITS } from "@visual-degrees/contracts";
+import { resolveRunConfig } from "../src/run-config.js";
+
+describe("resolveRunConfig", () => {
+  it("uses the standard preset without overrides", () => {
+    expect(resolveRunConfig(undefined)).toEqual({
+      ok: true,
+      value: { preset: "standard", ...INVESTIGATION_PRESETS.standard },
+    });
+  });
+
+  it("applies overrides on top of the preset", () => {
+    const result = resolveRunConfig({ preset: "quick", config: { imagesPerQuery: 3 }, budgets: { maxSteps: 4 } });
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        preset: "quick",
+        config: { ...INVESTIGATION_PRESETS.quick.config, imagesPerQuery: 3 },
+        budgets: { ...INVESTIGATION_PRESETS.quick.budgets, maxSteps: 4 },
+      },
+    });
+  });
+
+  it("clamps values to the server limits and rounds them", () => {
+    const result = resolveRunConfig({
+      config: { hopLimit: 100, confidenceThreshold: 10, imagesPerQuery: 2.6 },
+      budgets: { maxSteps: 0, maxSubrequests: 10_000 },
+    });
+    expect(result.ok && result.value).toMatchObject({
+      config: {
+        hopLimit: RUN_CONFIG_LIMITS.hopLimit.max,
+        confidenceThreshold: RUN_CONFIG_LIMITS.confidenceThreshold.min,
+        imagesPerQuery: 3,
+      },
+      budgets: {
+        maxSteps: RUN_CONFIG_LIMITS.maxSteps.min,
+        maxSubrequests: RUN_CONFIG_LIMITS.maxSubrequests.max,
+      },
+    });
+  });
+
+  it("only sets bypassSearchCache when it is true", () => {
+    const bypass = resolveRunConfig({ bypassSearchCache: true });
+    const keep = resolveRunConfig({ bypassSearchCache: false });
+    expect(bypass.ok && bypass.value.bypassSearchCache).toBe(true);
+    expect(keep.ok && "bypassSearchCache" in keep.value).toBe(false);
+  });
+
+  it.each([
+    [{ preset: "turbo" }, 'Unknown preset "turbo" (expected: quick, standard, deep)'],
+    [{ config: [] }, "config must be an object"],
+    [{ config: { depth: 3 } }, 'Unknown config field "depth" (expected: hopLimit, confidenceThreshold, imagesPerQuery)'],
+    [{ budgets: { maxSteps: "5" } }, "budgets.maxSteps must be a number"],
+    [{ config: { hopLimit: Number.NaN } }, "config.hopLimit must be a number"],
+    [{ bypassSearchCache: "yes" }, "bypassSearchCache must be a boolean"],
+  ])("rejects %j", (overrides, error) => {
+    expect(resolveRunConfig(overrides as never)).toEqual({ ok: false, error });
+  });
+});
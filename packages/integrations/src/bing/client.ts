@@ -0,0 +1,116 @@
+import type { ImageSearchResult, ImageSearchResponse } from "@visual-degrees/contracts";
+import { isLikelyImageUrl } from "../image-search/multi-provider.js";
+
+/**
+ * Configuration for Bing Image Search client
+ */
+export interface BingImageSearchConfig {
+  /** Bing Search subscription key */
+  apiKey: string;
+  /** Images endpoint (defaults to the global Bing Search v7 endpoint) */
+  endpoint?: string;
+  /** Number of results to fetch (MVP uses 5) */
+  numResults?: number;
+}
+
+/**
+ * Raw response structure from Bing Image Search API
+ */
+interface BingImageSearchResponse {
+  value?: Array<{
+    contentUrl?: string;
+    thumbnailUrl?: string;
+    hostPageUrl?: string;
+    name?: string;
+    encodingFormat?: string;
+  }>;
+}
+
+/**
+ * Bing Image Search client
+ */
+export class BingImageSearchClient {
+  private readonly apiKey: string;
+  private readonly endpoint: string;
+  private readonly numResults: number;
+
+  private static readonly DEFAULT_ENDPOINT = "https://api.bing.microsoft.com/v7.0/images/search";
+
+  constructor(config: BingImageSearchConfig) {
+    this.apiKey = config.apiKey;
+    this.endpoint = config.endpoint ?? BingImageSearchClient.DEFAULT_ENDPOINT;
+    this.numResults = config.numResults ?? 5;
+  }
+
+  /**
+   * Search for photos matching the query
+   */
+  async searchImages(query: string): Promise<ImageSearchResponse> {
+    const params = new URLSearchParams({
+      q: query,
+      count: String(this.numResults),
+      imageType: "Photo",
+      safeSearch: "Moderate",
+    });
+
+    const response = await fetch(`${this.endpoint}?${params.toString()}`, {
+      headers: { "Ocp-Apim-Subscription-Key": this.apiKey },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Bing Image Search API error (${response.status}): ${errorText}`);
+    }
+
+    const data = (await response.json()) as BingImageSearchResponse;
+
+    return {
+      query,
+      results: this.parseResults(data),
+    };
+  }
+
+  /**
+   * Parse raw Bing response into typed ImageSearchResult[]
+   * Keeps JPEG/PNG results with an image and a host page URL
+   */
+  private parseResults(data: BingImageSearchResponse): ImageSearchResult[] {
+    const results: ImageSearchResult[] = [];
+
+    for (const item of data.value ?? []) {
+      const imageUrl = item.contentUrl;
+      const contextUrl = item.hostPageUrl;
+      if (!imageUrl || !contextUrl || !isLikelyImageUrl(imageUrl)) {
+        continue;
+      }
+      if (item.encodingFormat && !["jpeg", "png"].includes(item.encodingFormat.toLowerCase())) {
+        continue;
+      }
+
+      results.push({
+        imageUrl,
+        thumbnailUrl: item.thumbnailUrl ?? imageUrl,
+        contextUrl,
+        title: item.name ?? "",
+      });
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Create a BingImageSearchClient from environment variables
+ */
+export function createBingImageSearchClient(): BingImageSearchClient {
+  const apiKey = process.env.BING_API_KEY;
+  if (!apiKey) {
+    throw new Error("BING_API_KEY environment variable is required");
+  }
+
+  return new BingImageSearchClient({
+    apiKey,
+    endpoint: process.env.BING_SEARCH_ENDPOINT,
+    numResults: 5,
+  });
+}
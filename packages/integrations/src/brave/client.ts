@@ -0,0 +1,107 @@
+import type { ImageSearchResult, ImageSearchResponse } from "@visual-degrees/contracts";
+import { isLikelyImageUrl } from "../image-search/multi-provider.js";
+
+/**
+ * Configuration for Brave Image Search client
+ */
+export interface BraveImageSearchConfig {
+  /** Brave Search API subscription token */
+  apiKey: string;
+  /** Number of results to fetch (MVP uses 5) */
+  numResults?: number;
+}
+
+/**
+ * Raw response structure from Brave Image Search API
+ */
+interface BraveImageSearchResponse {
+  results?: Array<{
+    title?: string;
+    /** Page the image appears on */
+    url?: string;
+    thumbnail?: { src?: string };
+    properties?: { url?: string };
+  }>;
+}
+
+/**
+ * Brave Image Search client
+ */
+export class BraveImageSearchClient {
+  private readonly apiKey: string;
+  private readonly numResults: number;
+
+  private static readonly BASE_URL = "https://api.search.brave.com/res/v1/images/search";
+
+  constructor(config: BraveImageSearchConfig) {
+    this.apiKey = config.apiKey;
+    this.numResults = config.numResults ?? 5;
+  }
+
+  /**
+   * Search for images matching the query
+   */
+  async searchImages(query: string): Promise<ImageSearchResponse> {
+    const params = new URLSearchParams({
+      q: query,
+      count: String(this.numResults),
+      safesearch: "strict",
+    });
+
+    const response = await fetch(`${BraveImageSearchClient.BASE_URL}?${params.toString()}`, {
+      headers: {
+        Accept: "application/json",
+        "X-Subscription-Token": this.apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Brave Image Search API error (${response.status}): ${errorText}`);
+    }
+
+    const data = (await response.json()) as BraveImageSearchResponse;
+
+    return {
+      query,
+      results: this.parseResults(data),
+    };
+  }
+
+  /**
+   * Parse raw Brave response into typed ImageSearchResult[]
+   * Skips results missing the image or page URL
+   */
+  private parseResults(data: BraveImageSearchResponse): ImageSearchResult[] {
+    const results: ImageSearchResult[] = [];
+
+    for (const item of data.results ?? []) {
+      const imageUrl = item.properties?.url;
+      const contextUrl = item.url;
+      if (!imageUrl || !contextUrl || !isLikelyImageUrl(imageUrl)) {
+        continue;
+      }
+
+      results.push({
+        imageUrl,
+        thumbnailUrl: item.thumbnail?.src ?? imageUrl,
+        contextUrl,
+        title: item.title ?? "",
+      });
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Create a BraveImageSearchClient from environment variables
+ */
+export function createBraveImageSearchClient(): BraveImageSearchClient {
+  const apiKey = process.env.BRAVE_API_KEY;
+  if (!apiKey) {
+    throw new Error("BRAVE_API_KEY environment variable is required");
+  }
+
+  return new BraveImageSearchClient({ apiKey, numResults: 5 });
+}
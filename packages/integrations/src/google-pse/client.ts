@@ -1,4 +1,5 @@
 import type { ImageSearchResult, ImageSearchResponse } from "@visual-degrees/contracts";
+import { isLikelyImageUrl } from "../image-search/multi-provider.js";
 
 /**
  * Configuration for Google Programmable Search Engine client
@@ -77,36 +78,6 @@ export class GooglePSEClient {
     };
   }
 
-  /**
-   * Check if URL looks like a valid image URL
-   */
-  private isValidImageUrl(url: string): boolean {
-    try {
-      const parsed = new URL(url);
-      const path = parsed.pathname.toLowerCase();
-
-      // Must be http/https
-      if (!parsed.protocol.startsWith("http")) {
-        return false;
-      }
-
-      // Check for image extensions
-      if (path.match(/\.(jpe?g|png|gif|webp)$/i)) {
-        return true;
-      }
-
-      // Allow URLs without extension (could be dynamic image endpoints)
-      // But skip obvious non-image paths
-      if (path.match(/\.(html?|php|aspx?|jsp|json|xml|css|js|pdf|svg)$/i)) {
-        return false;
-      }
-
-      return true;
-    } catch {
-      return false;
-    }
-  }
-
   /**
    * Parse raw Google API response into typed ImageSearchResult[]
    * Skips results missing imageUrl or contextUrl as per constraints
@@ -128,7 +99,7 @@ export class GooglePSEClient {
       }
 
       // Skip URLs that don't look like valid images
-      if (!this.isValidImageUrl(imageUrl)) {
+      if (!isLikelyImageUrl(imageUrl)) {
         continue;
       }
 
@@ -0,0 +1,437 @@
+import { computePerceptualHash } from "./perceptual-hash.js";
+
+// ============================================================================
+// Shared image fetch cache
+// ============================================================================
+
+/** Image formats every vision provider accepts, detected from magic bytes */
+export type ImageMimeType = "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+
+/**
+ * A downloaded, validated image
+ */
+export interface FetchedImage {
+  /** URL the image was requested by (first URL for deduplicated content) */
+  url: string;
+  bytes: Uint8Array;
+  mimeType: ImageMimeType;
+  /** Hex SHA-256 of the bytes */
+  sha256: string;
+  size: number;
+}
+
+/**
+ * Content-addressed blob storage for image bytes
+ * Blobs are keyed by SHA-256; URLs point at a blob so a later step
+ * (or isolate) can skip the download.
+ */
+export interface ImageBlobStore {
+  get(sha256: string): Promise<{ bytes: Uint8Array; mimeType: ImageMimeType } | null>;
+  put(image: FetchedImage): Promise<void>;
+  lookupUrl(url: string): Promise<string | null>;
+  linkUrl(url: string, sha256: string): Promise<void>;
+}
+
+/**
+ * Configuration for the image fetch cache
+ */
+export interface ImageFetchCacheConfig {
+  /** Timeout for image fetch in milliseconds (default: 10000) */
+  fetchTimeout?: number;
+  /** Maximum image size in bytes (default: 10MB - providers apply their own lower limits) */
+  maxImageSize?: number;
+  /** Smaller responses are placeholders or errors (default: 100 bytes) */
+  minImageSize?: number;
+  /** Image bytes held in memory before the least recently used are dropped (default: 32MB) */
+  maxCachedBytes?: number;
+  /** Optional persistent store shared across steps and runs */
+  store?: ImageBlobStore;
+}
+
+export interface ImageFetchStats {
+  /** Downloads over the network */
+  fetches: number;
+  /** Requests served from the per-run URL cache */
+  urlHits: number;
+  /** Downloads whose bytes were already cached under another URL */
+  hashHits: number;
+  /** Requests served from the blob store */
+  storeHits: number;
+}
+
+/**
+ * Convert bytes to Base64 (browser/worker compatible)
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Base64 data URL for inline image inputs
+ */
+export function toDataUrl(image: FetchedImage): string {
+  return `data:${image.mimeType};base64,${toBase64(image.bytes)}`;
+}
+
+/**
+ * Detect image type from magic bytes
+ * Returns null if not a recognized image format
+ */
+export function detectImageType(bytes: Uint8Array): ImageMimeType | null {
+  if (bytes.length < 12) {
+    return null;
+  }
+
+  // JPEG: FF D8 FF
+  if (bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) {
+    return "image/jpeg";
+  }
+
+  // PNG: 89 50 4E 47 0D 0A 1A 0A
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47) {
+    return "image/png";
+  }
+
+  // GIF: 47 49 46 38
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x38) {
+    return "image/gif";
+  }
+
+  // WebP: 52 49 46 46 ... 57 45 42 50
+  if (bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 &&
+      bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50) {
+    return "image/webp";
+  }
+
+  return null;
+}
+
+/**
+ * Check if bytes look like HTML (common when servers return error pages)
+ */
+function looksLikeHtml(bytes: Uint8Array): boolean {
+  const text = String.fromCharCode(...bytes.slice(0, 100)).toLowerCase();
+  return text.includes("<!doctype") || text.includes("<html") || text.includes("<head");
+}
+
+async function sha256Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function validateImageUrl(imageUrl: string): void {
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    throw new Error("Invalid image URL format");
+  }
+  if (!["http:", "https:"].includes(url.protocol)) {
+    throw new Error("Invalid image URL - must be http or https");
+  }
+}
+
+/**
+ * Image fetch cache shared by every vision provider of a run
+ *
+ * Each URL is downloaded and validated (size, HTML error pages, magic bytes)
+ * once; Rekognition, OpenRouter and Gemini then read the same bytes.
+ * Failures are cached too, so a broken URL costs one subrequest per run.
+ * Bytes are held up to a budget; least recently used images are dropped
+ * and fetched again (from the blob store, if any) when asked for.
+ */
+export class ImageFetchCache {
+  private readonly fetchTimeout: number;
+  private readonly maxImageSize: number;
+  private readonly minImageSize: number;
+  private readonly maxCachedBytes: number;
+  private readonly store?: ImageBlobStore;
+
+  /** URL -> in-flight or failed fetch, or the SHA-256 of the fetched image */
+  private readonly byUrl = new Map<string, Promise<FetchedImage> | string>();
+  /** SHA-256 -> image, least recently used first; identical bytes behind different URLs are held once */
+  private readonly byHash = new Map<string, FetchedImage>();
+  private cachedBytes = 0;
+  /** SHA-256 -> perceptual hash (null when the image could not be decoded) */
+  private readonly perceptualHashes = new Map<string, string | null>();
+
+  private readonly counters: ImageFetchStats = { fetches: 0, urlHits: 0, hashHits: 0, storeHits: 0 };
+
+  constructor(config: ImageFetchCacheConfig = {}) {
+    this.fetchTimeout = config.fetchTimeout ?? 10000; // 10 seconds
+    this.maxImageSize = config.maxImageSize ?? 10 * 1024 * 1024; // 10MB
+    this.minImageSize = config.minImageSize ?? 100;
+    this.maxCachedBytes = config.maxCachedBytes ?? 32 * 1024 * 1024; // 32MB
+    this.store = config.store;
+  }
+
+  /**
+   * Fetch a validated image, downloading it at most once per cache
+   */
+  async fetch(imageUrl: string): Promise<FetchedImage> {
+    validateImageUrl(imageUrl);
+
+    const cached = this.byUrl.get(imageUrl);
+    const image = typeof cached === "string" ? this.touch(cached) : cached;
+    if (image) {
+      this.counters.urlHits++;
+      return image;
+    }
+
+    // Once loaded, keep only the hash so evicting the bytes frees them
+    const pending = this.load(imageUrl);
+    this.byUrl.set(imageUrl, pending);
+    pending.then(
+      loaded => { if (this.byUrl.get(imageUrl) === pending) this.byUrl.set(imageUrl, loaded.sha256); },
+      () => {}
+    );
+    return pending;
+  }
+
+  /**
+   * A cached image by content hash
+   */
+  getByHash(sha256: string): FetchedImage | undefined {
+    return this.touch(sha256);
+  }
+
+  /**
+   * Perceptual hash of the image at a URL, computed once per content hash
+   * Fetch failures propagate; undecodable images return null.
+   */
+  async perceptualHash(imageUrl: string): Promise<string | null> {
+    const image = await this.fetch(imageUrl);
+    if (!this.perceptualHashes.has(image.sha256)) {
+      this.perceptualHashes.set(image.sha256, computePerceptualHash(image));
+    }
+    return this.perceptualHashes.get(image.sha256)!;
+  }
+
+  stats(): ImageFetchStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * A cached image, marked as most recently used
+   */
+  private touch(sha256: string): FetchedImage | undefined {
+    const image = this.byHash.get(sha256);
+    if (image) {
+      this.byHash.delete(sha256);
+      this.byHash.set(sha256, image);
+    }
+    return image;
+  }
+
+  /**
+   * Cache an image's bytes, dropping the least recently used over the budget
+   * (the newest image is kept even if it alone exceeds it)
+   */
+  private remember(image: FetchedImage): void {
+    this.byHash.set(image.sha256, image);
+    this.cachedBytes += image.size;
+
+    for (const [sha256, cached] of this.byHash) {
+      if (this.cachedBytes <= this.maxCachedBytes || sha256 === image.sha256) break;
+      this.byHash.delete(sha256);
+      this.cachedBytes -= cached.size;
+    }
+  }
+
+  private async load(imageUrl: string): Promise<FetchedImage> {
+    const stored = await this.loadFromStore(imageUrl);
+    if (stored) {
+      this.counters.storeHits++;
+      return stored;
+    }
+
+    const { bytes, contentType } = await this.download(imageUrl);
+    this.counters.fetches++;
+
+    if (bytes.byteLength < this.minImageSize) {
+      throw new Error("Image too small - likely invalid or placeholder");
+    }
+    if (looksLikeHtml(bytes)) {
+      throw new Error("Server returned HTML instead of image");
+    }
+
+    const mimeType = detectImageType(bytes) ?? this.fallbackMimeType(contentType);
+    if (!mimeType) {
+      throw new Error("Unrecognized image format");
+    }
+
+    const sha256 = await sha256Hex(bytes);
+    const existing = this.touch(sha256);
+    if (existing) {
+      this.counters.hashHits++;
+      await this.persist(imageUrl, existing, false);
+      return existing;
+    }
+
+    const image: FetchedImage = { url: imageUrl, bytes, mimeType, sha256, size: bytes.byteLength };
+    this.remember(image);
+    await this.persist(imageUrl, image, true);
+    return image;
+  }
+
+  /**
+   * Unrecognized magic bytes are accepted when the server declares a supported type
+   */
+  private fallbackMimeType(contentType: string): ImageMimeType | null {
+    const supported: ImageMimeType[] = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+    return supported.find(type => type === contentType) ?? null;
+  }
+
+  /**
+   * Blob store lookups are best-effort - a failing store falls back to the network
+   */
+  private async loadFromStore(imageUrl: string): Promise<FetchedImage | null> {
+    if (!this.store) return null;
+    try {
+      const sha256 = await this.store.lookupUrl(imageUrl);
+      if (!sha256) return null;
+
+      const inMemory = this.touch(sha256);
+      if (inMemory) return inMemory;
+
+      const blob = await this.store.get(sha256);
+      if (!blob) return null;
+
+      const image: FetchedImage = { url: imageUrl, ...blob, sha256, size: blob.bytes.byteLength };
+      this.remember(image);
+      return image;
+    } catch (error) {
+      console.warn("[ImageFetchCache] Blob store lookup failed:", error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private async persist(imageUrl: string, image: FetchedImage, isNew: boolean): Promise<void> {
+    if (!this.store) return;
+    try {
+      if (isNew) {
+        await this.store.put(image);
+      }
+      await this.store.linkUrl(imageUrl, image.sha256);
+    } catch (error) {
+      console.warn("[ImageFetchCache] Blob store write failed:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Download with timeout and a streaming size limit
+   * Uses browser-like headers to avoid 403s
+   */
+  private async download(imageUrl: string): Promise<{ bytes: Uint8Array<ArrayBuffer>; contentType: string }> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.fetchTimeout);
+
+    try {
+      const urlObj = new URL(imageUrl);
+      const referer = `${urlObj.protocol}//${urlObj.host}/`;
+
+      const response = await fetch(imageUrl, {
+        signal: controller.signal,
+        headers: {
+          // Use a real browser User-Agent to avoid blocks
+          "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+          "Accept": "image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8",
+          "Accept-Language": "en-US,en;q=0.9",
+          "Referer": referer,
+          "Sec-Fetch-Dest": "image",
+          "Sec-Fetch-Mode": "no-cors",
+          "Sec-Fetch-Site": "cross-site",
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const contentType = response.headers.get("content-type")?.split(";")[0]?.toLowerCase() ?? "";
+
+      // Check content length header first - reject early if too large
+      const contentLength = response.headers.get("content-length");
+      if (contentLength && parseInt(contentLength, 10) > this.maxImageSize) {
+        throw new Error(`Image too large: ${Math.round(parseInt(contentLength, 10) / 1024 / 1024)}MB exceeds ${Math.round(this.maxImageSize / 1024 / 1024)}MB limit`);
+      }
+
+      // Streaming read aborts early when Content-Length is missing or wrong
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error("No response body");
+      }
+
+      const chunks: Uint8Array[] = [];
+      let totalSize = 0;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        totalSize += value.length;
+        if (totalSize > this.maxImageSize) {
+          reader.cancel();
+          throw new Error(`Image too large: exceeds ${Math.round(this.maxImageSize / 1024 / 1024)}MB limit`);
+        }
+        chunks.push(value);
+      }
+
+      const bytes = new Uint8Array(totalSize);
+      let offset = 0;
+      for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+      }
+
+      return { bytes, contentType };
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error(`Image fetch timeout after ${this.fetchTimeout / 1000}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * In-memory blob store - local stand-in for a persistent bucket
+ * Oldest blobs are evicted once the byte budget is exceeded.
+ */
+export class MemoryImageBlobStore implements ImageBlobStore {
+  private readonly blobs = new Map<string, { bytes: Uint8Array; mimeType: ImageMimeType }>();
+  private readonly urls = new Map<string, string>();
+  private totalBytes = 0;
+
+  constructor(private readonly maxBytes: number = 32 * 1024 * 1024) {}
+
+  async get(sha256: string) {
+    return this.blobs.get(sha256) ?? null;
+  }
+
+  async put(image: FetchedImage): Promise<void> {
+    if (this.blobs.has(image.sha256)) return;
+    this.blobs.set(image.sha256, { bytes: image.bytes, mimeType: image.mimeType });
+    this.totalBytes += image.size;
+
+    for (const [sha256, blob] of this.blobs) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.blobs.delete(sha256);
+      this.totalBytes -= blob.bytes.byteLength;
+    }
+  }
+
+  async lookupUrl(url: string): Promise<string | null> {
+    return this.urls.get(url) ?? null;
+  }
+
+  async linkUrl(url: string, sha256: string): Promise<void> {
+    this.urls.set(url, sha256);
+  }
+}
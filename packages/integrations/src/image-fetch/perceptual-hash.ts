@@ -0,0 +1,124 @@
+import { decode as decodeJpeg } from "jpeg-js";
+import { decode as decodePng } from "fast-png";
+import type { ImageMimeType } from "./cache.js";
+
+// ============================================================================
+// Perceptual hash (dHash)
+// ============================================================================
+
+/** dHash grid: 9 columns give 8 left/right comparisons per row, 8 rows - 64 bits */
+const GRID_WIDTH = 9;
+const GRID_HEIGHT = 8;
+
+/** Decode limits - larger images are not hashed rather than exhausting worker memory */
+const MAX_RESOLUTION_MP = 12;
+const MAX_DECODE_MEMORY_MB = 64;
+
+interface DecodedPixels {
+  width: number;
+  height: number;
+  /** Luma (0-255) of the pixel at a flat index */
+  luma(index: number): number;
+}
+
+function lumaOf(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+function decodeJpegPixels(bytes: Uint8Array): DecodedPixels {
+  const { width, height, data } = decodeJpeg(bytes, {
+    useTArray: true,
+    formatAsRGBA: true,
+    maxResolutionInMP: MAX_RESOLUTION_MP,
+    maxMemoryUsageInMB: MAX_DECODE_MEMORY_MB,
+  });
+  return {
+    width,
+    height,
+    luma: i => lumaOf(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]),
+  };
+}
+
+/**
+ * Width and height from the PNG header (IHDR is always the first chunk:
+ * 8-byte signature, chunk length and type, then big-endian width and height)
+ */
+function readPngDimensions(bytes: Uint8Array): { width: number; height: number } {
+  if (bytes.length < 24) {
+    throw new Error("Truncated PNG header");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function decodePngPixels(bytes: Uint8Array): DecodedPixels {
+  // Check the size before decoding - fast-png has no resolution limit of its own
+  const header = readPngDimensions(bytes);
+  if (header.width * header.height > MAX_RESOLUTION_MP * 1_000_000) {
+    throw new Error("Image too large to hash");
+  }
+
+  const png = decodePng(bytes);
+  const { width, height, channels, data, palette } = png;
+
+  // 16-bit samples are scaled down to 8-bit
+  const scale = png.depth === 16 ? 1 / 257 : 255 / (2 ** png.depth - 1);
+  const sample = (i: number) => data[i] * scale;
+
+  if (palette) {
+    return { width, height, luma: i => { const [r, g, b] = palette[data[i]] ?? [0, 0, 0]; return lumaOf(r, g, b); } };
+  }
+  if (channels >= 3) {
+    return { width, height, luma: i => lumaOf(sample(i * channels), sample(i * channels + 1), sample(i * channels + 2)) };
+  }
+  // Grayscale, with or without alpha
+  return { width, height, luma: i => sample(i * channels) };
+}
+
+/**
+ * 64-bit difference hash of decoded pixels as 16 hex chars
+ * Pixels are area-averaged onto a 9x8 grid; each bit says whether a cell is
+ * brighter than its right neighbour, which survives resizing, recompression
+ * and small crops.
+ */
+function differenceHash(pixels: DecodedPixels): string {
+  const sums = new Float64Array(GRID_WIDTH * GRID_HEIGHT);
+  const counts = new Uint32Array(GRID_WIDTH * GRID_HEIGHT);
+
+  for (let y = 0; y < pixels.height; y++) {
+    const row = Math.floor((y * GRID_HEIGHT) / pixels.height) * GRID_WIDTH;
+    for (let x = 0; x < pixels.width; x++) {
+      const cell = row + Math.floor((x * GRID_WIDTH) / pixels.width);
+      sums[cell] += pixels.luma(y * pixels.width + x);
+      counts[cell]++;
+    }
+  }
+
+  const mean = (cell: number) => (counts[cell] ? sums[cell] / counts[cell] : 0);
+
+  let hex = "";
+  for (let y = 0; y < GRID_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < GRID_WIDTH - 1; x++) {
+      const cell = y * GRID_WIDTH + x;
+      byte = (byte << 1) | (mean(cell) > mean(cell + 1) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/**
+ * Perceptual hash of a JPEG or PNG image
+ * Returns null for other formats, undecodable data and images over the decode limits.
+ */
+export function computePerceptualHash(image: { bytes: Uint8Array; mimeType: ImageMimeType }): string | null {
+  try {
+    if (image.mimeType === "image/jpeg") return differenceHash(decodeJpegPixels(image.bytes));
+    if (image.mimeType === "image/png") return differenceHash(decodePngPixels(image.bytes));
+    return null;
+  } catch (error) {
+    console.warn("[PerceptualHash] Could not decode image:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
@@ -0,0 +1,151 @@
+import type { ImageSearchResult, ImageSearchResponse } from "@visual-degrees/contracts";
+
+/**
+ * Any image search backend (Google PSE, Bing, Brave, Wikimedia Commons, fixtures)
+ */
+export interface ImageSearchProvider {
+  searchImages(query: string): Promise<ImageSearchResponse>;
+}
+
+/**
+ * How a multi-provider search uses its providers:
+ * - failover: ask providers in order until one answers without an error
+ * - fanout: ask all providers at once and merge their results
+ */
+export type SearchMode = "failover" | "fanout";
+
+export interface MultiProviderSearchConfig {
+  /** Providers in priority order */
+  providers: Array<{ name: string; client: ImageSearchProvider }>;
+  mode?: SearchMode;
+  /** Maximum merged results in fanout mode */
+  maxResults?: number;
+}
+
+/**
+ * Check if URL looks like a valid image URL
+ * Allows extensionless URLs (dynamic image endpoints) but skips obvious non-image paths.
+ */
+export function isLikelyImageUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.toLowerCase();
+
+    // Must be http/https
+    if (!parsed.protocol.startsWith("http")) {
+      return false;
+    }
+
+    if (path.match(/\.(jpe?g|png|gif|webp)$/i)) {
+      return true;
+    }
+    return !path.match(/\.(html?|php|aspx?|jsp|json|xml|css|js|pdf|svg)$/i);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Key under which two results are the same image: scheme and host are
+ * case-insensitive and the fragment never reaches the server
+ */
+function imageUrlKey(imageUrl: string): string {
+  try {
+    const parsed = new URL(imageUrl);
+    parsed.hash = "";
+    return parsed.toString();
+  } catch {
+    return imageUrl;
+  }
+}
+
+/**
+ * Merge ranked result lists, interleaving them so every provider's best
+ * results come first, and drop repeated image URLs (the earlier one wins)
+ */
+export function mergeSearchResults(lists: ImageSearchResult[][], maxResults = Infinity): ImageSearchResult[] {
+  const seen = new Set<string>();
+  const merged: ImageSearchResult[] = [];
+  const longest = Math.max(0, ...lists.map(list => list.length));
+
+  for (let rank = 0; rank < longest && merged.length < maxResults; rank++) {
+    for (const list of lists) {
+      const result = list[rank];
+      if (!result) continue;
+
+      const key = imageUrlKey(result.imageUrl);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      merged.push(result);
+      if (merged.length >= maxResults) break;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Image search over several providers, with failover or fan-out and merge.
+ * Each result is tagged with the provider that returned it.
+ */
+export class MultiProviderSearchClient implements ImageSearchProvider {
+  private readonly providers: MultiProviderSearchConfig["providers"];
+  private readonly mode: SearchMode;
+  private readonly maxResults: number;
+
+  constructor(config: MultiProviderSearchConfig) {
+    if (config.providers.length === 0) {
+      throw new Error("MultiProviderSearchClient needs at least one provider");
+    }
+    this.providers = config.providers;
+    this.mode = config.mode ?? "failover";
+    this.maxResults = config.maxResults ?? 10;
+  }
+
+  async searchImages(query: string): Promise<ImageSearchResponse> {
+    return this.mode === "fanout" ? this.fanOut(query) : this.failover(query);
+  }
+
+  private async searchWith(name: string, client: ImageSearchProvider, query: string): Promise<ImageSearchResult[]> {
+    const { results } = await client.searchImages(query);
+    return results.map(result => ({ ...result, source: name }));
+  }
+
+  private async failover(query: string): Promise<ImageSearchResponse> {
+    const errors: string[] = [];
+    for (const { name, client } of this.providers) {
+      try {
+        return { query, results: await this.searchWith(name, client, query) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`[MultiProviderSearch] ${name} failed, trying next provider:`, message);
+        errors.push(`${name}: ${message}`);
+      }
+    }
+    throw new Error(`All search providers failed (${errors.join("; ")})`);
+  }
+
+  private async fanOut(query: string): Promise<ImageSearchResponse> {
+    const settled = await Promise.allSettled(
+      this.providers.map(({ name, client }) => this.searchWith(name, client, query))
+    );
+
+    const lists: ImageSearchResult[][] = [];
+    const errors: string[] = [];
+    settled.forEach((outcome, i) => {
+      const { name } = this.providers[i];
+      if (outcome.status === "fulfilled") {
+        lists.push(outcome.value);
+      } else {
+        const message = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        console.warn(`[MultiProviderSearch] ${name} failed:`, message);
+        errors.push(`${name}: ${message}`);
+      }
+    });
+
+    if (lists.length === 0) {
+      throw new Error(`All search providers failed (${errors.join("; ")})`);
+    }
+    return { query, results: mergeSearchResults(lists, this.maxResults) };
+  }
+}
@@ -2,6 +2,47 @@
 export { GooglePSEClient, createGooglePSEClient } from "./google-pse/client.js";
 export type { GooglePSEConfig } from "./google-pse/client.js";
 
+// Bing Image Search
+export { BingImageSearchClient, createBingImageSearchClient } from "./bing/client.js";
+export type { BingImageSearchConfig } from "./bing/client.js";
+
+// Brave Image Search
+export { BraveImageSearchClient, createBraveImageSearchClient } from "./brave/client.js";
+export type { BraveImageSearchConfig } from "./brave/client.js";
+
+// Wikimedia Commons
+export { WikimediaCommonsClient } from "./wikimedia-commons/client.js";
+export type { WikimediaCommonsConfig } from "./wikimedia-commons/client.js";
+
+// Multi-provider image search (failover / fan-out)
+export {
+  MultiProviderSearchClient,
+  mergeSearchResults,
+  isLikelyImageUrl,
+} from "./image-search/multi-provider.js";
+export type {
+  ImageSearchProvider,
+  MultiProviderSearchConfig,
+  SearchMode,
+} from "./image-search/multi-provider.js";
+
+// Shared image fetch cache
+export {
+  ImageFetchCache,
+  MemoryImageBlobStore,
+  detectImageType,
+  toBase64,
+  toDataUrl,
+} from "./image-fetch/cache.js";
+export { computePerceptualHash } from "./image-fetch/perceptual-hash.js";
+export type {
+  FetchedImage,
+  ImageBlobStore,
+  ImageFetchCacheConfig,
+  ImageFetchStats,
+  ImageMimeType,
+} from "./image-fetch/cache.js";
+
 // Amazon Rekognition
 export {
   CelebrityRekognitionClient,
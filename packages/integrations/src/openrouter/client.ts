@@ -1,4 +1,5 @@
 import type { PlannerInput, PlannerOutput } from "@visual-degrees/contracts";
+import { ImageFetchCache, toDataUrl } from "../image-fetch/cache.js";
 
 // ============================================================================
 // OpenRouter Client for Gemini 3 Flash
@@ -16,6 +17,8 @@ export interface OpenRouterConfig {
   requestTimeout?: number;
   /** Maximum image size in bytes (default: 10MB) */
   maxImageSize?: number;
+  /** Image fetch cache shared with the other vision clients of a run */
+  imageCache?: ImageFetchCache;
 }
 
 /**
@@ -43,19 +46,6 @@ export interface BridgeCandidateSuggestion {
   confidence: number;
 }
 
-/**
- * Convert ArrayBuffer to Base64 string (browser/worker compatible)
- */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = "";
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
 /**
  * OpenRouter client for Gemini 3 Flash
  * Handles both visual verification and LLM planning
@@ -65,6 +55,7 @@ export class OpenRouterClient {
   private readonly model: string;
   private readonly requestTimeout: number;
   private readonly maxImageSize: number;
+  private readonly imageCache: ImageFetchCache;
 
   private static readonly VISUAL_SYSTEM_PROMPT = `You are an image analysis expert. Your task is to determine if an image shows people physically together in a SINGLE, REAL-WORLD scene, or if it is a COMPOSITE image (collage, photogrid, split-screen, side-by-side comparison, before/after, meme with multiple panels, etc.).
 
@@ -256,6 +247,7 @@ Output ONLY valid JSON:
     this.model = config.model ?? "google/gemini-2.0-flash-001";
     this.requestTimeout = config.requestTimeout ?? 30000;
     this.maxImageSize = config.maxImageSize ?? 10 * 1024 * 1024;
+    this.imageCache = config.imageCache ?? new ImageFetchCache({ maxImageSize: this.maxImageSize });
   }
 
   /**
@@ -536,122 +528,14 @@ Output ONLY valid JSON:
   }
 
   /**
-   * Detect image type from magic bytes and return MIME type
-   * Returns null if not a recognized image format
-   */
-  private detectImageType(bytes: Uint8Array): string | null {
-    if (bytes.length < 12) {
-      return null;
-    }
-
-    // JPEG: FF D8 FF
-    if (bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) {
-      return "image/jpeg";
-    }
-
-    // PNG: 89 50 4E 47 0D 0A 1A 0A
-    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47) {
-      return "image/png";
-    }
-
-    // GIF: 47 49 46 38
-    if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x38) {
-      return "image/gif";
-    }
-
-    // WebP: 52 49 46 46 ... 57 45 42 50
-    if (bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 &&
-        bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50) {
-      return "image/webp";
-    }
-
-    return null;
-  }
-
-  /**
-   * Check if bytes look like HTML (common when servers return error pages)
-   */
-  private looksLikeHtml(bytes: Uint8Array): boolean {
-    // Check for common HTML signatures
-    const text = String.fromCharCode(...bytes.slice(0, 100)).toLowerCase();
-    return text.includes("<!doctype") || text.includes("<html") || text.includes("<head");
-  }
-
-  /**
-   * Fetch image and convert to base64 data URL
-   * Uses browser-like headers to avoid 403s
+   * Image from the shared fetch cache as a base64 data URL
    */
   private async fetchImageAsDataUrl(imageUrl: string): Promise<string> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-    try {
-      // Parse URL to get referer domain
-      const urlObj = new URL(imageUrl);
-      const referer = `${urlObj.protocol}//${urlObj.host}/`;
-
-      const response = await fetch(imageUrl, {
-        signal: controller.signal,
-        headers: {
-          // Use a real browser User-Agent to avoid blocks
-          "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          "Accept": "image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8",
-          "Accept-Language": "en-US,en;q=0.9",
-          "Referer": referer,
-          "Sec-Fetch-Dest": "image",
-          "Sec-Fetch-Mode": "no-cors",
-          "Sec-Fetch-Site": "cross-site",
-        },
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const arrayBuffer = await response.arrayBuffer();
-      const bytes = new Uint8Array(arrayBuffer);
-
-      // Check for common error conditions
-      if (arrayBuffer.byteLength < 100) {
-        throw new Error("Image too small - likely invalid or placeholder");
-      }
-
-      if (arrayBuffer.byteLength > this.maxImageSize) {
-        throw new Error(`Image too large: ${Math.round(arrayBuffer.byteLength / 1024 / 1024)}MB`);
-      }
-
-      // Check if response is actually HTML (error page)
-      if (this.looksLikeHtml(bytes)) {
-        throw new Error("Server returned HTML instead of image");
-      }
-
-      // Detect image type from magic bytes
-      const detectedType = this.detectImageType(bytes);
-
-      if (!detectedType) {
-        // If we can't detect type but it's not HTML, try using content-type header
-        const contentType = response.headers.get("content-type")?.split(";")[0]?.toLowerCase();
-        const supportedFormats = ["image/jpeg", "image/png", "image/webp", "image/gif"];
-
-        if (contentType && supportedFormats.includes(contentType)) {
-          const base64 = arrayBufferToBase64(arrayBuffer);
-          return `data:${contentType};base64,${base64}`;
-        }
-
-        throw new Error("Unrecognized image format");
-      }
-
-      const base64 = arrayBufferToBase64(arrayBuffer);
-      return `data:${detectedType};base64,${base64}`;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error("Image fetch timeout");
-      }
-      throw error;
+    const image = await this.imageCache.fetch(imageUrl);
+    if (image.size > this.maxImageSize) {
+      throw new Error(`Image too large: ${Math.round(image.size / 1024 / 1024)}MB`);
     }
+    return toDataUrl(image);
   }
 
   /**
@@ -8,6 +8,7 @@ import type {
   BoundingBox,
   ImageAnalysisResult,
 } from "@visual-degrees/contracts";
+import { ImageFetchCache } from "../image-fetch/cache.js";
 
 /**
  * Extended result type that includes throttling information
@@ -34,10 +35,12 @@ export interface RekognitionConfig {
   maxRetries?: number;
   /** Base delay for exponential backoff in ms (default: 1000) */
   baseRetryDelay?: number;
+  /** Image fetch cache shared with the other vision clients of a run */
+  imageCache?: ImageFetchCache;
 }
 
-/** Supported image MIME types for Rekognition */
-const SUPPORTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png"];
+/** Image formats Rekognition accepts */
+const SUPPORTED_IMAGE_TYPES = ["image/jpeg", "image/png"];
 
 /**
  * Amazon Rekognition client for celebrity detection
@@ -48,6 +51,7 @@ export class CelebrityRekognitionClient {
   private readonly maxImageSize: number;
   private readonly maxRetries: number;
   private readonly baseRetryDelay: number;
+  private readonly imageCache: ImageFetchCache;
 
   constructor(config: RekognitionConfig = {}) {
     const credentials =
@@ -67,6 +71,7 @@ export class CelebrityRekognitionClient {
     this.maxImageSize = config.maxImageSize ?? 5 * 1024 * 1024; // 5MB (Rekognition limit)
     this.maxRetries = config.maxRetries ?? 3;
     this.baseRetryDelay = config.baseRetryDelay ?? 1000; // 1 second
+    this.imageCache = config.imageCache ?? new ImageFetchCache({ fetchTimeout: this.fetchTimeout });
   }
 
   /**
@@ -88,105 +93,19 @@ export class CelebrityRekognitionClient {
   }
 
   /**
-   * Validate image URL format
-   */
-  private validateImageUrl(imageUrl: string): void {
-    try {
-      const url = new URL(imageUrl);
-      if (!["http:", "https:"].includes(url.protocol)) {
-        throw new Error("Invalid protocol");
-      }
-    } catch {
-      throw new Error("Invalid image URL format");
-    }
-  }
-
-  /**
-   * Fetch image bytes from a URL with timeout and validation
+   * Image bytes from the shared fetch cache, checked against Rekognition's limits
    */
   private async fetchImageBytes(imageUrl: string): Promise<Uint8Array> {
-    this.validateImageUrl(imageUrl);
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.fetchTimeout);
-
-    try {
-      const response = await fetch(imageUrl, {
-        signal: controller.signal,
-        headers: {
-          "User-Agent": "Mozilla/5.0 (compatible; VisualDegrees/1.0)",
-          "Accept": "image/*",
-        },
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      // Validate content type
-      const contentType = response.headers.get("content-type")?.split(";")[0]?.toLowerCase() ?? "";
-      if (!SUPPORTED_IMAGE_TYPES.includes(contentType) && !contentType.startsWith("image/")) {
-        throw new Error(`Unsupported content type: ${contentType || "unknown"}`);
-      }
-
-      // Check content length header first - reject early if too large
-      const contentLength = response.headers.get("content-length");
-      if (contentLength) {
-        const declaredSize = parseInt(contentLength, 10);
-        if (declaredSize > this.maxImageSize) {
-          throw new Error(`Image too large for Rekognition (${Math.round(declaredSize / 1024 / 1024)}MB, max 5MB)`);
-        }
-      }
-
-      // Use streaming read to abort early if size exceeds limit
-      // This protects against missing/incorrect Content-Length headers
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error("No response body");
-      }
-
-      const chunks: Uint8Array[] = [];
-      let totalSize = 0;
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        totalSize += value.length;
-        if (totalSize > this.maxImageSize) {
-          reader.cancel();
-          throw new Error(`Image too large for Rekognition (>${Math.round(this.maxImageSize / 1024 / 1024)}MB, max 5MB)`);
-        }
-        chunks.push(value);
-      }
-
-      if (totalSize === 0) {
-        throw new Error("Empty image response");
-      }
-
-      // Combine chunks into single Uint8Array
-      const result = new Uint8Array(totalSize);
-      let offset = 0;
-      for (const chunk of chunks) {
-        result.set(chunk, offset);
-        offset += chunk.length;
-      }
-
-      return result;
-
-    } catch (error) {
-      clearTimeout(timeoutId);
+    const image = await this.imageCache.fetch(imageUrl);
 
-      if (error instanceof Error) {
-        if (error.name === "AbortError") {
-          throw new Error(`Image fetch timeout after ${this.fetchTimeout / 1000}s`);
-        }
-        throw error;
-      }
-      throw new Error("Failed to fetch image");
+    if (image.size > this.maxImageSize) {
+      throw new Error(`Image too large for Rekognition (${Math.round(image.size / 1024 / 1024)}MB, max ${Math.round(this.maxImageSize / 1024 / 1024)}MB)`);
     }
+    if (!SUPPORTED_IMAGE_TYPES.includes(image.mimeType)) {
+      throw new Error(`Unsupported image format for Rekognition: ${image.mimeType}`);
+    }
+
+    return image.bytes;
   }
 
   /**
@@ -298,6 +217,8 @@ export class CelebrityRekognitionClient {
         name: face.Name,
         confidence: face.MatchConfidence,
         boundingBox,
+        externalId: face.Id,
+        urls: face.Urls ?? [],
       });
     }
 
@@ -0,0 +1,113 @@
+import type { ImageSearchResult, ImageSearchResponse } from "@visual-degrees/contracts";
+
+/**
+ * Configuration for Wikimedia Commons image search client
+ */
+export interface WikimediaCommonsConfig {
+  /** Number of results to fetch (MVP uses 5) */
+  numResults?: number;
+  /** Thumbnail width in pixels */
+  thumbnailWidth?: number;
+  /** Identifying User-Agent, required by the Wikimedia API etiquette */
+  userAgent?: string;
+}
+
+/**
+ * Raw response structure from the MediaWiki query API (generator=search, prop=imageinfo)
+ */
+interface CommonsQueryResponse {
+  query?: {
+    pages?: Record<string, {
+      title?: string;
+      /** Search rank */
+      index?: number;
+      imageinfo?: Array<{
+        url?: string;
+        thumburl?: string;
+        descriptionurl?: string;
+        mime?: string;
+      }>;
+    }>;
+  };
+}
+
+/**
+ * Wikimedia Commons image search - freely licensed photos, no API key needed
+ */
+export class WikimediaCommonsClient {
+  private readonly numResults: number;
+  private readonly thumbnailWidth: number;
+  private readonly userAgent: string;
+
+  private static readonly BASE_URL = "https://commons.wikimedia.org/w/api.php";
+
+  constructor(config: WikimediaCommonsConfig = {}) {
+    this.numResults = config.numResults ?? 5;
+    this.thumbnailWidth = config.thumbnailWidth ?? 320;
+    this.userAgent = config.userAgent ?? "VisualDegrees/0.1 (https://github.com/nintang/cf_ai_connected)";
+  }
+
+  /**
+   * Search File: pages on Commons for photos matching the query
+   */
+  async searchImages(query: string): Promise<ImageSearchResponse> {
+    const params = new URLSearchParams({
+      action: "query",
+      format: "json",
+      generator: "search",
+      // Bitmaps only - skips SVG diagrams, PDFs and videos
+      gsrsearch: `${query} filetype:bitmap`,
+      gsrnamespace: "6",
+      gsrlimit: String(this.numResults),
+      prop: "imageinfo",
+      iiprop: "url|mime",
+      iiurlwidth: String(this.thumbnailWidth),
+    });
+
+    const response = await fetch(`${WikimediaCommonsClient.BASE_URL}?${params.toString()}`, {
+      headers: { "User-Agent": this.userAgent },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Wikimedia Commons API error (${response.status}): ${errorText}`);
+    }
+
+    const data = (await response.json()) as CommonsQueryResponse;
+
+    return {
+      query,
+      results: this.parseResults(data),
+    };
+  }
+
+  /**
+   * Parse the query pages into typed ImageSearchResult[], in search rank order
+   * Keeps JPEG/PNG files only
+   */
+  private parseResults(data: CommonsQueryResponse): ImageSearchResult[] {
+    const pages = Object.values(data.query?.pages ?? {})
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+    const results: ImageSearchResult[] = [];
+
+    for (const page of pages) {
+      const info = page.imageinfo?.[0];
+      if (!info?.url || !info.descriptionurl) {
+        continue;
+      }
+      if (info.mime !== "image/jpeg" && info.mime !== "image/png") {
+        continue;
+      }
+
+      results.push({
+        imageUrl: info.url,
+        thumbnailUrl: info.thumburl ?? info.url,
+        contextUrl: info.descriptionurl,
+        title: (page.title ?? "").replace(/^File:/, "").replace(/\.[a-z]+$/i, ""),
+      });
+    }
+
+    return results;
+  }
+}
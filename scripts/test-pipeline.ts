@@ -4,11 +4,20 @@
  * Usage:
  *   pnpm test:pipeline "Person A" "Person B"
  *   pnpm test:pipeline "Person A" "Person B" --multi-hop
+ *   pnpm test:pipeline "Person A" "Person B" --record cassette.json
+ *   pnpm test:pipeline --replay cassette.json
  *
  * Example:
  *   pnpm test:pipeline "Donald Trump" "Kanye West"
  *   pnpm test:pipeline "Donald Trump" "Cardi B" --multi-hop
  *
+ * Cassettes:
+ *   --record <file>  Save every external response of the run to <file>
+ *   --replay <file>  Feed a recorded cassette back instead of calling the APIs
+ *                    (no API keys needed; names default to the recorded run).
+ *                    Cassettes downloaded from GET /api/admin/cassettes/:runId
+ *                    replay the direct-edge check in single-hop mode.
+ *
  * Environment variables required:
  *   GOOGLE_API_KEY - Google API key with Custom Search enabled
  *   GOOGLE_CX - Programmable Search Engine ID
@@ -20,13 +29,22 @@
 
 import "dotenv/config";
 
+import { readFileSync, writeFileSync } from "node:fs";
 import chalk from "chalk";
 import Table from "cli-table3";
 import ora from "ora";
 
-import { createGooglePSEClient } from "../packages/integrations/src/google-pse/client.js";
-import { createRekognitionClient } from "../packages/integrations/src/rekognition/client.js";
 import {
+  GooglePSEClient,
+  createGooglePSEClient,
+} from "../packages/integrations/src/google-pse/client.js";
+import {
+  CelebrityRekognitionClient,
+  createRekognitionClient,
+} from "../packages/integrations/src/rekognition/client.js";
+import {
+  GeminiVisualFilterClient,
+  GeminiPlannerClient,
   createGeminiClient,
   createGeminiPlannerClient,
 } from "../packages/integrations/src/gemini/client.js";
@@ -36,8 +54,9 @@ import {
   createEvidenceRecord,
   createVerifiedEdge,
   InvestigationOrchestrator,
+  CassetteTape,
 } from "../packages/core/src/index.js";
-import type { InvestigationEvent } from "../packages/core/src/index.js";
+import type { InvestigationEvent, OrchestratorClients, Cassette } from "../packages/core/src/index.js";
 import type {
   EvidenceRecord,
   VerifiedEdge,
@@ -78,6 +97,31 @@ const styles = {
   accent: chalk.magenta,
 };
 
+/** Cassette being recorded or replayed (--record / --replay) */
+let tape: CassetteTape | null = null;
+
+/**
+ * Create the API clients, routed through the cassette if one is active.
+ * In replay mode the clients are never called, so no credentials are needed.
+ */
+function createClients(): OrchestratorClients {
+  const clients: OrchestratorClients = tape?.mode === "replay"
+    ? {
+        search: new GooglePSEClient({ apiKey: "replay", searchEngineId: "replay" }),
+        visualFilter: new GeminiVisualFilterClient({ apiKey: "replay" }),
+        celebrityDetection: new CelebrityRekognitionClient({}),
+        planner: new GeminiPlannerClient({ apiKey: "replay" }),
+      }
+    : {
+        search: createGooglePSEClient(),
+        visualFilter: createGeminiClient(),
+        celebrityDetection: createRekognitionClient(),
+        planner: createGeminiPlannerClient(),
+      };
+
+  return tape ? tape.wrapClients(clients) : clients;
+}
+
 function printHeader(personA: string, personB: string) {
   console.log();
   console.log(styles.header("┌─────────────────────────────────────────────────────────────┐"));
@@ -134,11 +178,13 @@ async function runPipeline(personA: string, personB: string): Promise<TestResult
     spinner: "dots",
   }).start();
 
-  const pseClient = createGooglePSEClient();
-  const geminiClient = createGeminiClient();
-  const rekognitionClient = createRekognitionClient();
+  const {
+    search: pseClient,
+    visualFilter: geminiClient,
+    celebrityDetection: rekognitionClient,
+  } = createClients();
 
-  initSpinner.succeed("API clients ready");
+  initSpinner.succeed(tape?.mode === "replay" ? "Replaying cassette" : "API clients ready");
 
   // Step 1: Search for images
   const query = directQuery(personA, personB);
@@ -475,22 +521,14 @@ async function runMultiHopPipeline(personA: string, personB: string): Promise<vo
     spinner: "dots",
   }).start();
 
-  const pseClient = createGooglePSEClient();
-  const geminiClient = createGeminiClient();
-  const geminiPlanner = createGeminiPlannerClient();
-  const rekognitionClient = createRekognitionClient();
+  const clients = createClients();
 
-  initSpinner.succeed("API clients ready (with intelligent planner)");
+  initSpinner.succeed(tape?.mode === "replay" ? "Replaying cassette" : "API clients ready (with intelligent planner)");
   console.log();
 
   // Create orchestrator with event logging
   const orchestrator = new InvestigationOrchestrator(
-    {
-      search: pseClient,
-      visualFilter: geminiClient,
-      celebrityDetection: rekognitionClient,
-      planner: geminiPlanner,
-    },
+    clients,
     {
       hopLimit: 6,
       confidenceThreshold: CONFIDENCE_THRESHOLD,
@@ -558,7 +596,26 @@ async function main() {
 
   // Check for flags
   const multiHop = args.includes("--multi-hop") || args.includes("-m");
-  const filteredArgs = args.filter(a => !a.startsWith("-"));
+  const flagValue = (flag: string) => {
+    const i = args.indexOf(flag);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+  const recordFile = flagValue("--record");
+  const replayFile = flagValue("--replay");
+  const filteredArgs = args.filter((a, i) =>
+    !a.startsWith("-") && args[i - 1] !== "--record" && args[i - 1] !== "--replay"
+  );
+
+  if (replayFile) {
+    const cassette = JSON.parse(readFileSync(replayFile, "utf8")) as Cassette;
+    tape = CassetteTape.replay(cassette);
+    // Default to the people of the recorded run
+    if (filteredArgs.length < 2 && cassette.meta.personA && cassette.meta.personB) {
+      filteredArgs.splice(0, filteredArgs.length, String(cassette.meta.personA), String(cassette.meta.personB));
+    }
+  } else if (recordFile) {
+    tape = CassetteTape.record();
+  }
 
   if (filteredArgs.length < 2) {
     console.log();
@@ -571,12 +628,23 @@ async function main() {
     console.log();
     console.log(styles.header("  Flags:"));
     console.log(`    ${styles.dim("--multi-hop, -m")}  Enable multi-hop expansion to find indirect paths`);
+    console.log(`    ${styles.dim("--record <file>")}  Record all external responses to a cassette file`);
+    console.log(`    ${styles.dim("--replay <file>")}  Replay a cassette file instead of calling the APIs`);
     console.log();
     process.exit(1);
   }
 
   const [personA, personB] = filteredArgs;
 
+  // Save the cassette however the run ends
+  const saveCassette = () => {
+    if (tape?.mode !== "record" || !recordFile) return;
+    const cassette = tape.toCassette();
+    cassette.meta = { personA, personB, multiHop };
+    writeFileSync(recordFile, JSON.stringify(cassette, null, 2));
+    console.log(`  ${styles.dim(`Recorded ${tape.size} interactions to ${recordFile}`)}`);
+  };
+
   try {
     if (multiHop) {
       await runMultiHopPipeline(personA, personB);
@@ -590,10 +658,12 @@ async function main() {
         console.log(JSON.stringify(result, null, 2));
       }
     }
+    saveCassette();
   } catch (error) {
     console.log();
     console.log(styles.error("  ✗ Pipeline Error:"), error instanceof Error ? error.message : error);
     console.log();
+    saveCassette();
     process.exit(1);
   }
 }